@@ -4,65 +4,392 @@ import { TradeTable } from './components/TradeTable';
 import { DashboardGraphs } from './components/DashboardGraphs';
 import { TraderStatsTable } from './components/TraderStatsTable';
 import { TraderGraphs } from './components/TraderGraphs';
+import { TraderCorrelationPanel } from './components/TraderCorrelationPanel';
+import { OpenRiskPanel } from './components/OpenRiskPanel';
+import { ResolutionCalendarPanel } from './components/ResolutionCalendarPanel';
 import { StatsCards } from './components/StatsCards';
 import { DateRangeSlider } from './components/DateRangeSlider';
-import { parseInputData, processTrades, exportToCSV } from './services/parser';
-import { calculateAnalytics } from './services/analytics';
-import { ProcessedTrade } from './types';
-import { Download, RefreshCw, AlertTriangle, PenTool } from 'lucide-react';
+import { MatchSettingsPanel } from './components/MatchSettingsPanel';
+import { ImportPanel } from './components/ImportPanel';
+import { SimulatorPanel } from './components/SimulatorPanel';
+import { OpportunityCostPanel } from './components/OpportunityCostPanel';
+import { BalancePanel } from './components/BalancePanel';
+import { CategoryBreakdown } from './components/CategoryBreakdown';
+import { MarketExplorer } from './components/MarketExplorer';
+import { TaxonomyPanel } from './components/TaxonomyPanel';
+import { CalibrationChart } from './components/CalibrationChart';
+import { ExecutionQualityPanel } from './components/ExecutionQualityPanel';
+import { LatencyPanel } from './components/LatencyPanel';
+import { ProcessingProgress } from './components/ProcessingProgress';
+import { exportToCSV } from './services/parser';
+import { downloadFile } from './services/download';
+import { DEFAULT_MATCH_SETTINGS } from './services/matching';
+import { DEFAULT_COST_BASIS_METHOD } from './services/ledger';
+import { createWorkspaceId, loadWorkspace, saveWorkspace } from './services/workspaces';
+import { summarizeInitialImport } from './services/ingest';
+import { DEFAULT_TAXONOMY_RULES } from './services/taxonomy';
+import { inputMarketTags, filterTradesByDate, PortfolioFile } from './services/pipeline';
+import { createPipelineClient, PIPELINE_CANCELLED } from './services/pipelineClient';
+import { DEFAULT_CLOCK_OFFSETS, DEFAULT_TIMEZONE, startOfDayInZone, endOfDayInZone, hasReadableDate, listTimezones } from './services/time';
+import { ProcessedTrade, ParsedInputs, MatchSettings, CostBasisMethod, Workspace, WorkspaceUIState, SimulationSettings, TradeStatus, TaxonomyRule, TradeSelection, AnalyticsResult, PipelineProgress, MatchDiffEntry, RangeReports, HoldingsReports, SimulationResult } from './types';
+import { Download, RefreshCw, AlertTriangle, PenTool, Globe } from 'lucide-react';
+
+// Identity and raw imports of the open workspace; the rest is saved from live state
+type ActiveWorkspace = Pick<Workspace, 'id' | 'name' | 'createdAt' | 'imports'>;
+
+const EMPTY_UI_STATE: WorkspaceUIState = {
+  dateRange: null,
+  tradeTableColumns: null,
+  traderStatsColumns: null,
+  hiddenTraders: []
+};
+
+const WORKSPACE_SAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
+  const [inputs, setInputs] = useState<ParsedInputs | null>(null);
   const [trades, setTrades] = useState<ProcessedTrade[]>([]);
   const [error, setError] = useState<string | null>(null);
+
+  // Parsing, matching and analytics run in a worker; progress is non-null while it works
+  const pipeline = useMemo(() => createPipelineClient(), []);
+  const [progress, setProgress] = useState<PipelineProgress | null>(null);
+  const [analytics, setAnalytics] = useState<AnalyticsResult | null>(null);
+  const [rangeReports, setRangeReports] = useState<RangeReports | null>(null);
+  const [holdings, setHoldings] = useState<HoldingsReports | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  useEffect(() => () => pipeline.cancel(), [pipeline]);
+
+  // Matching State
+  const [matchSettings, setMatchSettings] = useState<MatchSettings>(DEFAULT_MATCH_SETTINGS);
+  const [showMatchDiff, setShowMatchDiff] = useState(false);
+  const [matchDiff, setMatchDiff] = useState<MatchDiffEntry[] | null>(null);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD);
+  const [taxonomyRules, setTaxonomyRules] = useState<TaxonomyRule[]>(DEFAULT_TAXONOMY_RULES);
+  const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE);
+  const [startingBalance, setStartingBalance] = useState<number | null>(null); // null = infer from chat
   
   // Date Filtering State
   const [dateRange, setDateRange] = useState<{ start: Date, end: Date } | null>(null);
   const [minDate, setMinDate] = useState<Date>(new Date());
   const [maxDate, setMaxDate] = useState<Date>(new Date());
 
-  const handleProcess = (portfolio: string, chat: string) => {
+  // Copy-Trading Simulation (null = not run)
+  const [simulationSettings, setSimulationSettings] = useState<SimulationSettings | null>(null);
+
+  // Trade log narrowed from a panel (e.g. latency outliers)
+  const [tradeSelection, setTradeSelection] = useState<TradeSelection | null>(null);
+
+  // Workspace State
+  const [workspace, setWorkspace] = useState<ActiveWorkspace | null>(null);
+  const [uiState, setUiState] = useState<WorkspaceUIState>(EMPTY_UI_STATE);
+
+  // Determine date bounds, optionally restoring a saved selection
+  const applyDateBounds = (processed: ProcessedTrade[], savedRange?: WorkspaceUIState['dateRange'], zone: string = timezone) => {
+      const timestamps = processed.filter(hasReadableDate).map(t => new Date(t.date).getTime());
+      if (timestamps.length === 0) return;
+      // Widen bounds to whole days in the selected zone
+      const min = new Date(startOfDayInZone(timestamps.reduce((a, b) => Math.min(a, b)), zone));
+      const max = new Date(endOfDayInZone(timestamps.reduce((a, b) => Math.max(a, b)), zone));
+      
+      setMinDate(min);
+      setMaxDate(max);
+      setDateRange(savedRange
+          ? { start: new Date(savedRange.start), end: new Date(savedRange.end) }
+          : { start: min, end: max });
+  };
+
+  // After an append the bounds widen; a selection that covered the old bounds follows them
+  const extendDateBounds = (processed: ProcessedTrade[]) => {
+      const coveredBounds = !dateRange || (dateRange.start.getTime() <= minDate.getTime() && dateRange.end.getTime() >= maxDate.getTime());
+      applyDateBounds(processed, coveredBounds ? undefined : { start: dateRange.start.toISOString(), end: dateRange.end.toISOString() });
+  };
+
+  const handleProcess = async (portfolio: string, chat: string, dialectId: string | null, workspaceName: string) => {
     try {
       setError(null);
-      const { activePositions, closedPositions, activityHistory, chatLogs } = parseInputData(portfolio, chat);
-      const processed = processTrades(chatLogs, activePositions, closedPositions, activityHistory);
+      setProgress({ stage: 'parse', done: 0, total: portfolio.length + chat.length, message: '' });
+      const { inputs: parsed, trades: processed } = await pipeline.process(
+        { portfolioCsv: portfolio, chatCsv: chat, dialectId, matchSettings, costBasisMethod, taxonomyRules },
+        setProgress
+      );
       
-      // Determine date bounds
-      if (processed.length > 0) {
-          const timestamps = processed.map(t => new Date(t.date).getTime());
-          const min = new Date(Math.min(...timestamps));
-          const max = new Date(Math.max(...timestamps));
-          // Add small buffer to bounds
-          min.setHours(0,0,0,0);
-          max.setHours(23,59,59,999);
-          
-          setMinDate(min);
-          setMaxDate(max);
-          setDateRange({ start: min, end: max });
-      }
+      applyDateBounds(processed);
 
+      setInputs(parsed);
       setTrades(processed);
+      setStartingBalance(null);
+      setUiState(EMPTY_UI_STATE);
+      setWorkspace({
+          id: createWorkspaceId(),
+          name: workspaceName,
+          createdAt: new Date().toISOString(),
+          imports: [{ portfolioCsv: portfolio, chatCsv: chat, summary: summarizeInitialImport(parsed, processed) }]
+      });
     } catch (err: any) {
+      if (err.message === PIPELINE_CANCELLED) return;
       console.error(err);
       setError(err.message || 'An unknown error occurred while parsing the data.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleAppend = async (files: PortfolioFile[], chat: string) => {
+    if (!inputs || !workspace) return;
+    try {
+      setError(null);
+      setProgress({ stage: 'parse', done: 0, total: files.reduce((sum, f) => sum + f.csv.length, chat.length), message: '' });
+      const { inputs: merged, portfolioCsv, summary, trades: processed } = await pipeline.append(
+        inputs, trades, files, chat, matchSettings, costBasisMethod, taxonomyRules, setProgress
+      );
+
+      extendDateBounds(processed);
+
+      setInputs(merged);
+      setTrades(processed);
+      setWorkspace({ ...workspace, imports: [...workspace.imports, { portfolioCsv, chatCsv: chat, summary }] });
+    } catch (err: any) {
+      if (err.message === PIPELINE_CANCELLED) return;
+      console.error(err);
+      setError(err.message || 'An unknown error occurred while importing the new exports.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleOpenWorkspace = async (id: string) => {
+    try {
+      setError(null);
+      const saved = await loadWorkspace(id);
+      if (!saved) throw new Error('This workspace no longer exists.');
+
+      setProgress({ stage: 'parse', done: 0, total: 0, message: '' });
+      const restored = await pipeline.restore(saved.imports, saved.settings.dialectId, saved.trades, setProgress);
+
+      setMatchSettings(saved.settings.matchSettings);
+      setCostBasisMethod(saved.settings.costBasisMethod);
+      setTaxonomyRules(saved.settings.taxonomyRules || DEFAULT_TAXONOMY_RULES);
+      const savedTimezone = saved.settings.timezone || DEFAULT_TIMEZONE;
+      setTimezone(savedTimezone);
+      setStartingBalance(saved.settings.startingBalance ?? null);
+      setInputs(restored);
+      setTrades(saved.trades);
+      setUiState(saved.ui);
+      applyDateBounds(saved.trades, saved.ui.dateRange, savedTimezone);
+      setWorkspace({
+          id: saved.id,
+          name: saved.name,
+          createdAt: saved.createdAt,
+          imports: saved.imports
+      });
+    } catch (err: any) {
+      if (err.message === PIPELINE_CANCELLED) return;
+      console.error(err);
+      setError(err.message || 'An unknown error occurred while opening the workspace.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Day boundaries move with the zone, so the slider snaps back to the full range
+  const handleTimezoneChange = (zone: string) => {
+    setTimezone(zone);
+    applyDateBounds(trades, undefined, zone);
+  };
+
+  const handleMatchSettingsChange = async (settings: MatchSettings, method: CostBasisMethod) => {
+    const previous = { settings: matchSettings, method: costBasisMethod };
+    setMatchSettings(settings);
+    setCostBasisMethod(method);
+    if (!inputs) return;
+    try {
+      setError(null);
+      setTrades(await pipeline.rematch(inputs, settings, method, taxonomyRules, setProgress));
+    } catch (err: any) {
+      if (err.message === PIPELINE_CANCELLED) {
+        // Trades still reflect the previous settings
+        setMatchSettings(previous.settings);
+        setCostBasisMethod(previous.method);
+        return;
+      }
+      console.error(err);
+      setError(err.message || 'An unknown error occurred while matching trades.');
+    } finally {
+      setProgress(null);
     }
   };
 
+  // Rule changes only re-classify; matching and lots are unaffected
+  const handleTaxonomyChange = async (rules: TaxonomyRule[]) => {
+    const previous = taxonomyRules;
+    setTaxonomyRules(rules);
+    if (!inputs) return;
+    try {
+      setError(null);
+      setTrades(await pipeline.retag(trades, rules, marketTags));
+    } catch (err: any) {
+      if (err.message === PIPELINE_CANCELLED) {
+        // Categories still come from the previous rules
+        setTaxonomyRules(previous);
+        return;
+      }
+      console.error(err);
+      setError(err.message || 'An unknown error occurred while re-classifying markets.');
+    }
+  };
+
+  const marketTags = useMemo(() => inputs ? inputMarketTags(inputs) : new Map<string, string[]>(), [inputs]);
+
+  // Greedy vs optimal comparison, only computed while the diff view is open
+  useEffect(() => {
+    setMatchDiff(null);
+    if (!showMatchDiff || !inputs) return;
+    let stale = false;
+    pipeline.matchDiff(inputs, matchSettings, costBasisMethod, taxonomyRules)
+      .then(diff => { if (!stale) setMatchDiff(diff); })
+      .catch(err => {
+        if (stale || err.message === PIPELINE_CANCELLED) return;
+        console.error(err);
+        setError(err.message || 'An unknown error occurred while comparing match modes.');
+      });
+    return () => { stale = true; };
+  }, [pipeline, showMatchDiff, inputs, matchSettings, costBasisMethod, taxonomyRules]);
+
+  // Autosave the open workspace (debounced) whenever results, settings or UI state change
+  useEffect(() => {
+    if (!workspace || !inputs) return;
+    const timer = setTimeout(() => {
+      saveWorkspace({
+        ...workspace,
+        updatedAt: new Date().toISOString(),
+        settings: { dialectId: inputs.dialect.id, matchSettings, costBasisMethod, taxonomyRules, timezone, startingBalance },
+        trades,
+        ui: {
+          ...uiState,
+          dateRange: dateRange ? { start: dateRange.start.toISOString(), end: dateRange.end.toISOString() } : null
+        }
+      }).catch(err => console.error('Failed to save workspace', err));
+    }, WORKSPACE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspace, inputs, trades, matchSettings, costBasisMethod, taxonomyRules, timezone, startingBalance, uiState, dateRange]);
+
+  const handleReset = () => {
+    setTrades([]);
+    setInputs(null);
+    setWorkspace(null);
+    setUiState(EMPTY_UI_STATE);
+    setShowMatchDiff(false);
+    setSimulationSettings(null);
+    setTradeSelection(null);
+    setDateRange(null);
+    setStartingBalance(null);
+  };
+
+  // Cancelling before the first analytics arrive leaves nothing to show, so go back to input
+  const handleCancel = () => {
+    pipeline.cancel();
+    setProgress(null);
+    if (!analytics) handleReset();
+  };
+
+  // Narrow the trade log from another panel and bring it into view
+  const selectTrades = (selection: TradeSelection) => {
+    setTradeSelection(selection);
+    document.getElementById('trade-log')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   const handleExport = () => {
     if (trades.length > 0) {
-      exportToCSV(trades);
+      downloadFile(exportToCSV(trades, timezone), 'processed_trades_v3.csv');
     }
   };
 
   // Filter trades based on Slider
-  const filteredTrades = useMemo(() => {
-    if (!dateRange) return trades;
-    return trades.filter(t => {
-        const d = new Date(t.date).getTime();
-        return d >= dateRange.start.getTime() && d <= dateRange.end.getTime();
-    });
-  }, [trades, dateRange]);
+  const filteredTrades = useMemo(() => filterTradesByDate(trades, dateRange), [trades, dateRange]);
+
+  // The worker keeps its own copy of the trades, so range and zone changes only send the range
+  useEffect(() => {
+    if (trades.length === 0) {
+      setAnalytics(null);
+      return;
+    }
+    let stale = false;
+    // Progress is shown for a fresh dataset only; later recalculations keep the dashboard up
+    const onProgress = analytics ? undefined : (p: PipelineProgress) => { if (!stale) setProgress(p); };
+    pipeline.load(trades)
+      .then(() => pipeline.analytics(dateRange, timezone, onProgress))
+      .then(result => {
+        if (stale) return;
+        setAnalytics(result);
+        if (onProgress) setProgress(null);
+      })
+      .catch(err => {
+        if (stale || err.message === PIPELINE_CANCELLED) return;
+        console.error(err);
+        setError(err.message || 'An unknown error occurred while computing analytics.');
+      });
+    return () => { stale = true; };
+  }, [pipeline, trades, dateRange, timezone]);
+
+  const traderNames = useMemo(() => analytics ? analytics.traderStats.map(t => t.name) : [], [analytics]);
+
+  // The other panels are computed in the worker as well; each keeps its last result until the next arrives
+  useEffect(() => {
+    if (!inputs || trades.length === 0) {
+      setRangeReports(null);
+      return;
+    }
+    let stale = false;
+    pipeline.reports(trades, inputs, dateRange, timezone)
+      .then(result => { if (!stale) setRangeReports(result); })
+      .catch(err => {
+        if (stale || err.message === PIPELINE_CANCELLED) return;
+        console.error(err);
+        setError(err.message || 'An unknown error occurred while computing the dashboard panels.');
+      });
+    return () => { stale = true; };
+  }, [pipeline, inputs, trades, dateRange, timezone]);
+
+  // Open risk is a snapshot of current positions and the balance is replayed over the
+  // whole history, so neither follows the date range
+  useEffect(() => {
+    if (!inputs || trades.length === 0) {
+      setHoldings(null);
+      return;
+    }
+    let stale = false;
+    pipeline.holdings(trades, inputs, taxonomyRules, startingBalance, matchSettings.clockOffsets || DEFAULT_CLOCK_OFFSETS, timezone)
+      .then(result => { if (!stale) setHoldings(result); })
+      .catch(err => {
+        if (stale || err.message === PIPELINE_CANCELLED) return;
+        console.error(err);
+        setError(err.message || 'An unknown error occurred while computing open risk and balances.');
+      });
+    return () => { stale = true; };
+  }, [pipeline, inputs, trades, taxonomyRules, startingBalance, matchSettings, timezone]);
 
-  const analytics = useMemo(() => calculateAnalytics(filteredTrades), [filteredTrades]);
+  useEffect(() => {
+    if (!simulationSettings || trades.length === 0) {
+      setSimulation(null);
+      return;
+    }
+    let stale = false;
+    pipeline.simulate(trades, dateRange, simulationSettings, timezone)
+      .then(result => { if (!stale) setSimulation(result); })
+      .catch(err => {
+        if (stale || err.message === PIPELINE_CANCELLED) return;
+        console.error(err);
+        setError(err.message || 'An unknown error occurred while computing the simulation.');
+      });
+    return () => { stale = true; };
+  }, [pipeline, trades, dateRange, simulationSettings, timezone]);
+
+  const timezones = useMemo(() => listTimezones(), []);
+  const failureReasons = useMemo(
+    () => Array.from(new Set(trades.filter(t => t.status === TradeStatus.FAILED && t.failureReason).map(t => t.failureReason!))).sort(),
+    [trades]
+  );
 
   return (
     <div className="min-h-screen p-6 font-sans text-gray-100">
@@ -75,15 +402,27 @@ const App: React.FC = () => {
                Polymarket Bot Success Analyzer
                <PenTool className="w-5 h-5 text-gray-500" />
              </h1>
+             {workspace && (
+                <span className="text-sm text-gray-400 border-l border-gray-700 pl-3" title="Changes are saved automatically">
+                    {workspace.name}
+                </span>
+             )}
           </div>
           
           {trades.length > 0 && (
             <div className="flex gap-3">
+                <label className="flex items-center gap-2 px-3 text-sm text-gray-300 bg-gray-800 rounded-md border border-gray-700" title="Time zone for daily buckets, chart labels and the CSV export">
+                    <Globe className="w-4 h-4 text-gray-500" />
+                    <select
+                        value={timezone}
+                        onChange={(e) => handleTimezoneChange(e.target.value)}
+                        className="bg-transparent outline-none py-2 max-w-[12rem]"
+                    >
+                        {timezones.map(zone => <option key={zone} value={zone} className="bg-gray-800">{zone}</option>)}
+                    </select>
+                </label>
                 <button
-                    onClick={() => {
-                        setTrades([]);
-                        setDateRange(null);
-                    }}
+                    onClick={handleReset}
                     className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-md border border-gray-700 transition-all"
                 >
                     <RefreshCw className="w-4 h-4" /> Reset
@@ -106,47 +445,167 @@ const App: React.FC = () => {
             </div>
         )}
 
+        {/* Pipeline Progress */}
+        {progress && (
+            <ProcessingProgress
+                progress={progress}
+                onCancel={handleCancel}
+            />
+        )}
+
         {/* Input Section */}
         {trades.length === 0 && (
-            <div className="py-8">
-                <DataInput onProcess={handleProcess} />
+            <div className={progress ? 'hidden' : 'py-8'}>
+                <DataInput pipeline={pipeline} onProcess={handleProcess} onOpenWorkspace={handleOpenWorkspace} />
             </div>
         )}
 
         {/* Results Section */}
-        {trades.length > 0 && (
+        {trades.length > 0 && analytics && (
             <div className="space-y-8">
-                {/* 1. High Level Stats */}
+                {/* 1. Open Risk: Exposure & Concentration of Active Positions */}
+                {holdings && <OpenRiskPanel report={holdings.exposure} />}
+
+                {/* 2. Resolution Calendar & Upcoming Cash Flow */}
+                {holdings && <ResolutionCalendarPanel calendar={holdings.resolutionCalendar} />}
+
+                {/* 3. High Level Stats */}
                 <StatsCards trades={filteredTrades} />
 
-                {/* 2. Date Slider */}
+                {/* 4. Date Slider */}
                 <DateRangeSlider 
                     minDate={minDate} 
                     maxDate={maxDate} 
+                    initialRange={dateRange}
                     onChange={(start, end) => setDateRange({ start, end })}
+                    timezone={timezone}
+                />
+
+                {/* 5. Overall Graphs */}
+                <DashboardGraphs
+                    data={analytics.overallTimeSeries}
+                    comparison={simulation?.analytics.overallTimeSeries}
+                    equity={analytics.dailyEquity}
+                    drawdown={analytics.drawdown}
+                    timezone={timezone}
                 />
 
-                {/* 3. Overall Graphs */}
-                <DashboardGraphs data={analytics.overallTimeSeries} />
+                {/* 6. Copy-Trading Simulator */}
+                <SimulatorPanel
+                    result={simulation}
+                    actualStats={analytics.traderStats}
+                    failureReasons={failureReasons}
+                    onRun={setSimulationSettings}
+                    onClear={() => setSimulationSettings(null)}
+                />
+
+                {/* 7. Missed PnL from Failed/Skipped Signals */}
+                {rangeReports && <OpportunityCostPanel report={rangeReports.opportunityCost} />}
+
+                {/* 8. USDC Balance Timeline & Insufficient-Balance Root Cause */}
+                {holdings && (
+                    <BalancePanel
+                        timeline={holdings.balance}
+                        startingBalance={startingBalance}
+                        onStartingBalanceChange={setStartingBalance}
+                        onSelectTrades={selectTrades}
+                        timezone={timezone}
+                    />
+                )}
 
-                {/* 4. Trader Stats Table */}
-                <TraderStatsTable stats={analytics.traderStats} />
+                {/* 9. PnL by Category */}
+                <CategoryBreakdown stats={analytics.categoryBreakdown} />
+
+                {/* 10. Markets: Signals, Fills & Positions per Slug */}
+                {inputs && rangeReports && (
+                    <MarketExplorer
+                        markets={rangeReports.markets}
+                        trades={filteredTrades}
+                        inputs={inputs}
+                        timezone={timezone}
+                        onSelectTrades={selectTrades}
+                    />
+                )}
+
+                {/* 11. Trader Stats Table */}
+                <TraderStatsTable
+                    stats={analytics.traderStats}
+                    initialVisibleColumns={uiState.traderStatsColumns}
+                    onVisibleColumnsChange={(columns) => setUiState(prev => ({ ...prev, traderStatsColumns: columns }))}
+                />
 
-                {/* 5. Trader Comparative Graphs */}
+                {/* 12. Trader Comparative Graphs */}
                 <TraderGraphs 
                     pnlData={analytics.pnlOverTimeByTrader} 
                     winRateData={analytics.winRateOverTimeByTrader} 
                     tradeCountsData={analytics.dailyTradeCounts}
-                    traders={analytics.traderStats.map(t => t.name)}
+                    traders={traderNames}
+                    initialHiddenTraders={uiState.hiddenTraders}
+                    onHiddenTradersChange={(hidden) => setUiState(prev => ({ ...prev, hiddenTraders: hidden }))}
+                    timezone={timezone}
+                />
+
+                {/* 13. Trader Overlap, Agreement, PnL Correlation & Lead/Lag */}
+                {rangeReports && <TraderCorrelationPanel report={rangeReports.traderCorrelation} />}
+
+                {/* 14. Calibration / Edge vs Entry Price */}
+                <CalibrationChart
+                    overall={analytics.calibration}
+                    byTrader={analytics.calibrationByTrader}
+                    traders={traderNames}
+                />
+
+                {/* 15. Execution Quality: Slippage, Fill Ratio, Latency */}
+                {rangeReports && <ExecutionQualityPanel report={rangeReports.executionQuality} />}
+
+                {/* 16. Latency Percentiles, Heatmap & Regressions */}
+                {rangeReports && (
+                    <LatencyPanel
+                        report={rangeReports.latency}
+                        comparison={rangeReports.latencyComparison}
+                        onSelectTrades={selectTrades}
+                    />
+                )}
+
+                {/* 17. Matching & Cost Basis Settings, Greedy/Optimal Comparison */}
+                <MatchSettingsPanel
+                    settings={matchSettings}
+                    costBasisMethod={costBasisMethod}
+                    onApply={handleMatchSettingsChange}
+                    diff={matchDiff}
+                    diffOpen={showMatchDiff}
+                    onToggleDiff={() => setShowMatchDiff(!showMatchDiff)}
+                    timezone={timezone}
+                />
+
+                {/* 18. Market Taxonomy Rules & Tester */}
+                <TaxonomyPanel
+                    rules={taxonomyRules}
+                    trades={trades}
+                    marketTags={marketTags}
+                    onApply={handleTaxonomyChange}
+                />
+
+                {/* 19. Appended Exports */}
+                <ImportPanel
+                    history={workspace ? workspace.imports.map(imp => imp.summary) : []}
+                    onAppend={handleAppend}
                 />
 
-                {/* 6. Detailed Trades Table */}
-                <div className="space-y-4">
+                {/* 20. Detailed Trades Table */}
+                <div id="trade-log" className="space-y-4">
                    <h3 className="text-xl font-bold text-gray-200">Trade Log Details</h3>
                    <div className="flex items-center gap-2 text-sm text-gray-400 mb-2">
                         <span>Showing {filteredTrades.length} of {trades.length} trades</span>
                    </div>
-                   <TradeTable trades={filteredTrades} />
+                   <TradeTable
+                       trades={filteredTrades}
+                       initialVisibleColumns={uiState.tradeTableColumns}
+                       onVisibleColumnsChange={(columns) => setUiState(prev => ({ ...prev, tradeTableColumns: columns }))}
+                       selection={tradeSelection}
+                       onClearSelection={() => setTradeSelection(null)}
+                       timezone={timezone}
+                   />
                 </div>
             </div>
         )}
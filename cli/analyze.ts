@@ -0,0 +1,190 @@
+// Headless entry point: runs the same parse -> match -> analytics pipeline as the
+// dashboard and writes the results to disk, so nightly jobs can gate on the exit code.
+//
+// Usage: npm run analyze -- <portfolio.csv> <chat.csv> [--out dir] [--dialect id] [--match-mode optimal]
+//        [--match-window 3600] [--cost-basis FIFO] [--max-unmatched 0.2] [--allow-parse-errors]
+//        [--timezone UTC] [--chat-offset 0] [--activity-offset 0]
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseInputData, processTrades, exportToCSV } from '../services/parser';
+import { calculateAnalytics } from '../services/analytics';
+import { detectDialect, getDialect, getDialects } from '../services/dialects';
+import { DEFAULT_MATCH_SETTINGS } from '../services/matching';
+import { applyLotLedger, DEFAULT_COST_BASIS_METHOD } from '../services/ledger';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../services/time';
+import { validateInputData } from '../services/validation';
+import { detectSchema, normalizePortfolioFiles } from '../services/schema';
+import { TradeStatus, MatchSettings, CostBasisMethod, NormalizedPortfolio } from '../types';
+
+const EXIT_OK = 0;
+const EXIT_USAGE = 1;
+const EXIT_PARSE_ERRORS = 2;
+const EXIT_UNMATCHED = 3;
+
+const USAGE = `Usage: analyze <portfolio.csv> <chat.csv> [options]
+
+Options:
+  -o, --out <dir>            Output directory (default: ./analysis-output)
+  --dialect <id>             Chat dialect (default: auto-detect). One of:
+                             ${getDialects().map(d => d.id).join(', ')}
+  --match-mode <mode>        greedy (default) or optimal
+  --match-window <seconds>   Max signal-to-execution delay (default: ${DEFAULT_MATCH_SETTINGS.windowSeconds})
+  --cost-basis <method>      FIFO (default), LIFO or AVERAGE
+  --timezone <zone>          IANA zone for daily buckets and exported dates (default: ${DEFAULT_TIMEZONE})
+  --chat-offset <seconds>    Added to chat timestamps before matching (default: 0)
+  --activity-offset <seconds>
+                             Added to activity timestamps before matching (default: 0)
+  --max-unmatched <ratio>    Fail (exit ${EXIT_UNMATCHED}) if the share of successful signals
+                             with no matched execution exceeds this ratio (0-1)
+  --allow-parse-errors       Do not fail (exit ${EXIT_PARSE_ERRORS}) on CSV parse errors
+  -h, --help                 Show this message`;
+
+const main = (): number => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o', default: 'analysis-output' },
+        dialect: { type: 'string' },
+        'match-mode': { type: 'string', default: DEFAULT_MATCH_SETTINGS.mode },
+        'match-window': { type: 'string' },
+        'cost-basis': { type: 'string', default: DEFAULT_COST_BASIS_METHOD },
+        timezone: { type: 'string', default: DEFAULT_TIMEZONE },
+        'chat-offset': { type: 'string', default: '0' },
+        'activity-offset': { type: 'string', default: '0' },
+        'max-unmatched': { type: 'string' },
+        'allow-parse-errors': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err: any) {
+    console.error(err.message);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length !== 2) {
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  let maxUnmatched: number | undefined;
+  if (values['max-unmatched'] !== undefined) {
+    maxUnmatched = parseFloat(values['max-unmatched']);
+    if (isNaN(maxUnmatched) || maxUnmatched < 0 || maxUnmatched > 1) {
+      console.error(`--max-unmatched must be a ratio between 0 and 1, got "${values['max-unmatched']}"`);
+      return EXIT_USAGE;
+    }
+  }
+
+  if (values.dialect !== undefined && !getDialects().some(d => d.id === values.dialect)) {
+    console.error(`Unknown --dialect "${values.dialect}"`);
+    return EXIT_USAGE;
+  }
+
+  const matchMode = values['match-mode'];
+  if (matchMode !== 'greedy' && matchMode !== 'optimal') {
+    console.error(`--match-mode must be "greedy" or "optimal", got "${matchMode}"`);
+    return EXIT_USAGE;
+  }
+  const matchSettings: MatchSettings = { ...DEFAULT_MATCH_SETTINGS, mode: matchMode };
+  if (values['match-window'] !== undefined) {
+    matchSettings.windowSeconds = parseFloat(values['match-window']);
+    if (isNaN(matchSettings.windowSeconds) || matchSettings.windowSeconds <= 0) {
+      console.error(`--match-window must be a positive number of seconds, got "${values['match-window']}"`);
+      return EXIT_USAGE;
+    }
+  }
+
+  const chatSeconds = parseFloat(values['chat-offset']);
+  const activitySeconds = parseFloat(values['activity-offset']);
+  if (isNaN(chatSeconds) || isNaN(activitySeconds)) {
+    console.error(`--chat-offset and --activity-offset must be numbers of seconds`);
+    return EXIT_USAGE;
+  }
+  matchSettings.clockOffsets = { chatSeconds, activitySeconds };
+
+  if (!isValidTimezone(values.timezone)) {
+    console.error(`Unknown --timezone "${values.timezone}"`);
+    return EXIT_USAGE;
+  }
+
+  const costBasis = values['cost-basis'].toUpperCase();
+  if (costBasis !== 'FIFO' && costBasis !== 'LIFO' && costBasis !== 'AVERAGE') {
+    console.error(`--cost-basis must be FIFO, LIFO or AVERAGE, got "${values['cost-basis']}"`);
+    return EXIT_USAGE;
+  }
+
+  const [portfolioPath, chatPath] = positionals;
+  let portfolio: NormalizedPortfolio;
+  let chatCsv: string;
+  try {
+    // Same column detection as the upload screen, without the mapping step
+    const rawPortfolio = readFileSync(portfolioPath, 'utf-8');
+    const name = path.basename(portfolioPath);
+    portfolio = normalizePortfolioFiles([{ name, csv: rawPortfolio, schema: detectSchema(rawPortfolio, name).schema }]);
+    chatCsv = readFileSync(chatPath, 'utf-8');
+  } catch (err: any) {
+    console.error(`Failed to read input: ${err.message}`);
+    return EXIT_USAGE;
+  }
+
+  const portfolioCsv = portfolio.csv;
+  const input = parseInputData(portfolioCsv, chatCsv);
+  const { activePositions, closedPositions, activityHistory, chatLogs } = input;
+  // The normalized CSV parses cleanly; errors in the export itself come from normalizing it
+  const parseErrors = [...portfolio.parseErrors, ...input.parseErrors];
+  const detection = detectDialect(chatLogs)[0];
+  const dialect = getDialect(values.dialect || detection.dialectId);
+  const trades = applyLotLedger(
+    processTrades(chatLogs, activePositions, closedPositions, activityHistory, dialect, matchSettings),
+    costBasis as CostBasisMethod
+  );
+  const analytics = calculateAnalytics(trades, values.timezone);
+  const validation = validateInputData(portfolioCsv, chatCsv, dialect, portfolio);
+
+  const outDir = path.resolve(values.out);
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(path.join(outDir, 'trades.json'), JSON.stringify(trades, null, 2));
+  writeFileSync(path.join(outDir, 'analytics.json'), JSON.stringify(analytics, null, 2));
+  writeFileSync(path.join(outDir, 'processed_trades.csv'), exportToCSV(trades, values.timezone));
+  writeFileSync(path.join(outDir, 'validation.json'), JSON.stringify(validation, null, 2));
+
+  // Signals the bot reported as sent but that never showed up in activity or positions
+  const claimed = trades.filter(t => t.status === TradeStatus.SUCCESS || t.status === TradeStatus.MISSING);
+  const unmatched = claimed.filter(t => t.status === TradeStatus.MISSING);
+  const unmatchedRatio = claimed.length > 0 ? unmatched.length / claimed.length : 0;
+
+  console.log(`Chat messages:     ${chatLogs.length}`);
+  console.log(`Portfolio rows:    ${activePositions.length} open, ${closedPositions.length} closed, ${activityHistory.length} activity`);
+  console.log(`Chat dialect:      ${dialect.name}${values.dialect ? ' (forced)' : ` (detected, ${(detection.confidence * 100).toFixed(0)}%)`}`);
+  console.log(`Signals:           ${trades.length}`);
+  console.log(`Unmatched signals: ${unmatched.length}/${claimed.length} (${(unmatchedRatio * 100).toFixed(1)}%)`);
+  console.log(`Traders:           ${analytics.traderStats.length}`);
+  console.log(`Validation:        ${validation.errorCount} error(s), ${validation.warningCount} warning(s); ${validation.portfolioRows.ignored} portfolio row(s) ignored, ${validation.unparsedTradeLines} trade line(s) dropped`);
+  console.log(`Output written to  ${outDir}`);
+
+  if (parseErrors.length > 0) {
+    parseErrors.forEach(e => {
+      const where = e.row !== undefined ? ` row ${e.row + 1}` : '';
+      console.error(`[${e.source || e.file}${where}] ${e.message}`);
+    });
+    if (!values['allow-parse-errors']) return EXIT_PARSE_ERRORS;
+  }
+
+  if (maxUnmatched !== undefined && unmatchedRatio > maxUnmatched) {
+    console.error(`Unmatched ratio ${unmatchedRatio.toFixed(3)} exceeds --max-unmatched ${maxUnmatched}`);
+    return EXIT_UNMATCHED;
+  }
+
+  return EXIT_OK;
+};
+
+process.exitCode = main();
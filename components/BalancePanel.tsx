@@ -0,0 +1,176 @@
+import React from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Wallet } from 'lucide-react';
+import { BalanceTimeline, TradeSelection } from '../types';
+import { DEFAULT_TIMEZONE, formatDate, formatDateTime } from '../services/time';
+
+interface BalancePanelProps {
+  timeline: BalanceTimeline;
+  startingBalance: number | null; // null = inferred
+  onStartingBalanceChange: (value: number | null) => void;
+  onSelectTrades: (selection: TradeSelection) => void;
+  timezone?: string;
+}
+
+// Long histories are thinned to this many points; the balance is a step line, so little is lost
+const MAX_CHART_POINTS = 2000;
+
+const SOURCE_LABELS: Record<BalanceTimeline['startingBalanceSource'], string> = {
+  input: 'entered',
+  chat: 'inferred from chat',
+  none: 'unknown, assumed $0'
+};
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+const inputClass = "w-28 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500";
+
+export const BalancePanel: React.FC<BalancePanelProps> = ({ timeline, startingBalance, onStartingBalanceChange, onSelectTrades, timezone = DEFAULT_TIMEZONE }) => {
+  if (timeline.points.length === 0 && timeline.failures.length === 0) return null;
+
+  const step = Math.ceil(timeline.points.length / MAX_CHART_POINTS);
+  const chartData = timeline.points.filter((_, i) => i % step === 0 || i === timeline.points.length - 1);
+  const markers = timeline.failures.map(f => ({ time: f.time, balance: f.balance }));
+  const current = timeline.points.length > 0 ? timeline.points[timeline.points.length - 1].balance : timeline.startingBalance;
+  const coveredFailures = timeline.failures.filter(f => f.shortfall === 0).length;
+
+  const metrics = [
+    { label: 'Starting Balance', value: formatMoney(timeline.startingBalance), note: SOURCE_LABELS[timeline.startingBalanceSource] },
+    { label: 'Latest Balance', value: formatMoney(current) },
+    { label: 'Lowest Balance', value: formatMoney(timeline.lowestBalance), className: timeline.lowestBalance < 0 ? 'text-red-400' : undefined },
+    { label: 'Balance Failures', value: String(timeline.failures.length), note: coveredFailures > 0 ? `${coveredFailures} with enough replayed cash` : undefined }
+  ];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-blue-400" />
+            USDC Balance & Insufficient-Balance Failures
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Replayed from activity rows: buys debit, sells and redemptions credit. Red markers are signals that failed for balance.
+            {timeline.skippedRows > 0 && ` ${timeline.skippedRows} activity row(s) had no timestamp, amount or known type.`}
+          </p>
+        </div>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Starting balance ($)</span>
+          <input
+            type="number"
+            min={0}
+            placeholder="Infer"
+            value={startingBalance ?? ''}
+            onChange={(e) => onStartingBalanceChange(e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(m => (
+          <div key={m.label} className="bg-gray-900/50 border border-gray-700 rounded p-3">
+            <div className="text-xs text-gray-500 uppercase tracking-wider">{m.label}</div>
+            <div className={`text-lg font-bold font-mono ${m.className || 'text-white'}`}>{m.value}</div>
+            {m.note && <div className="text-[10px] text-gray-500">{m.note}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="h-72 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+            <XAxis
+              type="number"
+              dataKey="time"
+              domain={['dataMin', 'dataMax']}
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={(val) => formatDate(val, timezone)}
+              axisLine={false}
+              tickLine={false}
+              tickMargin={10}
+            />
+            <YAxis
+              dataKey="balance"
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={(val) => `$${val}`}
+              axisLine={false}
+              tickLine={false}
+            />
+            <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="4 4" />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+              labelFormatter={(val) => formatDateTime(Number(val), timezone)}
+              formatter={(val: number, name: string) => [formatMoney(val), name === 'failure' ? 'Balance at failure' : 'Balance']}
+            />
+            <Line type="stepAfter" dataKey="balance" name="balance" stroke="#60a5fa" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Scatter data={markers} dataKey="balance" name="failure" fill="#f87171" isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {timeline.snapshots.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {timeline.snapshots.length} balance(s) reported in chat; the largest gap to the replay is{' '}
+          {formatMoney(timeline.snapshots.reduce((max, s) => Math.max(max, Math.abs(s.reported - s.reconstructed)), 0))}.
+          Gaps come from deposits, withdrawals or activity missing from the export.
+        </p>
+      )}
+
+      {timeline.failures.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-300">Balance Failures</h4>
+            <button
+              onClick={() => onSelectTrades({ label: 'Insufficient balance failures', tradeIds: timeline.failures.map(f => f.trade.id) })}
+              className="text-xs text-blue-400 hover:text-blue-300"
+            >
+              Show in trade log
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-900/50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">Time</th>
+                  <th className="px-3 py-2">Signal</th>
+                  <th className="px-3 py-2 text-right">Amount</th>
+                  <th className="px-3 py-2 text-right">Balance</th>
+                  <th className="px-3 py-2 text-right">Shortfall</th>
+                  <th className="px-3 py-2 text-right">Tied Up</th>
+                  <th className="px-3 py-2">Largest Positions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {[...timeline.failures].reverse().map(f => (
+                  <tr key={f.trade.id} className="hover:bg-gray-700/30 align-top">
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-400">{formatDateTime(f.time, timezone)}</td>
+                    <td className="px-3 py-2">
+                      <div className="text-white">{f.trade.traderName}</div>
+                      <div className="text-xs text-gray-500 max-w-xs truncate" title={f.trade.marketTitle}>
+                        {f.trade.action} {f.trade.outcome} · {f.trade.marketTitle}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">{formatMoney(f.trade.amount)}</td>
+                    <td className={`px-3 py-2 text-right font-mono ${f.balance < f.trade.amount ? 'text-red-400' : 'text-gray-300'}`}>{formatMoney(f.balance)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{f.shortfall > 0 ? formatMoney(f.shortfall) : '-'}</td>
+                    <td className="px-3 py-2 text-right font-mono">{formatMoney(f.tiedUp)}</td>
+                    <td className="px-3 py-2 text-xs text-gray-400">
+                      {f.positions.length === 0 ? '-' : f.positions.map(p => (
+                        <div key={`${p.market}|${p.outcome}`} className="max-w-xs truncate" title={p.market}>
+                          <span className="font-mono text-gray-300">{formatMoney(p.cost)}</span> {p.outcome} · {p.market}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Crosshair } from 'lucide-react';
+import { CalibrationResult, CalibrationBucket } from '../types';
+
+interface CalibrationChartProps {
+  overall: CalibrationResult;
+  byTrader: Record<string, CalibrationResult>;
+  traders: string[];
+}
+
+const OVERALL = '';
+
+const formatEdge = (cents: number | null) => cents === null ? '-' : `${cents >= 0 ? '+' : ''}${cents.toFixed(1)}¢`;
+
+export const CalibrationChart: React.FC<CalibrationChartProps> = ({ overall, byTrader, traders }) => {
+  const [selected, setSelected] = useState(OVERALL);
+
+  const result = (selected && byTrader[selected]) || overall;
+  if (overall.calibrationTrades === 0) return null;
+
+  const metrics = [
+    { label: 'Settled BUYs', value: result.calibrationTrades.toString() },
+    { label: 'Avg Edge', value: formatEdge(result.avgEdgeCents), className: (result.avgEdgeCents || 0) >= 0 ? 'text-green-400' : 'text-red-400' },
+    { label: 'Brier Score', value: result.brierScore === null ? '-' : result.brierScore.toFixed(3) },
+    { label: 'Log Loss', value: result.logLoss === null ? '-' : result.logLoss.toFixed(3) }
+  ];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <Crosshair className="w-5 h-5 text-blue-400" />
+            Calibration: Realized Win Rate vs Entry Price
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Points above the diagonal won more often than the price implied. Buying favourites alone stays on the line.
+          </p>
+        </div>
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-2 outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          <option value={OVERALL}>All traders</option>
+          {traders.filter(t => byTrader[t]?.calibrationTrades > 0).map(t => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(m => (
+          <div key={m.label} className="bg-gray-900/50 border border-gray-700 rounded p-3">
+            <div className="text-xs text-gray-500 uppercase tracking-wider">{m.label}</div>
+            <div className={`text-lg font-bold font-mono ${m.className || 'text-white'}`}>{m.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={result.buckets}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis
+              type="number"
+              dataKey="impliedProbability"
+              domain={[0, 100]}
+              ticks={[0, 20, 40, 60, 80, 100]}
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={(val) => `${val}¢`}
+              axisLine={false}
+              tickLine={false}
+              tickMargin={10}
+            />
+            <YAxis
+              type="number"
+              dataKey="realizedWinRate"
+              domain={[0, 100]}
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={(val) => `${val}%`}
+              axisLine={false}
+              tickLine={false}
+              tickMargin={10}
+            />
+            <ZAxis type="number" dataKey="count" range={[40, 400]} />
+            <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#6b7280" strokeDasharray="4 4" />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+              content={({ active, payload }: any) => {
+                if (!active || !payload || payload.length === 0) return null;
+                const b: CalibrationBucket = payload[0].payload;
+                return (
+                  <div className="bg-gray-900 border border-gray-700 rounded p-3 text-xs text-gray-300 space-y-1">
+                    <div className="text-gray-400">Entry {b.lower.toFixed(0)}–{b.upper.toFixed(0)}¢ · {b.count} trade(s)</div>
+                    <div>Implied: {b.impliedProbability.toFixed(1)}%</div>
+                    <div>Realized: {b.realizedWinRate.toFixed(1)}%</div>
+                    <div className={b.edgeCents >= 0 ? 'text-green-400' : 'text-red-400'}>Edge: {formatEdge(b.edgeCents)}</div>
+                  </div>
+                );
+              }}
+            />
+            <Line type="linear" dataKey="realizedWinRate" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Scatter dataKey="realizedWinRate" fill="#818cf8" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
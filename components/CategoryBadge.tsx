@@ -0,0 +1,25 @@
+import React from 'react';
+import { topLevelCategory, CATEGORY_SEPARATOR } from '../services/taxonomy';
+
+const TOP_LEVEL_CLASSES: Record<string, string> = {
+  Sports: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
+  Politics: 'bg-sky-500/10 text-sky-400 border-sky-500/20',
+  Crypto: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  Economics: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  Weather: 'bg-cyan-500/10 text-cyan-400 border-cyan-500/20',
+  Entertainment: 'bg-pink-500/10 text-pink-400 border-pink-500/20'
+};
+const DEFAULT_CLASSES = 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20';
+
+// Colored by top-level category; shows the most specific level with the full path on hover
+export const CategoryBadge: React.FC<{ category: string }> = ({ category }) => {
+  const parts = category.split(CATEGORY_SEPARATOR);
+  return (
+    <span
+      title={category}
+      className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${TOP_LEVEL_CLASSES[topLevelCategory(category)] || DEFAULT_CLASSES}`}
+    >
+      {parts.length > 1 && parts[parts.length - 1] === 'Other' ? parts[0] : parts[parts.length - 1]}
+    </span>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Layers } from 'lucide-react';
+import { CategoryStats } from '../types';
+import { CATEGORY_SEPARATOR } from '../services/taxonomy';
+
+interface CategoryBreakdownProps {
+  stats: CategoryStats[];
+}
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+const pnlClass = (val: number) => val > 0 ? 'text-green-400' : val < 0 ? 'text-red-400' : 'text-gray-400';
+
+export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ stats }) => {
+  if (stats.length === 0) return null;
+
+  // The chart compares top-level categories; the table lists every level
+  const topLevel = stats.filter(s => s.depth === 0);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+        <Layers className="w-5 h-5 text-blue-400" />
+        PnL by Category
+      </h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={topLevel} layout="vertical" margin={{ left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
+              <XAxis
+                type="number"
+                stroke="#9ca3af"
+                fontSize={12}
+                tickFormatter={(val) => `$${val}`}
+                axisLine={false}
+                tickLine={false}
+              />
+              <YAxis
+                type="category"
+                dataKey="category"
+                stroke="#9ca3af"
+                fontSize={12}
+                width={110}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                cursor={{ fill: '#374151', opacity: 0.4 }}
+                contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                formatter={(val: number) => [formatMoney(val), 'PnL']}
+              />
+              <Bar dataKey="totalPnl" maxBarSize={28}>
+                {topLevel.map(s => (
+                  <Cell key={s.category} fill={s.totalPnl >= 0 ? '#34d399' : '#f87171'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+              <tr>
+                <th className="px-3 py-2">Category</th>
+                <th className="px-3 py-2 text-right">Trades</th>
+                <th className="px-3 py-2 text-right">Volume</th>
+                <th className="px-3 py-2 text-right">Win %</th>
+                <th className="px-3 py-2 text-right">PnL</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {stats.map(s => (
+                <tr key={s.category} className="hover:bg-gray-700/30">
+                  <td className={`px-3 py-2 ${s.depth === 0 ? 'text-white font-medium' : 'text-gray-400'}`} style={{ paddingLeft: `${0.75 + s.depth * 1.25}rem` }}>
+                    {s.category.split(CATEGORY_SEPARATOR).pop()}
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono">{s.tradeCount}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatMoney(s.volume)}</td>
+                  <td className="px-3 py-2 text-right font-mono">{s.winRate.toFixed(1)}%</td>
+                  <td className={`px-3 py-2 text-right font-mono ${pnlClass(s.totalPnl)}`}>{formatMoney(s.totalPnl)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Columns, ChevronDown, ChevronRight, Save, Trash2, AlertTriangle } from 'lucide-react';
+import { SchemaDetection, PortfolioSchema, PortfolioFileKind, PortfolioRow, TimestampFormat, MappingProfile } from '../types';
+import { PORTFOLIO_FIELDS } from '../services/schema';
+
+interface ColumnMappingPanelProps {
+  detections: SchemaDetection[]; // One per portfolio file, in upload order
+  profiles: MappingProfile[];
+  onSchemaChange: (index: number, schema: PortfolioSchema) => void;
+  onApplyProfile: (index: number, profileId: string) => void;
+  onSaveProfile: (index: number, name: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+const KIND_LABELS: Record<PortfolioFileKind, string> = {
+  consolidated: 'Consolidated (Category column)',
+  open: 'Open positions',
+  closed: 'Closed positions',
+  activity: 'Activity history'
+};
+
+const TIMESTAMP_LABELS: Record<TimestampFormat, string> = {
+  seconds: 'Unix seconds',
+  milliseconds: 'Unix milliseconds',
+  iso: 'ISO / date string'
+};
+
+const selectClass = 'bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-2 py-1 outline-none focus:ring-1 focus:ring-blue-500';
+
+interface FileMappingProps {
+  detection: SchemaDetection;
+  profiles: MappingProfile[];
+  onSchemaChange: (schema: PortfolioSchema) => void;
+  onApplyProfile: (profileId: string) => void;
+  onSaveProfile: (name: string) => void;
+}
+
+const FileMapping: React.FC<FileMappingProps> = ({ detection, profiles, onSchemaChange, onApplyProfile, onSaveProfile }) => {
+  const { schema, headers, sampleRows } = detection;
+  const profile = profiles.find(p => p.id === detection.profileId);
+  // Recognised layouts start collapsed; anything the detector was unsure about starts open
+  const [isOpen, setIsOpen] = useState(!profile && detection.mappedShare < 1);
+  const [profileName, setProfileName] = useState(profile?.name || detection.fileName.replace(/\.[^.]+$/, ''));
+
+  const mappedFields = new Set(Object.values(schema.mapping).filter(Boolean));
+  const mappedCount = headers.filter(h => schema.mapping[h]).length;
+  const problems: string[] = [];
+  if (schema.kind === 'consolidated' && !mappedFields.has('Category')) problems.push('Map a column to Category, or pick the section this file holds.');
+  if (!mappedFields.has('slug') && !mappedFields.has('asset')) problems.push('No column maps to slug or asset; rows cannot be linked to markets.');
+  if ((schema.kind === 'activity' || schema.kind === 'consolidated') && !mappedFields.has('timestamp')) problems.push('No column maps to timestamp; executions cannot be matched to signals.');
+
+  const setField = (header: string, field: string) => {
+    const mapping = { ...schema.mapping };
+    // A field comes from one column; moving it clears the old one
+    if (field) Object.keys(mapping).forEach(h => { if (mapping[h] === field) mapping[h] = null; });
+    mapping[header] = (field || null) as keyof PortfolioRow | null;
+    onSchemaChange({ ...schema, mapping });
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-3">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-left min-w-0">
+          {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 shrink-0" />}
+          <span className="text-sm text-white truncate" title={detection.fileName}>{detection.fileName}</span>
+          <span className="text-xs text-gray-500 whitespace-nowrap">{mappedCount}/{headers.length} columns mapped</span>
+          {profile && <span className="text-xs px-2 py-0.5 rounded bg-blue-900/40 text-blue-300 whitespace-nowrap">profile: {profile.name}</span>}
+          {problems.length > 0 && <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0" />}
+        </button>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={schema.kind} onChange={(e) => onSchemaChange({ ...schema, kind: e.target.value as PortfolioFileKind })} className={selectClass}>
+            {(Object.keys(KIND_LABELS) as PortfolioFileKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+          </select>
+          <select value={schema.timestampFormat} onChange={(e) => onSchemaChange({ ...schema, timestampFormat: e.target.value as TimestampFormat })} className={selectClass} title="Format of the timestamp column">
+            {(Object.keys(TIMESTAMP_LABELS) as TimestampFormat[]).map(format => <option key={format} value={format}>{TIMESTAMP_LABELS[format]}</option>)}
+          </select>
+          {profiles.length > 0 && (
+            <select value="" onChange={(e) => e.target.value && onApplyProfile(e.target.value)} className={selectClass}>
+              <option value="">Apply profile…</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="px-3 pb-3 space-y-1">
+          {problems.map(problem => <li key={problem} className="text-xs text-yellow-500">{problem}</li>)}
+        </ul>
+      )}
+
+      {isOpen && (
+        <div className="border-t border-gray-700 p-3 space-y-3">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                <tr>
+                  <th className="px-3 py-2">Column</th>
+                  <th className="px-3 py-2">Sample values</th>
+                  <th className="px-3 py-2">Maps to</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {headers.map(header => (
+                  <tr key={header}>
+                    <td className="px-3 py-1.5 font-mono text-gray-200">{header}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs text-gray-500 truncate max-w-xs">
+                      {sampleRows.map(r => r[header]).filter(Boolean).slice(0, 3).join(' · ')}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <select value={schema.mapping[header] || ''} onChange={(e) => setField(header, e.target.value)} className={selectClass}>
+                        <option value="">— ignore —</option>
+                        {PORTFOLIO_FIELDS.map(field => <option key={field} value={field}>{field}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name"
+              className="flex-1 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={() => onSaveProfile(profileName.trim())}
+              disabled={!profileName.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 rounded disabled:opacity-50"
+              title="Re-applied automatically to files with the same columns"
+            >
+              <Save className="w-4 h-4" /> Save as profile
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ detections, profiles, onSchemaChange, onApplyProfile, onSaveProfile, onDeleteProfile }) => {
+  if (detections.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <Columns className="w-4 h-4 text-blue-400" />
+          Portfolio Column Mapping
+        </h3>
+        {profiles.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <span>Saved profiles:</span>
+            {profiles.map(p => (
+              <span key={p.id} className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-900 border border-gray-700">
+                {p.name}
+                <button onClick={() => onDeleteProfile(p.id)} className="text-gray-500 hover:text-red-400" title="Delete profile">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {detections.map((detection, index) => (
+        <FileMapping
+          key={`${index}-${detection.fileName}`}
+          detection={detection}
+          profiles={profiles}
+          onSchemaChange={(schema) => onSchemaChange(index, schema)}
+          onApplyProfile={(profileId) => onApplyProfile(index, profileId)}
+          onSaveProfile={(name) => onSaveProfile(index, name)}
+        />
+      ))}
+    </div>
+  );
+};
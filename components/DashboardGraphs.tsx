@@ -1,14 +1,42 @@
 import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { TimeSeriesPoint } from '../types';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TimeSeriesPoint, DrawdownStats } from '../types';
+import { DEFAULT_TIMEZONE, formatDate } from '../services/time';
 
 interface DashboardGraphsProps {
   data: TimeSeriesPoint[];
+  comparison?: TimeSeriesPoint[] | null; // Simulated run drawn over the actual series
+  equity: TimeSeriesPoint[]; // Daily equity with drawdown
+  drawdown: DrawdownStats;
+  timezone?: string;
 }
 
-export const DashboardGraphs: React.FC<DashboardGraphsProps> = ({ data }) => {
+// Puts both series on one timeline, carrying each one's last value forward
+const mergeSeries = (actual: TimeSeriesPoint[], simulated: TimeSeriesPoint[], timezone: string) => {
+  const timestamps = Array.from(new Set([...actual, ...simulated].map(p => p.timestamp))).sort((a, b) => a - b);
+  const last: Record<string, number | undefined> = {};
+  let ai = 0;
+  let si = 0;
+  return timestamps.map(ts => {
+    while (ai < actual.length && actual[ai].timestamp <= ts) {
+      last.value = actual[ai].value;
+      last.winRate = actual[ai].winRate;
+      ai++;
+    }
+    while (si < simulated.length && simulated[si].timestamp <= ts) {
+      last.simValue = simulated[si].value;
+      last.simWinRate = simulated[si].winRate;
+      si++;
+    }
+    return { date: formatDate(ts, timezone), timestamp: ts, ...last };
+  });
+};
+
+export const DashboardGraphs: React.FC<DashboardGraphsProps> = ({ data, comparison, equity, drawdown, timezone = DEFAULT_TIMEZONE }) => {
   if (data.length === 0) return null;
 
+  const chartData = comparison ? mergeSeries(data, comparison, timezone) : data;
+
   const cardClass = "bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm";
 
   return (
@@ -18,7 +46,7 @@ export const DashboardGraphs: React.FC<DashboardGraphsProps> = ({ data }) => {
         <h3 className="text-lg font-bold text-gray-200 mb-4">Overall PnL Over Time</h3>
         <div className="h-72 w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={data}>
+            <ComposedChart data={chartData}>
               <defs>
                 <linearGradient id="colorPnl" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#818cf8" stopOpacity={0.3}/>
@@ -45,18 +73,32 @@ export const DashboardGraphs: React.FC<DashboardGraphsProps> = ({ data }) => {
               />
               <Tooltip 
                 contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
-                itemStyle={{ color: '#818cf8' }}
-                formatter={(val: number) => [`$${val.toFixed(2)}`, 'Cumulative PnL']}
+                itemStyle={comparison ? undefined : { color: '#818cf8' }}
+                formatter={(val: number, name: string) => [`$${val.toFixed(2)}`, name]}
               />
+              {comparison && <Legend />}
               <Area 
                 type="monotone" 
                 dataKey="value" 
+                name="Cumulative PnL"
                 stroke="#818cf8" 
                 strokeWidth={2}
                 fillOpacity={1} 
                 fill="url(#colorPnl)" 
               />
-            </AreaChart>
+              {comparison && (
+                <Line
+                  type="monotone"
+                  dataKey="simValue"
+                  name="Simulated PnL"
+                  stroke="#fbbf24"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                  connectNulls
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </div>
@@ -66,7 +108,7 @@ export const DashboardGraphs: React.FC<DashboardGraphsProps> = ({ data }) => {
         <h3 className="text-lg font-bold text-gray-200 mb-4">Overall Win Rate Over Time</h3>
         <div className="h-72 w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={data}>
+            <ComposedChart data={chartData}>
                <defs>
                 <linearGradient id="colorWin" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#34d399" stopOpacity={0.3}/>
@@ -94,21 +136,131 @@ export const DashboardGraphs: React.FC<DashboardGraphsProps> = ({ data }) => {
               />
               <Tooltip 
                 contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
-                itemStyle={{ color: '#34d399' }}
-                formatter={(val: number) => [`${val.toFixed(1)}%`, 'Win Rate']}
+                itemStyle={comparison ? undefined : { color: '#34d399' }}
+                formatter={(val: number, name: string) => [`${val.toFixed(1)}%`, name]}
               />
+              {comparison && <Legend />}
               <Area 
                 type="monotone" 
                 dataKey="winRate" 
+                name="Win Rate"
                 stroke="#34d399" 
                 strokeWidth={2}
                 fillOpacity={1} 
                 fill="url(#colorWin)" 
               />
-            </AreaChart>
+              {comparison && (
+                <Line
+                  type="monotone"
+                  dataKey="simWinRate"
+                  name="Simulated Win Rate"
+                  stroke="#fbbf24"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                  connectNulls
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* Daily Equity & Underwater Chart */}
+      {equity.length > 0 && (
+        <div className={`${cardClass} lg:col-span-2`}>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-bold text-gray-200">Daily Equity & Drawdown</h3>
+            <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+              <span>Max DD <span className="font-mono text-red-400">-${drawdown.maxDrawdown.toFixed(2)}</span></span>
+              <span>Longest DD <span className="font-mono text-gray-200">{drawdown.maxDrawdownDays}d</span></span>
+              <span>Recovery <span className="font-mono text-gray-200">{drawdown.recoveryDays === null ? (drawdown.maxDrawdown > 0 ? 'not yet' : '-') : `${drawdown.recoveryDays}d`}</span></span>
+              <span>Calmar <span className="font-mono text-gray-200">{drawdown.calmarRatio.toFixed(2)}</span></span>
+              <span>Sortino <span className="font-mono text-gray-200">{drawdown.sortinoRatio.toFixed(2)}</span></span>
+            </div>
+          </div>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={equity} syncId="equity">
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                <XAxis 
+                  dataKey="date" 
+                  stroke="#9ca3af" 
+                  fontSize={12} 
+                  tickMargin={15} 
+                  minTickGap={40} 
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis 
+                  stroke="#9ca3af" 
+                  fontSize={12} 
+                  tickFormatter={(val) => `$${val}`} 
+                  axisLine={false}
+                  tickLine={false}
+                  tickMargin={10}
+                />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                  itemStyle={{ color: '#818cf8' }}
+                  formatter={(val: number) => [`$${val.toFixed(2)}`, 'Equity']}
+                />
+                <Line 
+                  type="stepAfter" 
+                  dataKey="value" 
+                  stroke="#818cf8" 
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-40 w-full mt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={equity} syncId="equity">
+                <defs>
+                  <linearGradient id="colorDrawdown" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#f87171" stopOpacity={0}/>
+                    <stop offset="95%" stopColor="#f87171" stopOpacity={0.4}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                <XAxis 
+                  dataKey="date" 
+                  stroke="#9ca3af" 
+                  fontSize={12} 
+                  tickMargin={15} 
+                  minTickGap={40} 
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis 
+                  stroke="#9ca3af" 
+                  fontSize={12} 
+                  tickFormatter={(val) => `$${val}`} 
+                  domain={['dataMin', 0]}
+                  axisLine={false}
+                  tickLine={false}
+                  tickMargin={10}
+                />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                  itemStyle={{ color: '#f87171' }}
+                  formatter={(val: number) => [`$${val.toFixed(2)}`, 'Drawdown']}
+                />
+                <Area 
+                  type="stepAfter" 
+                  dataKey="drawdown" 
+                  stroke="#f87171" 
+                  strokeWidth={1.5}
+                  fillOpacity={1} 
+                  fill="url(#colorDrawdown)" 
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,19 +1,38 @@
-import React, { useState, useCallback } from 'react';
-import { UploadCloud, CheckCircle, X, AlertCircle } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { UploadCloud, CheckCircle, X, AlertCircle, MessageSquare } from 'lucide-react';
+import { PipelineClient } from '../services/pipelineClient';
+import { detectSchema, applyMappingProfile, mappedShare, createMappingProfile, headerSignature } from '../services/schema';
+import { listMappingProfiles, saveMappingProfile, deleteMappingProfile } from '../services/workspaces';
+import { DialectDetection, ValidationReport, SchemaDetection, MappingProfile, PortfolioSchema } from '../types';
+import { WorkspaceList } from './WorkspaceList';
+import { ValidationReportPanel } from './ValidationReportPanel';
+import { ColumnMappingPanel } from './ColumnMappingPanel';
 
 interface DataInputProps {
-  onProcess: (portfolio: string, chat: string) => void;
+  pipeline: PipelineClient; // Sniffing, normalizing and validating run in its worker
+  onProcess: (portfolio: string, chat: string, dialectId: string | null, workspaceName: string) => void;
+  onOpenWorkspace: (id: string) => void;
 }
 
+export const readFile = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => resolve(e.target?.result as string);
+        reader.onerror = (e) => reject(e);
+        reader.readAsText(file);
+    });
+};
+
 interface DropZoneProps {
   label: string;
   description: string;
   file: File | null;
   onFileSelect: (file: File) => void;
   onClear: () => void;
+  multiple?: boolean; // onFileSelect is called once per file
 }
 
-const DropZone: React.FC<DropZoneProps> = ({ label, description, file, onFileSelect, onClear }) => {
+export const DropZone: React.FC<DropZoneProps> = ({ label, description, file, onFileSelect, onClear, multiple }) => {
   const [isDragOver, setIsDragOver] = useState(false);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -30,15 +49,16 @@ const DropZone: React.FC<DropZoneProps> = ({ label, description, file, onFileSel
     e.preventDefault();
     setIsDragOver(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onFileSelect(e.dataTransfer.files[0]);
+      Array.from(e.dataTransfer.files).slice(0, multiple ? undefined : 1).forEach(onFileSelect);
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, multiple]);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
+      Array.from(e.target.files).slice(0, multiple ? undefined : 1).forEach(onFileSelect);
+      e.target.value = ''; // Allow picking the same file again after removing it
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, multiple]);
 
   if (file) {
     return (
@@ -86,36 +106,138 @@ const DropZone: React.FC<DropZoneProps> = ({ label, description, file, onFileSel
         type="file" 
         className="hidden" 
         accept=".csv,.txt"
+        multiple={multiple}
         onChange={handleFileChange} 
       />
     </label>
   );
 };
 
-export const DataInput: React.FC<DataInputProps> = ({ onProcess }) => {
-  const [portfolioFile, setPortfolioFile] = useState<File | null>(null);
+export const DataInput: React.FC<DataInputProps> = ({ pipeline, onProcess, onOpenWorkspace }) => {
+  const [portfolioFiles, setPortfolioFiles] = useState<File[]>([]);
+  const [portfolioContents, setPortfolioContents] = useState<string[]>([]);
+  const [schemaDetections, setSchemaDetections] = useState<SchemaDetection[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  const [profilesLoaded, setProfilesLoaded] = useState(false);
   const [chatFile, setChatFile] = useState<File | null>(null);
   const [isReading, setIsReading] = useState(false);
+  const [dialectDetections, setDialectDetections] = useState<DialectDetection[]>([]);
+  const [dialectOverride, setDialectOverride] = useState<string | null>(null);
+  const [workspaceName, setWorkspaceName] = useState('');
+  // Exports read and validated, held back until the report is acknowledged
+  const [pending, setPending] = useState<{ report: ValidationReport; portfolio: string; chat: string } | null>(null);
+
+  useEffect(() => { setPending(null); }, [portfolioFiles, chatFile, dialectOverride, schemaDetections]);
+
+  useEffect(() => {
+    listMappingProfiles()
+        .then(setMappingProfiles)
+        .catch(error => console.error("Error loading mapping profiles", error))
+        .finally(() => setProfilesLoaded(true));
+  }, []);
+
+  // Read every portfolio file and propose a column mapping (saved profiles first).
+  // Waits for the profiles to load so a file picked right away still gets its saved mapping;
+  // later profile edits don't re-run it and wipe mappings changed by hand.
+  useEffect(() => {
+    setPortfolioContents([]);
+    setSchemaDetections([]);
+    if (portfolioFiles.length === 0 || !profilesLoaded) return;
+
+    let cancelled = false;
+    Promise.all(portfolioFiles.map(readFile))
+        .then(contents => {
+            if (cancelled) return;
+            setPortfolioContents(contents);
+            setSchemaDetections(contents.map((csv, i) => detectSchema(csv, portfolioFiles[i].name, mappingProfiles)));
+        })
+        .catch(error => console.error("Error detecting portfolio schema", error));
+    return () => { cancelled = true; };
+  }, [portfolioFiles, profilesLoaded]);
+
+  // Default the workspace name to the chat export's file name
+  useEffect(() => {
+    if (chatFile && !workspaceName) setWorkspaceName(chatFile.name.replace(/\.[^.]+$/, ''));
+  }, [chatFile]);
+
+  // Sniff the chat dialect as soon as the chat export is selected
+  useEffect(() => {
+    setDialectDetections([]);
+    setDialectOverride(null);
+    if (!chatFile) return;
+
+    let cancelled = false;
+    readFile(chatFile)
+        .then(content => pipeline.sniff(content))
+        .then(detections => {
+            if (!cancelled) setDialectDetections(detections);
+        })
+        .catch(error => console.error("Error detecting chat dialect", error));
+    return () => { cancelled = true; };
+  }, [chatFile, pipeline]);
+
+  const isReady = portfolioFiles.length > 0 && schemaDetections.length === portfolioFiles.length && chatFile;
+  const bestDetection = dialectDetections[0];
+
+  const submit = (portfolio: string, chat: string) => {
+    onProcess(portfolio, chat, dialectOverride, workspaceName.trim() || `Analysis ${new Date().toLocaleDateString()}`);
+  };
+
+  const updateSchema = (index: number, schema: PortfolioSchema, profileId?: string) => {
+    setSchemaDetections(prev => prev.map((d, i) => i === index
+        ? { ...d, schema, mappedShare: mappedShare(d.headers, schema), profileId }
+        : d));
+  };
+
+  const handleApplyProfile = (index: number, profileId: string) => {
+    const profile = mappingProfiles.find(p => p.id === profileId);
+    if (profile) updateSchema(index, applyMappingProfile(schemaDetections[index].headers, profile), profile.id);
+  };
+
+  // One profile per header layout: saving over a known layout updates it
+  const handleSaveProfile = async (index: number, name: string) => {
+    const { headers, schema } = schemaDetections[index];
+    const existing = mappingProfiles.find(p => p.headerSignature === headerSignature(headers));
+    const profile = existing
+        ? { ...existing, ...schema, name, updatedAt: new Date().toISOString() }
+        : createMappingProfile(name, headers, schema);
+    try {
+        await saveMappingProfile(profile);
+        setMappingProfiles(await listMappingProfiles());
+        updateSchema(index, schema, profile.id);
+    } catch (error) {
+        console.error("Error saving mapping profile", error);
+        alert("Failed to save the mapping profile.");
+    }
+  };
+
+  const handleDeleteProfile = async (profileId: string) => {
+    try {
+        await deleteMappingProfile(profileId);
+        setMappingProfiles(prev => prev.filter(p => p.id !== profileId));
+        setSchemaDetections(prev => prev.map(d => d.profileId === profileId ? { ...d, profileId: undefined } : d));
+    } catch (error) {
+        console.error("Error deleting mapping profile", error);
+    }
+  };
 
   const handleProcessClick = async () => {
-    if (!portfolioFile || !chatFile) return;
+    if (!isReady || !chatFile) return;
 
     setIsReading(true);
-    const readFile = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = (e) => resolve(e.target?.result as string);
-            reader.onerror = (e) => reject(e);
-            reader.readAsText(file);
-        });
-    };
 
     try {
-        const [portfolioContent, chatContent] = await Promise.all([
-            readFile(portfolioFile),
-            readFile(chatFile)
-        ]);
-        onProcess(portfolioContent, chatContent);
+        const chatContent = await readFile(chatFile);
+        const { portfolioCsv: portfolioContent, report } = await pipeline.prepare(
+            schemaDetections.map((d, i) => ({ name: d.fileName, csv: portfolioContents[i], schema: d.schema })),
+            chatContent,
+            dialectOverride || bestDetection?.dialectId || null
+        );
+        if (report.issues.length > 0) {
+            setPending({ report, portfolio: portfolioContent, chat: chatContent });
+        } else {
+            submit(portfolioContent, chatContent);
+        }
     } catch (error) {
         console.error("Error reading files", error);
         alert("Failed to read one or more files.");
@@ -124,18 +246,31 @@ export const DataInput: React.FC<DataInputProps> = ({ onProcess }) => {
     }
   };
 
-  const isReady = portfolioFile && chatFile;
-
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
+      <WorkspaceList onOpen={onOpenWorkspace} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <DropZone 
-            label="Portfolio Export" 
-            description="CSV with Categories (1_OPEN, 3_ACTIVITY...)"
-            file={portfolioFile} 
-            onFileSelect={setPortfolioFile} 
-            onClear={() => setPortfolioFile(null)} 
-        />
+        <div className="space-y-3">
+            {portfolioFiles.map((file, index) => (
+                <DropZone
+                    key={`${index}-${file.name}`}
+                    label="Portfolio Export"
+                    description=""
+                    file={file}
+                    onFileSelect={() => {}}
+                    onClear={() => setPortfolioFiles(prev => prev.filter((_, i) => i !== index))}
+                />
+            ))}
+            <DropZone 
+                label={portfolioFiles.length > 0 ? 'Add Portfolio File' : 'Portfolio Export'}
+                description="Consolidated CSV with Categories (1_OPEN, 3_ACTIVITY...), or open / closed / activity as separate files"
+                file={null} 
+                onFileSelect={(file) => setPortfolioFiles(prev => [...prev, file])} 
+                onClear={() => {}} 
+                multiple
+            />
+        </div>
         <DropZone 
             label="Chat Logs" 
             description="Exported chat logs CSV"
@@ -145,21 +280,74 @@ export const DataInput: React.FC<DataInputProps> = ({ onProcess }) => {
         />
       </div>
 
-      <div className="flex justify-center pt-4">
-        <button
-          onClick={handleProcessClick}
-          disabled={!isReady || isReading}
-          className={`
-            flex items-center gap-2 px-8 py-3 rounded-lg font-semibold shadow-lg transition-all
-            ${isReady 
-                ? 'bg-blue-600 hover:bg-blue-500 text-white shadow-blue-900/20' 
-                : 'bg-gray-800 text-gray-500 cursor-not-allowed border border-gray-700'
-            }
-          `}
-        >
-          {isReading ? 'Reading Files...' : 'Process Files'}
-        </button>
-      </div>
+      <ColumnMappingPanel
+          detections={schemaDetections}
+          profiles={mappingProfiles}
+          onSchemaChange={(index, schema) => updateSchema(index, schema)}
+          onApplyProfile={handleApplyProfile}
+          onSaveProfile={handleSaveProfile}
+          onDeleteProfile={handleDeleteProfile}
+      />
+
+      {bestDetection && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+                <MessageSquare className="w-4 h-4 text-blue-400" />
+                <span>Chat dialect</span>
+                <span className={`text-xs ${bestDetection.confidence >= 0.5 ? 'text-gray-500' : 'text-yellow-500'}`}>
+                    detected {bestDetection.name} ({(bestDetection.confidence * 100).toFixed(0)}% of signal messages recognised)
+                </span>
+            </div>
+            <select
+                value={dialectOverride || ''}
+                onChange={(e) => setDialectOverride(e.target.value || null)}
+                className="bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+                <option value="">Auto ({bestDetection.name})</option>
+                {dialectDetections.map(d => (
+                    <option key={d.dialectId} value={d.dialectId}>
+                        {d.name} — {(d.confidence * 100).toFixed(0)}%
+                    </option>
+                ))}
+            </select>
+        </div>
+      )}
+
+      {isReady && (
+        <label className="flex items-center gap-3 text-sm text-gray-300">
+            <span className="whitespace-nowrap">Workspace name</span>
+            <input
+                type="text"
+                value={workspaceName}
+                onChange={(e) => setWorkspaceName(e.target.value)}
+                className="flex-1 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+        </label>
+      )}
+
+      {pending ? (
+        <ValidationReportPanel
+            report={pending.report}
+            onProceed={() => submit(pending.portfolio, pending.chat)}
+            onCancel={() => setPending(null)}
+        />
+      ) : (
+        <div className="flex justify-center pt-4">
+          <button
+            onClick={handleProcessClick}
+            disabled={!isReady || isReading}
+            className={`
+              flex items-center gap-2 px-8 py-3 rounded-lg font-semibold shadow-lg transition-all
+              ${isReady 
+                  ? 'bg-blue-600 hover:bg-blue-500 text-white shadow-blue-900/20' 
+                  : 'bg-gray-800 text-gray-500 cursor-not-allowed border border-gray-700'
+              }
+            `}
+          >
+            {isReading ? 'Reading Files...' : 'Process Files'}
+          </button>
+        </div>
+      )}
 
       {!isReady && (
         <div className="flex items-center justify-center gap-2 text-xs text-gray-500">
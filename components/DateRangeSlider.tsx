@@ -1,23 +1,29 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Calendar } from 'lucide-react';
+import { DEFAULT_TIMEZONE, formatDate } from '../services/time';
 
 interface DateRangeSliderProps {
   minDate: Date;
   maxDate: Date;
+  initialRange?: { start: Date, end: Date } | null; // Restored selection, clamped to the bounds
   onChange: (start: Date, end: Date) => void;
+  timezone?: string;
 }
 
-export const DateRangeSlider: React.FC<DateRangeSliderProps> = ({ minDate, maxDate, onChange }) => {
-  const [minVal, setMinVal] = useState(minDate.getTime());
-  const [maxVal, setMaxVal] = useState(maxDate.getTime());
+export const DateRangeSlider: React.FC<DateRangeSliderProps> = ({ minDate, maxDate, initialRange, onChange, timezone = DEFAULT_TIMEZONE }) => {
+  const clampStart = () => Math.max(minDate.getTime(), initialRange?.start.getTime() ?? minDate.getTime());
+  const clampEnd = () => Math.min(maxDate.getTime(), initialRange?.end.getTime() ?? maxDate.getTime());
+
+  const [minVal, setMinVal] = useState(clampStart);
+  const [maxVal, setMaxVal] = useState(clampEnd);
   const minRef = useRef<HTMLInputElement>(null);
   const maxRef = useRef<HTMLInputElement>(null);
   const trackRef = useRef<HTMLDivElement>(null);
 
   // When props change (new data loaded), reset state
   useEffect(() => {
-    setMinVal(minDate.getTime());
-    setMaxVal(maxDate.getTime());
+    setMinVal(clampStart());
+    setMaxVal(clampEnd());
   }, [minDate, maxDate]);
 
   const min = minDate.getTime();
@@ -52,11 +58,11 @@ export const DateRangeSlider: React.FC<DateRangeSliderProps> = ({ minDate, maxDa
             </div>
             <div className="flex gap-4 font-mono text-xs">
                 <span className="bg-gray-900 px-2 py-1 rounded border border-gray-700">
-                    {new Date(minVal).toLocaleDateString()}
+                    {formatDate(minVal, timezone)}
                 </span>
                 <span className="text-gray-500">-</span>
                 <span className="bg-gray-900 px-2 py-1 rounded border border-gray-700">
-                    {new Date(maxVal).toLocaleDateString()}
+                    {formatDate(maxVal, timezone)}
                 </span>
             </div>
         </div>
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Gauge } from 'lucide-react';
+import { ExecutionQualityReport, ExecutionGroup, ExecutionSample } from '../types';
+
+interface ExecutionQualityPanelProps {
+  report: ExecutionQualityReport;
+}
+
+type GroupBy = 'byTrader' | 'byCategory' | 'byHour';
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  byTrader: 'Trader',
+  byCategory: 'Category',
+  byHour: 'Hour of Day'
+};
+
+const formatCents = (val: number | null) => val === null ? '-' : `${val >= 0 ? '+' : ''}${val.toFixed(2)}¢`;
+const formatRatio = (val: number | null) => val === null ? '-' : `${(val * 100).toFixed(0)}%`;
+const slippageClass = (val: number | null) => val === null ? 'text-gray-500' : val > 0 ? 'text-red-400' : 'text-green-400';
+
+export const ExecutionQualityPanel: React.FC<ExecutionQualityPanelProps> = ({ report }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('byTrader');
+
+  if (report.overall.executed === 0) return null;
+
+  const groups: ExecutionGroup[] = report[groupBy];
+  const points = report.samples.filter(s => s.slippageCents !== undefined && s.latencySeconds !== undefined);
+  const { overall } = report;
+
+  // Least-squares trend over the plotted latency range
+  const latencies = points.map(p => p.latencySeconds!);
+  const minLatency = latencies.reduce((a, b) => Math.min(a, b), Infinity);
+  const maxLatency = latencies.reduce((a, b) => Math.max(a, b), -Infinity);
+  const meanLatency = latencies.reduce((a, b) => a + b, 0) / (latencies.length || 1);
+  const meanSlippage = points.reduce((a, p) => a + p.slippageCents!, 0) / (points.length || 1);
+  const trendAt = (x: number) => meanSlippage + (report.slippageCentsPerSecond || 0) * (x - meanLatency);
+
+  const metrics = [
+    { label: 'Avg Slippage', value: formatCents(overall.avgSlippageCents), className: slippageClass(overall.avgSlippageCents) },
+    { label: 'Avg Slippage (bps)', value: overall.avgSlippageBps === null ? '-' : overall.avgSlippageBps.toFixed(0), className: slippageClass(overall.avgSlippageBps) },
+    { label: 'Median Latency', value: overall.medianLatencySeconds === null ? '-' : `${overall.medianLatencySeconds.toFixed(1)}s` },
+    { label: 'Fill vs Signal $', value: formatRatio(overall.avgFillRatio) },
+    { label: 'Fill vs Attempted $', value: formatRatio(overall.attemptedFillRatio) },
+    { label: 'Latency ↔ Slippage', value: report.latencySlippageCorrelation === null ? '-' : `r = ${report.latencySlippageCorrelation.toFixed(2)}` }
+  ];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-blue-400" />
+            Execution Quality
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {overall.executed} activity-matched fill(s) · {overall.priced} with a price quoted in the signal
+            {report.slippageCentsPerSecond !== null && ` · ${formatCents(report.slippageCentsPerSecond)} per second of latency`}
+          </p>
+        </div>
+        <div className="flex rounded border border-gray-600 overflow-hidden">
+          {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setGroupBy(key)}
+              className={`px-3 py-1.5 text-xs transition-colors ${
+                groupBy === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {metrics.map(m => (
+          <div key={m.label} className="bg-gray-900/50 border border-gray-700 rounded p-3">
+            <div className="text-xs text-gray-500 uppercase tracking-wider">{m.label}</div>
+            <div className={`text-lg font-bold font-mono ${m.className || 'text-white'}`}>{m.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-72 w-full">
+          {points.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis
+                  type="number"
+                  dataKey="latencySeconds"
+                  name="Latency"
+                  stroke="#9ca3af"
+                  fontSize={12}
+                  tickFormatter={(val) => `${val}s`}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="slippageCents"
+                  name="Slippage"
+                  stroke="#9ca3af"
+                  fontSize={12}
+                  tickFormatter={(val) => `${val}¢`}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <ReferenceLine y={0} stroke="#6b7280" />
+                {report.slippageCentsPerSecond !== null && (
+                  <ReferenceLine
+                    segment={[{ x: minLatency, y: trendAt(minLatency) }, { x: maxLatency, y: trendAt(maxLatency) }]}
+                    stroke="#fbbf24"
+                    strokeDasharray="4 4"
+                  />
+                )}
+                <Tooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={({ active, payload }: any) => {
+                    if (!active || !payload || payload.length === 0) return null;
+                    const s: ExecutionSample = payload[0].payload;
+                    return (
+                      <div className="bg-gray-900 border border-gray-700 rounded p-3 text-xs text-gray-300 space-y-1 max-w-xs">
+                        <div className="text-white truncate">{s.marketTitle}</div>
+                        <div className="text-gray-400">{s.traderName}</div>
+                        <div>Signal {(s.signalPrice! * 100).toFixed(1)}¢ → fill {(s.fillPrice * 100).toFixed(1)}¢</div>
+                        <div className={slippageClass(s.slippageCents!)}>Slippage {formatCents(s.slippageCents!)} ({s.slippageBps!.toFixed(0)} bps)</div>
+                        <div>Latency {s.latencySeconds!.toFixed(1)}s</div>
+                      </div>
+                    );
+                  }}
+                />
+                <Scatter data={points} fill="#818cf8" fillOpacity={0.6} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500 border border-dashed border-gray-700 rounded">
+              No signal in range quotes a price, so slippage can't be measured.
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+              <tr>
+                <th className="px-3 py-2">{GROUP_LABELS[groupBy]}</th>
+                <th className="px-3 py-2 text-right">Fills</th>
+                <th className="px-3 py-2 text-right">Slippage</th>
+                <th className="px-3 py-2 text-right">bps</th>
+                <th className="px-3 py-2 text-right">Med. Latency</th>
+                <th className="px-3 py-2 text-right">Fill / Signal</th>
+                <th className="px-3 py-2 text-right">Fill / Attempted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {groups.map(g => (
+                <tr key={g.key} className="hover:bg-gray-700/30">
+                  <td className="px-3 py-2 text-white">{groupBy === 'byHour' ? `${g.key}:00` : g.key}</td>
+                  <td className="px-3 py-2 text-right font-mono">{g.executed}/{g.signals}</td>
+                  <td className={`px-3 py-2 text-right font-mono ${slippageClass(g.avgSlippageCents)}`}>{formatCents(g.avgSlippageCents)}</td>
+                  <td className="px-3 py-2 text-right font-mono">{g.avgSlippageBps === null ? '-' : g.avgSlippageBps.toFixed(0)}</td>
+                  <td className="px-3 py-2 text-right font-mono">{g.medianLatencySeconds === null ? '-' : `${g.medianLatencySeconds.toFixed(1)}s`}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatRatio(g.avgFillRatio)}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatRatio(g.attemptedFillRatio)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FilePlus2, ChevronDown, ChevronRight } from 'lucide-react';
+import { ImportSummary } from '../types';
+import { DropZone, readFile } from './DataInput';
+import { detectSchema } from '../services/schema';
+import { PortfolioFile } from '../services/pipeline';
+import { listMappingProfiles } from '../services/workspaces';
+
+interface ImportPanelProps {
+  history: ImportSummary[]; // Initial upload first
+  onAppend: (files: PortfolioFile[], chat: string) => void; // Normalized with the rest of the append, off the main thread
+}
+
+const formatImportDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({ history, onAppend }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [portfolioFile, setPortfolioFile] = useState<File | null>(null);
+  const [chatFile, setChatFile] = useState<File | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const latest = history[history.length - 1];
+  const isReady = portfolioFile && chatFile;
+
+  const handleAppendClick = async () => {
+    if (!portfolioFile || !chatFile) return;
+    setIsReading(true);
+    try {
+      const [portfolioCsv, chatContent] = await Promise.all([readFile(portfolioFile), readFile(chatFile)]);
+      // No mapping step here: saved profiles or the detected mapping are applied as-is
+      const profiles = await listMappingProfiles().catch(() => []);
+      const schema = detectSchema(portfolioCsv, portfolioFile.name, profiles).schema;
+      onAppend([{ name: portfolioFile.name, csv: portfolioCsv, schema }], chatContent);
+      setPortfolioFile(null);
+      setChatFile(null);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to read one or more files.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <FilePlus2 className="w-4 h-4 text-blue-400" />
+          <span className="font-semibold text-white">Append New Exports</span>
+          {latest && (
+            <span className="text-xs text-gray-500">
+              {history.length} import{history.length === 1 ? '' : 's'} · last {formatImportDate(latest.importedAt)}: +{latest.newSignals} signals, +{latest.newExecutions} executions, {latest.positionUpdates} position updates
+            </span>
+          )}
+        </div>
+        {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-700 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <DropZone
+              label="New Portfolio Export"
+              description="Positions replace older snapshots; activity is de-duplicated by tx hash"
+              file={portfolioFile}
+              onFileSelect={setPortfolioFile}
+              onClear={() => setPortfolioFile(null)}
+            />
+            <DropZone
+              label="New Chat Logs"
+              description="Messages already loaded are skipped"
+              file={chatFile}
+              onFileSelect={setChatFile}
+              onClear={() => setChatFile(null)}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleAppendClick}
+              disabled={!isReady || isReading}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                isReady ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-900 text-gray-500 cursor-not-allowed border border-gray-700'
+              }`}
+            >
+              {isReading ? 'Reading Files...' : 'Append & Re-match'}
+            </button>
+          </div>
+
+          {history.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left text-gray-300">
+                <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                  <tr>
+                    <th className="px-3 py-2">Imported</th>
+                    <th className="px-3 py-2 text-right">New Signals</th>
+                    <th className="px-3 py-2 text-right">Dup. Messages</th>
+                    <th className="px-3 py-2 text-right">New Executions</th>
+                    <th className="px-3 py-2 text-right">Dup. Executions</th>
+                    <th className="px-3 py-2 text-right">Position Updates</th>
+                    <th className="px-3 py-2 text-right">Markets Re-matched</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {history.map((s, idx) => (
+                    <tr key={idx}>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {formatImportDate(s.importedAt)}
+                        {idx === 0 && <span className="ml-2 text-xs text-gray-500">initial</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{s.newSignals}</td>
+                      <td className="px-3 py-2 text-right font-mono text-gray-500">{s.duplicateMessages}</td>
+                      <td className="px-3 py-2 text-right font-mono">{s.newExecutions}</td>
+                      <td className="px-3 py-2 text-right font-mono text-gray-500">{s.duplicateExecutions}</td>
+                      <td className="px-3 py-2 text-right font-mono">{s.positionUpdates}</td>
+                      <td className="px-3 py-2 text-right font-mono">{s.affectedMarkets}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
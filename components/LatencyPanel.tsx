@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
+import { Timer, AlertTriangle, TrendingUp } from 'lucide-react';
+import { LatencyReport, LatencyComparison, LatencyPercentiles, TradeSelection } from '../types';
+
+interface LatencyPanelProps {
+  report: LatencyReport;
+  comparison: LatencyComparison | null;
+  onSelectTrades: (selection: TradeSelection) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const formatSeconds = (val: number | null) => val === null ? '-' : val >= 100 ? `${val.toFixed(0)}s` : `${val.toFixed(1)}s`;
+
+const PercentileCells: React.FC<{ stats: LatencyPercentiles }> = ({ stats }) => (
+  <>
+    <td className="px-3 py-2 text-right font-mono">{stats.count}</td>
+    <td className="px-3 py-2 text-right font-mono">{formatSeconds(stats.p50)}</td>
+    <td className="px-3 py-2 text-right font-mono">{formatSeconds(stats.p90)}</td>
+    <td className="px-3 py-2 text-right font-mono">{formatSeconds(stats.p99)}</td>
+  </>
+);
+
+export const LatencyPanel: React.FC<LatencyPanelProps> = ({ report, comparison, onSelectTrades }) => {
+  const [view, setView] = useState<'trader' | 'day'>('trader');
+
+  if (report.overall.count === 0 && report.negativeTradeIds.length === 0) return null;
+
+  const { overall } = report;
+  const maxCellP50 = Math.max(1, ...report.heatmap.map(c => c.p50));
+  const cellAt = (weekday: number, hour: number) => report.heatmap.find(c => c.weekday === weekday && c.hour === hour);
+  const regressions = comparison ? comparison.regressions.filter(r => r.isRegression) : [];
+
+  const cardClass = "bg-gray-900/50 border border-gray-700 rounded p-4";
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+          <Timer className="w-5 h-5 text-blue-400" />
+          Signal-to-Fill Latency
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {[
+            { label: 'p50', value: overall.p50 },
+            { label: 'p90', value: overall.p90 },
+            { label: 'p99', value: overall.p99 },
+            { label: 'max', value: overall.max }
+          ].map(m => (
+            <span key={m.label} className="px-3 py-1 rounded bg-gray-900/50 border border-gray-700 font-mono text-white">
+              <span className="text-gray-500 mr-2">{m.label}</span>{formatSeconds(m.value)}
+            </span>
+          ))}
+          {report.outlierTradeIds.length > 0 && (
+            <button
+              onClick={() => onSelectTrades({ label: `Latency above p99 (${formatSeconds(overall.p99)})`, tradeIds: report.outlierTradeIds })}
+              className="px-3 py-1 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 hover:bg-yellow-500/20 transition-colors"
+            >
+              {report.outlierTradeIds.length} outlier(s)
+            </button>
+          )}
+          {report.negativeTradeIds.length > 0 && (
+            <button
+              onClick={() => onSelectTrades({ label: 'Negative latency (activity before signal)', tradeIds: report.negativeTradeIds })}
+              title="The matched activity is timestamped before the signal: clock skew or a wrong match"
+              className="flex items-center gap-1 px-3 py-1 rounded border border-red-500/30 bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {report.negativeTradeIds.length} negative
+            </button>
+          )}
+        </div>
+      </div>
+
+      {regressions.length > 0 && comparison && (
+        <div className="bg-red-900/20 border border-red-800/50 rounded p-3 text-sm text-red-200 space-y-1">
+          <div className="flex items-center gap-2 font-semibold">
+            <TrendingUp className="w-4 h-4" />
+            Latency regression: {comparison.currentLabel} vs {comparison.baselineLabel}
+          </div>
+          {regressions.map(r => (
+            <div key={r.key} className="text-xs font-mono">
+              {r.key}: p90 {formatSeconds(r.baseline.p90)} → {formatSeconds(r.current.p90)} (+{formatSeconds(r.p90Change)})
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Histogram */}
+        <div className={cardClass}>
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-semibold mb-3">Distribution (click a bar to list its trades)</div>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={report.histogram.map(b => ({ ...b, count: b.tradeIds.length }))}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                <XAxis dataKey="label" stroke="#9ca3af" fontSize={11} axisLine={false} tickLine={false} />
+                <YAxis stroke="#9ca3af" fontSize={12} axisLine={false} tickLine={false} allowDecimals={false} />
+                <Tooltip
+                  cursor={{ fill: '#374151', opacity: 0.4 }}
+                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                />
+                <Bar
+                  dataKey="count"
+                  name="Fills"
+                  maxBarSize={40}
+                  cursor="pointer"
+                  onClick={(entry: any) => {
+                    const bin = entry.payload || entry;
+                    if (bin.tradeIds.length > 0) onSelectTrades({ label: `Latency ${bin.label}`, tradeIds: bin.tradeIds });
+                  }}
+                >
+                  {report.histogram.map(b => (
+                    <Cell key={b.label} fill={b.lower >= 60 ? '#fbbf24' : '#60a5fa'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Time-of-Day Heatmap */}
+        <div className={cardClass}>
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-semibold mb-3">Median Latency by Weekday & Hour</div>
+          <div className="overflow-x-auto">
+            <table className="text-[10px] text-gray-500 border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th></th>
+                  {HOURS.map(h => <th key={h} className="font-normal w-5">{h % 3 === 0 ? h : ''}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {WEEKDAYS.map((day, weekday) => (
+                  <tr key={day}>
+                    <td className="pr-2">{day}</td>
+                    {HOURS.map(hour => {
+                      const cell = cellAt(weekday, hour);
+                      return (
+                        <td
+                          key={hour}
+                          title={cell ? `${day} ${hour}:00 · ${cell.count} fill(s) · p50 ${formatSeconds(cell.p50)}` : undefined}
+                          onClick={() => cell && onSelectTrades({ label: `Fills on ${day} ${hour}:00`, tradeIds: cell.tradeIds })}
+                          className={`w-5 h-5 rounded-sm ${cell ? 'cursor-pointer' : ''}`}
+                          style={{ backgroundColor: cell ? `rgba(248, 113, 113, ${0.15 + 0.85 * cell.p50 / maxCellP50})` : '#1f2937' }}
+                        />
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Per-Day Percentiles */}
+        <div className={cardClass}>
+          <div className="text-xs text-gray-400 uppercase tracking-wider font-semibold mb-3">Daily Percentiles</div>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={report.byDay}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                <XAxis dataKey="key" stroke="#9ca3af" fontSize={11} axisLine={false} tickLine={false} minTickGap={30} />
+                <YAxis stroke="#9ca3af" fontSize={12} tickFormatter={(val) => `${val}s`} axisLine={false} tickLine={false} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                  formatter={(val: number, name: string) => [formatSeconds(val), name]}
+                />
+                <Legend />
+                <Line type="monotone" dataKey="p50" stroke="#34d399" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="p90" stroke="#fbbf24" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="p99" stroke="#f87171" strokeWidth={1} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Per-Trader / Per-Day Table */}
+        <div className={cardClass}>
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Percentiles by {view === 'trader' ? 'Trader' : 'Day'}</span>
+            <div className="flex rounded border border-gray-600 overflow-hidden">
+              {(['trader', 'day'] as const).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`px-3 py-1 text-xs capitalize transition-colors ${
+                    view === v ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {v}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto max-h-56 overflow-y-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                <tr>
+                  <th className="px-3 py-2">{view === 'trader' ? 'Trader' : 'Day'}</th>
+                  <th className="px-3 py-2 text-right">Fills</th>
+                  <th className="px-3 py-2 text-right">p50</th>
+                  <th className="px-3 py-2 text-right">p90</th>
+                  <th className="px-3 py-2 text-right">p99</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {(view === 'trader' ? report.byTrader : report.byDay).map(g => {
+                  const regressed = view === 'trader' && regressions.some(r => r.key === g.key);
+                  return (
+                    <tr key={g.key} className="hover:bg-gray-700/30">
+                      <td className={`px-3 py-2 ${regressed ? 'text-red-400' : 'text-white'}`}>
+                        {g.key}
+                        {regressed && <TrendingUp className="w-3 h-3 inline ml-1" />}
+                      </td>
+                      <PercentileCells stats={g} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
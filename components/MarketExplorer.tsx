@@ -0,0 +1,295 @@
+import React, { useState, useMemo } from 'react';
+import { Store, ArrowUp, ArrowDown, Search, ExternalLink, FileText, Users, X, List } from 'lucide-react';
+import { MarketSummary, MarketDetail, ProcessedTrade, ParsedInputs, TradeSelection, TradeStatus } from '../types';
+import { buildMarketDetail, PILE_IN_WINDOW_SECONDS } from '../services/markets';
+import { formatDateTime } from '../services/time';
+
+interface MarketExplorerProps {
+  markets: MarketSummary[];
+  trades: ProcessedTrade[];
+  inputs: ParsedInputs;
+  timezone: string;
+  onSelectTrades: (selection: TradeSelection) => void;
+}
+
+type SortKey = 'title' | 'signalCount' | 'traderCount' | 'fillCount' | 'failedCount' | 'exposure' | 'realizedPnl' | 'unrealizedPnl' | 'maxPileIn' | 'lastSignal';
+
+const COLUMNS: { key: SortKey; label: string; align?: 'right' }[] = [
+  { key: 'title', label: 'Market' },
+  { key: 'signalCount', label: 'Signals', align: 'right' },
+  { key: 'traderCount', label: 'Traders', align: 'right' },
+  { key: 'maxPileIn', label: 'Pile-in', align: 'right' },
+  { key: 'fillCount', label: 'Fills', align: 'right' },
+  { key: 'failedCount', label: 'Failed', align: 'right' },
+  { key: 'exposure', label: 'Exposure', align: 'right' },
+  { key: 'realizedPnl', label: 'Realized', align: 'right' },
+  { key: 'unrealizedPnl', label: 'Unrealized', align: 'right' },
+  { key: 'lastSignal', label: 'Last Signal', align: 'right' }
+];
+
+const PAGE_SIZE = 50;
+const MAX_TIMELINE_EVENTS = 500;
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+const pnlClass = (val: number) => val > 0 ? 'text-green-400' : val < 0 ? 'text-red-400' : 'text-gray-400';
+
+const settlementLabel = (market: MarketSummary) => {
+  if (market.status !== 'Settled') return market.status;
+  const winner = market.settlements.find(s => s.result === 'WIN');
+  if (winner) return `${winner.outcome} won`;
+  // Only losing outcomes were held; the winner is whichever was not
+  return market.settlements.length > 0 ? `${market.settlements.map(s => s.outcome).join(', ')} lost` : 'Settled';
+};
+
+const DetailView: React.FC<{ detail: MarketDetail; timezone: string; onSelectTrades: (selection: TradeSelection) => void; onClose: () => void }> = ({ detail, timezone, onSelectTrades, onClose }) => {
+  const { summary, events, openPositions, closedPositions, byTrader } = detail;
+  const shownEvents = events.slice(0, MAX_TIMELINE_EVENTS);
+  const tradeIds = events.filter(e => e.trade).map(e => e.trade!.id);
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-4 space-y-4 bg-gray-900/40">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="text-base font-semibold text-white truncate" title={summary.title}>{summary.title}</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            {summary.category} · {summary.signalCount} signals from {summary.traderCount} trader(s) · {summary.fillCount} fills · {settlementLabel(summary)}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => onSelectTrades({ label: `Market: ${summary.title}`, tradeIds })}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+          >
+            <List className="w-3 h-3" /> Show in trade log
+          </button>
+          {summary.url && (
+            <a href={summary.url} target="_blank" rel="noopener noreferrer" className="p-1.5 text-blue-500 hover:text-blue-400">
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Per-trader outcome */}
+        <div className="overflow-x-auto">
+          <div className="text-xs font-semibold text-gray-400 uppercase mb-2">Traders (in order of entry)</div>
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-2 py-1">Trader</th>
+                <th className="px-2 py-1">First Signal</th>
+                <th className="px-2 py-1 text-right">Signals</th>
+                <th className="px-2 py-1 text-right">Filled</th>
+                <th className="px-2 py-1 text-right">Realized</th>
+                <th className="px-2 py-1 text-right">Unrealized</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {byTrader.map(t => (
+                <tr key={t.trader}>
+                  <td className="px-2 py-1 text-white">{t.trader}</td>
+                  <td className="px-2 py-1 text-gray-400 whitespace-nowrap">{formatDateTime(new Date(t.firstSignal).getTime(), timezone)}</td>
+                  <td className="px-2 py-1 text-right tabular-nums">{t.signals}</td>
+                  <td className="px-2 py-1 text-right tabular-nums">{t.filled}</td>
+                  <td className={`px-2 py-1 text-right tabular-nums ${pnlClass(t.realizedPnl)}`}>{formatMoney(t.realizedPnl)}</td>
+                  <td className={`px-2 py-1 text-right tabular-nums ${pnlClass(t.unrealizedPnl)}`}>{formatMoney(t.unrealizedPnl)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Position state */}
+        <div>
+          <div className="text-xs font-semibold text-gray-400 uppercase mb-2">Positions</div>
+          {openPositions.length === 0 && closedPositions.length === 0 && (
+            <p className="text-sm text-gray-500">No position rows for this market in the portfolio export.</p>
+          )}
+          <ul className="space-y-1 text-sm">
+            {openPositions.map((p, i) => (
+              <li key={`open-${i}`} className="flex justify-between gap-3">
+                <span className="text-gray-300">Open · {p.outcome || '?'} · {(p.size || 0).toFixed(2)} sh @ {((p.avgPrice || 0) * 100).toFixed(1)}¢</span>
+                <span className="tabular-nums text-gray-400">
+                  {formatMoney(p.currentValue || 0)} <span className={pnlClass(p.cashPnl || 0)}>({formatMoney(p.cashPnl || 0)})</span>
+                </span>
+              </li>
+            ))}
+            {closedPositions.map((p, i) => (
+              <li key={`closed-${i}`} className="flex justify-between gap-3">
+                <span className="text-gray-300">Closed · {p.outcome || '?'} · avg {((p.avgPrice || 0) * 100).toFixed(1)}¢</span>
+                <span className={`tabular-nums ${pnlClass(p.realizedPnl || 0)}`}>{formatMoney(p.realizedPnl || 0)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div>
+        <div className="text-xs font-semibold text-gray-400 uppercase mb-2">
+          Timeline{events.length > shownEvents.length && ` (first ${shownEvents.length} of ${events.length})`}
+        </div>
+        <ol className="border-l border-gray-700 ml-2 space-y-1 max-h-96 overflow-y-auto">
+          {shownEvents.map((e, i) => (
+            <li key={i} className="relative pl-4 py-1 text-sm">
+              <span className={`absolute -left-1.5 top-2.5 w-3 h-3 rounded-full ${e.kind === 'signal' ? 'bg-blue-500' : e.matchedTradeId ? 'bg-green-500' : 'bg-gray-500'}`} />
+              <span className="text-xs text-gray-500 tabular-nums mr-3">{formatDateTime(e.time, timezone)}</span>
+              {e.trade && (
+                <>
+                  <span className="text-white font-medium">{e.trade.traderName}</span>
+                  <span className="text-gray-300"> signals {e.trade.action} {e.trade.outcome} ${e.trade.amount.toFixed(2)}</span>
+                  <span className={`ml-2 text-xs ${e.trade.status === TradeStatus.SUCCESS ? 'text-green-400' : 'text-red-400'}`}>
+                    {e.trade.status}{e.trade.failureReason && ` · ${e.trade.failureReason}`}
+                  </span>
+                  {(e.pileIn || 0) > 1 && (
+                    <span
+                      className="ml-2 inline-flex items-center gap-1 text-xs px-1.5 rounded bg-yellow-500/10 text-yellow-400"
+                      title={`Distinct traders on the same side and outcome within ${PILE_IN_WINDOW_SECONDS / 60} minutes`}
+                    >
+                      <Users className="w-3 h-3" /> {e.pileIn}
+                    </span>
+                  )}
+                </>
+              )}
+              {e.fill && (
+                <>
+                  <span className="text-gray-300">Fill {e.fill.side} {e.fill.outcome} {formatMoney(e.fill.usdcSize || 0)}</span>
+                  {e.fill.price !== undefined && <span className="text-gray-400"> @ {(e.fill.price * 100).toFixed(1)}¢</span>}
+                  <span className="ml-2 text-xs text-gray-500">{e.matchedTradeId ? 'matched to a signal' : 'no signal'}</span>
+                  {e.fill.transactionHash && (
+                    <a href={`https://polygonscan.com/tx/${e.fill.transactionHash}`} target="_blank" rel="noopener noreferrer" className="ml-2 inline-block align-middle text-gray-500 hover:text-blue-400">
+                      <FileText className="w-3 h-3" />
+                    </a>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export const MarketExplorer: React.FC<MarketExplorerProps> = ({ markets, trades, inputs, timezone, onSelectTrades }) => {
+  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'signalCount', direction: 'desc' });
+  const [search, setSearch] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const sorted = useMemo(() => {
+    const lower = search.toLowerCase();
+    const result = markets.filter(m => !lower || m.title.toLowerCase().includes(lower) || m.slug.toLowerCase().includes(lower));
+    return result.sort((a, b) => {
+      const aVal = a[sortConfig.key];
+      const bVal = b[sortConfig.key];
+      if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
+      if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
+      return 0;
+    });
+  }, [markets, search, sortConfig]);
+
+  const detail = useMemo(
+    () => selectedKey ? buildMarketDetail(selectedKey, trades, inputs) : null,
+    [selectedKey, trades, inputs]
+  );
+
+  if (markets.length === 0) return null;
+
+  const handleSort = (key: SortKey) => {
+    const direction = sortConfig.key === key && sortConfig.direction === 'desc' ? 'asc' : 'desc';
+    setSortConfig({ key, direction });
+  };
+
+  const pileIns = markets.filter(m => m.maxPileIn > 1).length;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <Store className="w-5 h-5 text-blue-400" />
+            Markets
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {markets.length} markets with signals · {pileIns} with several traders piling in within {PILE_IN_WINDOW_SECONDS / 60} minutes
+          </p>
+        </div>
+        <div className="relative w-full md:w-72">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <input
+            type="text"
+            placeholder="Search markets..."
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setLimit(PAGE_SIZE); }}
+            className="w-full bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded pl-10 pr-4 py-2 focus:ring-1 focus:ring-blue-500 outline-none placeholder:text-gray-600"
+          />
+        </div>
+      </div>
+
+      {detail && <DetailView detail={detail} timezone={timezone} onSelectTrades={onSelectTrades} onClose={() => setSelectedKey(null)} />}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-gray-400 uppercase bg-gray-900/50 border-b border-gray-700">
+            <tr>
+              {COLUMNS.map(col => (
+                <th
+                  key={col.key}
+                  onClick={() => handleSort(col.key)}
+                  className={`px-3 py-2 font-semibold cursor-pointer hover:text-white select-none ${col.align === 'right' ? 'text-right' : ''}`}
+                >
+                  <span className={`inline-flex items-center gap-1 ${col.align === 'right' ? 'flex-row-reverse' : ''}`}>
+                    {col.label}
+                    {sortConfig.key === col.key && (
+                      sortConfig.direction === 'asc' ? <ArrowUp className="w-3 h-3 text-blue-400" /> : <ArrowDown className="w-3 h-3 text-blue-400" />
+                    )}
+                  </span>
+                </th>
+              ))}
+              <th className="px-3 py-2 font-semibold">Settlement</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {sorted.slice(0, limit).map(m => (
+              <tr
+                key={m.key}
+                onClick={() => setSelectedKey(selectedKey === m.key ? null : m.key)}
+                className={`cursor-pointer transition-colors ${selectedKey === m.key ? 'bg-blue-900/20' : 'hover:bg-gray-700/30'}`}
+              >
+                <td className="px-3 py-2 max-w-xs">
+                  <div className="truncate text-white" title={m.title}>{m.title}</div>
+                  <div className="text-[10px] text-gray-500 truncate">{m.category}</div>
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums">{m.signalCount}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{m.traderCount}</td>
+                <td className={`px-3 py-2 text-right tabular-nums ${m.maxPileIn > 1 ? 'text-yellow-400' : 'text-gray-500'}`}>{m.maxPileIn}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{m.fillCount}</td>
+                <td className={`px-3 py-2 text-right tabular-nums ${m.failedCount > 0 ? 'text-red-400' : 'text-gray-500'}`}>{m.failedCount}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{m.exposure > 0 ? formatMoney(m.exposure) : '-'}</td>
+                <td className={`px-3 py-2 text-right tabular-nums ${pnlClass(m.realizedPnl)}`}>{formatMoney(m.realizedPnl)}</td>
+                <td className={`px-3 py-2 text-right tabular-nums ${pnlClass(m.unrealizedPnl)}`}>{formatMoney(m.unrealizedPnl)}</td>
+                <td className="px-3 py-2 text-right text-gray-400 whitespace-nowrap">{formatDateTime(new Date(m.lastSignal).getTime(), timezone)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <span className={`text-xs ${m.status === 'Open' ? 'text-blue-400' : m.status === 'Settled' ? 'text-gray-300' : 'text-gray-500'}`}>
+                    {settlementLabel(m)}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sorted.length > limit && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="text-sm text-blue-400 hover:text-blue-300">
+          Show more ({sorted.length - limit} remaining)
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { MatchAudit } from '../types';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+interface MatchAuditPanelProps {
+  audit: MatchAudit;
+}
+
+const ScoreCell: React.FC<{ value: number }> = ({ value }) => (
+  <td className="px-3 py-1.5 text-right tabular-nums">
+    <span className={value >= 0.75 ? 'text-green-400' : value >= 0.4 ? 'text-gray-300' : 'text-red-400'}>
+      {value.toFixed(2)}
+    </span>
+  </td>
+);
+
+export const MatchAuditPanel: React.FC<MatchAuditPanelProps> = ({ audit }) => {
+  return (
+    <div className="px-6 py-4 bg-gray-900/60 space-y-3">
+      <div className="text-xs text-gray-300">
+        <span className="font-semibold text-gray-400 uppercase tracking-wider mr-2">Match decision</span>
+        {audit.reason}
+      </div>
+
+      {audit.candidates.length > 0 && (
+        <table className="w-full text-xs text-gray-400">
+          <thead className="uppercase text-gray-500 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-1.5 text-left">#</th>
+              <th className="px-3 py-1.5 text-left">Tx</th>
+              <th className="px-3 py-1.5 text-right">Δt</th>
+              <th className="px-3 py-1.5 text-left">Activity Slug</th>
+              <th className="px-3 py-1.5 text-left">Outcome</th>
+              <th className="px-3 py-1.5 text-right">USDC</th>
+              <th className="px-3 py-1.5 text-right">Time</th>
+              <th className="px-3 py-1.5 text-right">Slug</th>
+              <th className="px-3 py-1.5 text-right">Outcome</th>
+              <th className="px-3 py-1.5 text-right">Size</th>
+              <th className="px-3 py-1.5 text-right">Total</th>
+              <th className="px-3 py-1.5 text-left">Verdict</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {audit.candidates.map((c, idx) => {
+              const isWinner = c.activityIndex === audit.winnerActivityIndex;
+              return (
+                <tr key={c.activityIndex} className={isWinner ? 'bg-green-500/5' : ''}>
+                  <td className="px-3 py-1.5">{idx + 1}</td>
+                  <td className="px-3 py-1.5 font-mono" title={c.txHash}>{c.txHash ? `${c.txHash.slice(0, 10)}…` : '-'}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{c.timeDeltaSeconds >= 0 ? '+' : ''}{c.timeDeltaSeconds.toFixed(0)}s</td>
+                  <td className="px-3 py-1.5 max-w-[200px] truncate" title={c.slug}>{c.slug}</td>
+                  <td className="px-3 py-1.5">{c.outcome || '-'}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{c.usdcSize ? `$${c.usdcSize.toFixed(2)}` : '-'}</td>
+                  <ScoreCell value={c.score.time} />
+                  <ScoreCell value={c.score.slug} />
+                  <ScoreCell value={c.score.outcome} />
+                  <ScoreCell value={c.score.size} />
+                  <td className="px-3 py-1.5 text-right tabular-nums font-bold text-white">{c.score.total.toFixed(2)}</td>
+                  <td className="px-3 py-1.5">
+                    {isWinner ? (
+                      <span className="flex items-center gap-1 text-green-400"><CheckCircle className="w-3 h-3" /> Matched</span>
+                    ) : c.eligible ? (
+                      <span className="text-gray-500">Lower score</span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-red-400"><XCircle className="w-3 h-3" /> {c.rejectionReason}</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {audit.totalCandidates > audit.candidates.length && (
+        <div className="text-[10px] text-gray-500">
+          Showing top {audit.candidates.length} of {audit.totalCandidates} candidates.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { MatchSettings, MatchDiffEntry, MatchWeights, ProcessedTrade, CostBasisMethod, ClockOffsets } from '../types';
+import { DEFAULT_CLOCK_OFFSETS, DEFAULT_TIMEZONE, formatDateTime } from '../services/time';
+import { GitCompare, SlidersHorizontal, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface MatchSettingsPanelProps {
+  settings: MatchSettings;
+  costBasisMethod: CostBasisMethod;
+  onApply: (settings: MatchSettings, costBasisMethod: CostBasisMethod) => void;
+  diff: MatchDiffEntry[] | null; // null while the comparison is hidden or being computed
+  diffOpen: boolean;
+  onToggleDiff: () => void;
+  timezone?: string;
+}
+
+const WEIGHT_LABELS: Record<keyof MatchWeights, string> = {
+  time: 'Time delta',
+  slug: 'Slug similarity',
+  outcome: 'Outcome agreement',
+  size: 'Size similarity'
+};
+
+const OFFSET_LABELS: Record<keyof ClockOffsets, string> = {
+  chatSeconds: 'Chat clock (s)',
+  activitySeconds: 'Activity clock (s)'
+};
+
+const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  FIFO: 'FIFO',
+  LIFO: 'LIFO',
+  AVERAGE: 'Average cost'
+};
+
+const describeMatch = (t: ProcessedTrade) => {
+  const winner = t.matchAudit?.candidates.find(c => c.activityIndex === t.matchAudit?.winnerActivityIndex);
+  if (!winner) return <span className="text-gray-600">No activity match</span>;
+  return (
+    <span className="font-mono" title={winner.txHash}>
+      {winner.txHash ? `${winner.txHash.slice(0, 10)}…` : `row ${winner.activityIndex}`}
+      <span className="text-gray-500 ml-2">
+        {winner.timeDeltaSeconds >= 0 ? '+' : ''}{winner.timeDeltaSeconds.toFixed(0)}s · {winner.score.total.toFixed(2)}
+      </span>
+    </span>
+  );
+};
+
+export const MatchSettingsPanel: React.FC<MatchSettingsPanelProps> = ({ settings, costBasisMethod, onApply, diff, diffOpen, onToggleDiff, timezone = DEFAULT_TIMEZONE }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<MatchSettings>(settings);
+  const [draftMethod, setDraftMethod] = useState<CostBasisMethod>(costBasisMethod);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    setDraftMethod(costBasisMethod);
+  }, [costBasisMethod]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings) || draftMethod !== costBasisMethod;
+
+  const setWeight = (key: keyof MatchWeights, value: number) => {
+    setDraft({ ...draft, weights: { ...draft.weights, [key]: isNaN(value) ? 0 : value } });
+  };
+
+  const offsets = draft.clockOffsets || DEFAULT_CLOCK_OFFSETS;
+  const setOffset = (key: keyof ClockOffsets, value: number) => {
+    setDraft({ ...draft, clockOffsets: { ...offsets, [key]: isNaN(value) ? 0 : value } });
+  };
+  const appliedOffsets = settings.clockOffsets || DEFAULT_CLOCK_OFFSETS;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-blue-400" />
+          <span className="font-semibold text-white">Signal Matching & Cost Basis</span>
+          <span className="text-xs text-gray-500">
+            {settings.mode === 'optimal' ? 'Optimal assignment' : 'Greedy (chat order)'} · {Math.round(settings.windowSeconds / 60)} min window · {COST_BASIS_LABELS[costBasisMethod]}
+            {(appliedOffsets.chatSeconds !== 0 || appliedOffsets.activitySeconds !== 0) &&
+              ` · clock offsets chat ${appliedOffsets.chatSeconds}s, activity ${appliedOffsets.activitySeconds}s`}
+          </span>
+        </div>
+        {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-700 p-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Mode</span>
+              <div className="flex rounded border border-gray-600 overflow-hidden">
+                {(['greedy', 'optimal'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setDraft({ ...draft, mode })}
+                    className={`px-3 py-1.5 text-sm capitalize transition-colors ${
+                      draft.mode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Window (min)</span>
+              <input
+                type="number"
+                min={1}
+                value={Math.round(draft.windowSeconds / 60)}
+                onChange={(e) => setDraft({ ...draft, windowSeconds: Math.max(1, Number(e.target.value) || 1) * 60 })}
+                className="w-24 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </label>
+
+            {(Object.keys(OFFSET_LABELS) as (keyof ClockOffsets)[]).map(key => (
+              <label key={key} className="flex flex-col gap-1" title="Added to this source's timestamps before matching">
+                <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">{OFFSET_LABELS[key]}</span>
+                <input
+                  type="number"
+                  step={1}
+                  value={offsets[key]}
+                  onChange={(e) => setOffset(key, parseFloat(e.target.value))}
+                  className="w-24 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+
+            {(Object.keys(WEIGHT_LABELS) as (keyof MatchWeights)[]).map(key => (
+              <label key={key} className="flex flex-col gap-1" title="Scores rank the audit candidates and drive optimal mode; greedy takes the closest fill">
+                <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">{WEIGHT_LABELS[key]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={draft.weights[key]}
+                  onChange={(e) => setWeight(key, parseFloat(e.target.value))}
+                  className="w-24 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Cost Basis</span>
+              <select
+                value={draftMethod}
+                onChange={(e) => setDraftMethod(e.target.value as CostBasisMethod)}
+                className="bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(m => (
+                  <option key={m} value={m}>{COST_BASIS_LABELS[m]}</option>
+                ))}
+              </select>
+            </label>
+
+            <button
+              onClick={() => onApply(draft, draftMethod)}
+              disabled={!isDirty}
+              className={`px-4 py-1.5 rounded text-sm font-medium transition-all ${
+                isDirty ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              Re-match
+            </button>
+
+            <button
+              onClick={onToggleDiff}
+              className="flex items-center gap-2 px-3 py-1.5 rounded text-sm border bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 transition-all"
+            >
+              <GitCompare className="w-4 h-4" />
+              {!diffOpen ? 'Compare greedy vs optimal' : diff ? 'Hide comparison' : 'Comparing...'}
+            </button>
+          </div>
+
+          {diff && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-300">
+                {diff.length === 0
+                  ? 'Greedy and optimal matching agree on every signal.'
+                  : `${diff.length} signal(s) match a different execution under optimal assignment.`}
+              </div>
+              {diff.length > 0 && (
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="w-full text-xs text-left text-gray-300">
+                    <thead className="uppercase text-gray-500 bg-gray-900/50 border-b border-gray-700">
+                      <tr>
+                        <th className="px-3 py-2">Date</th>
+                        <th className="px-3 py-2">Trader</th>
+                        <th className="px-3 py-2">Market</th>
+                        <th className="px-3 py-2">Signal</th>
+                        <th className="px-3 py-2">Greedy Match</th>
+                        <th className="px-3 py-2">Optimal Match</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {diff.map(({ greedy, optimal }) => (
+                        <tr key={greedy.id} className="hover:bg-gray-700/30">
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-400">{formatDateTime(new Date(greedy.date).getTime(), timezone)}</td>
+                          <td className="px-3 py-2 text-white">{greedy.traderName}</td>
+                          <td className="px-3 py-2 max-w-[220px] truncate" title={greedy.marketTitle}>{greedy.marketTitle}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{greedy.action} {greedy.outcome} ${greedy.amount.toFixed(2)}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{describeMatch(greedy)}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{describeMatch(optimal)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
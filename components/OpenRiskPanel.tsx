@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { ShieldAlert, AlertTriangle } from 'lucide-react';
+import { ExposureReport, ExposureGroup } from '../types';
+import { CONCENTRATION_WARNING_SHARE } from '../services/exposure';
+
+interface OpenRiskPanelProps {
+  report: ExposureReport;
+}
+
+type GroupBy = 'byMarket' | 'byCategory' | 'byTrader' | 'byResolutionDate';
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  byMarket: 'Market',
+  byCategory: 'Category',
+  byTrader: 'Trader',
+  byResolutionDate: 'Resolution Date'
+};
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+const formatPercent = (val: number) => `${(val * 100).toFixed(1)}%`;
+const pnlClass = (val: number) => val > 0 ? 'text-green-400' : val < 0 ? 'text-red-400' : 'text-gray-400';
+
+export const OpenRiskPanel: React.FC<OpenRiskPanelProps> = ({ report }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('byMarket');
+
+  if (report.positions.length === 0) return null;
+
+  const groups: ExposureGroup[] = report[groupBy];
+  const largest = report.largestMarket;
+  const concentrated = largest !== null && largest.share > CONCENTRATION_WARNING_SHARE;
+
+  const tiles = [
+    { label: 'Capital at Risk', value: formatMoney(report.capitalAtRisk), className: 'text-white' },
+    { label: 'Market Value', value: formatMoney(report.marketValue), className: 'text-white' },
+    { label: 'Max Loss', value: formatMoney(-report.maxLoss), className: 'text-red-400' },
+    { label: 'Max Gain', value: formatMoney(report.maxGain), className: 'text-green-400' },
+    { label: 'Expected PnL', value: formatMoney(report.expectedPnl), className: pnlClass(report.expectedPnl) },
+    { label: 'Largest Market', value: largest ? formatPercent(largest.share) : '-', className: concentrated ? 'text-yellow-400' : 'text-white' }
+  ];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-blue-400" />
+            Open Risk
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {report.positions.length} open position(s) at cost. Expected PnL reads each current price as the probability the outcome pays out.
+          </p>
+        </div>
+        <div className="flex flex-wrap rounded border border-gray-600 overflow-hidden">
+          {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setGroupBy(key)}
+              className={`px-3 py-1.5 text-xs transition-colors ${
+                groupBy === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-gray-900/50 border border-gray-700 rounded p-3">
+            <p className="text-xs text-gray-400 uppercase">{tile.label}</p>
+            <p className={`text-lg font-bold font-mono ${tile.className}`}>{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {concentrated && (
+        <div className="flex items-start gap-2 p-3 rounded border border-yellow-700/50 bg-yellow-900/20 text-sm text-yellow-200">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-500" />
+          <span>
+            {largest!.key} holds {formatPercent(largest!.share)} of capital at risk ({formatMoney(largest!.costBasis)}),
+            above the {formatPercent(CONCENTRATION_WARNING_SHARE)} concentration limit.
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={groups.slice(0, 10)} layout="vertical" margin={{ left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
+              <XAxis
+                type="number"
+                stroke="#9ca3af"
+                fontSize={12}
+                tickFormatter={(val) => `$${val}`}
+                axisLine={false}
+                tickLine={false}
+              />
+              <YAxis
+                type="category"
+                dataKey="key"
+                stroke="#9ca3af"
+                fontSize={12}
+                width={120}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                cursor={{ fill: '#374151', opacity: 0.4 }}
+                contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                formatter={(val: number) => [formatMoney(val), 'Capital at Risk']}
+              />
+              <Bar dataKey="costBasis" maxBarSize={28}>
+                {groups.slice(0, 10).map(g => (
+                  <Cell key={g.key} fill={g.share > CONCENTRATION_WARNING_SHARE ? '#fbbf24' : '#60a5fa'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto max-h-64">
+          <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+              <tr>
+                <th className="px-3 py-2">{GROUP_LABELS[groupBy]}</th>
+                <th className="px-3 py-2 text-right">Positions</th>
+                <th className="px-3 py-2 text-right">At Risk</th>
+                <th className="px-3 py-2 text-right">Share</th>
+                <th className="px-3 py-2 text-right">Expected PnL</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {groups.map(g => (
+                <tr key={g.key} className="hover:bg-gray-700/30">
+                  <td className="px-3 py-2 text-white max-w-xs truncate" title={g.key}>{g.key}</td>
+                  <td className="px-3 py-2 text-right font-mono">{g.positions}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatMoney(g.costBasis)}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatPercent(g.share)}</td>
+                  <td className={`px-3 py-2 text-right font-mono ${pnlClass(g.marketValue - g.costBasis)}`}>
+                    {formatMoney(g.marketValue - g.costBasis)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { TrendingDown } from 'lucide-react';
+import { OpportunityCostReport, MissedPnlGroup } from '../types';
+
+interface OpportunityCostPanelProps {
+  report: OpportunityCostReport;
+}
+
+type GroupBy = 'byReason' | 'byTrader' | 'byCategory';
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  byReason: 'Failure Reason',
+  byTrader: 'Trader',
+  byCategory: 'Category'
+};
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+const pnlClass = (val: number) => val > 0 ? 'text-green-400' : val < 0 ? 'text-red-400' : 'text-gray-400';
+
+export const OpportunityCostPanel: React.FC<OpportunityCostPanelProps> = ({ report }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('byReason');
+
+  if (report.missed.length === 0 && report.unsettled === 0) return null;
+
+  const groups: MissedPnlGroup[] = report[groupBy];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <TrendingDown className="w-5 h-5 text-blue-400" />
+            Missed PnL (Failed & Skipped Signals)
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {report.missed.length} settled signal(s) priced at settlement
+            {report.unsettled > 0 && ` · ${report.unsettled} not settled yet`}
+            {report.unpriced > 0 && ` · ${report.unpriced} without an entry price`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className={`text-2xl font-bold font-mono ${pnlClass(report.totalMissedPnl)}`}>
+            {formatMoney(report.totalMissedPnl)}
+          </span>
+          <div className="flex rounded border border-gray-600 overflow-hidden">
+            {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setGroupBy(key)}
+                className={`px-3 py-1.5 text-xs transition-colors ${
+                  groupBy === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {GROUP_LABELS[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {groups.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={groups} layout="vertical" margin={{ left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
+                <XAxis
+                  type="number"
+                  stroke="#9ca3af"
+                  fontSize={12}
+                  tickFormatter={(val) => `$${val}`}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="key"
+                  stroke="#9ca3af"
+                  fontSize={12}
+                  width={120}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <Tooltip
+                  cursor={{ fill: '#374151', opacity: 0.4 }}
+                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6' }}
+                  formatter={(val: number) => [formatMoney(val), 'Missed PnL']}
+                />
+                <Bar dataKey="missedPnl" maxBarSize={28}>
+                  {groups.map(g => (
+                    <Cell key={g.key} fill={g.missedPnl >= 0 ? '#34d399' : '#f87171'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                <tr>
+                  <th className="px-3 py-2">{GROUP_LABELS[groupBy]}</th>
+                  <th className="px-3 py-2 text-right">Signals</th>
+                  <th className="px-3 py-2 text-right">Missed $</th>
+                  <th className="px-3 py-2 text-right">Would-be Win %</th>
+                  <th className="px-3 py-2 text-right">Missed PnL</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {groups.map(g => (
+                  <tr key={g.key} className="hover:bg-gray-700/30">
+                    <td className="px-3 py-2 text-white">{g.key}</td>
+                    <td className="px-3 py-2 text-right font-mono">{g.count}</td>
+                    <td className="px-3 py-2 text-right font-mono">{formatMoney(g.stake)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{((g.wins / g.count) * 100).toFixed(1)}%</td>
+                    <td className={`px-3 py-2 text-right font-mono ${pnlClass(g.missedPnl)}`}>{formatMoney(g.missedPnl)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { PipelineProgress, PipelineStage } from '../types';
+
+interface ProcessingProgressProps {
+  progress: PipelineProgress;
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  parse: 'Parsing exports',
+  match: 'Matching signals',
+  analytics: 'Computing analytics'
+};
+
+export const ProcessingProgress: React.FC<ProcessingProgressProps> = ({ progress, onCancel }) => {
+  const percent = progress.total > 0 ? Math.min(100, Math.round((progress.done / progress.total) * 100)) : 0;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-white">
+          <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+          {STAGE_LABELS[progress.stage]}
+          <span className="text-gray-400">{progress.message}</span>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+        >
+          <X className="w-4 h-4" /> Cancel
+        </button>
+      </div>
+      <div className="h-2 bg-gray-900 rounded overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { ResolutionCalendar, ResolutionDay } from '../types';
+import { addDaysToKey } from '../services/time';
+
+interface ResolutionCalendarPanelProps {
+  calendar: ResolutionCalendar;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+
+// Keys are plain calendar days, so format them in UTC to keep the day as is
+const formatDay = (key: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${key}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+
+const shiftMonth = (month: string, delta: number) => {
+  const [year, m] = month.split('-').map(Number);
+  const d = new Date(Date.UTC(year, m - 1 + delta, 1));
+  return d.toISOString().slice(0, 7);
+};
+
+// Sunday-first grid covering the whole month, padded with null cells
+const monthCells = (month: string): (string | null)[] => {
+  const first = `${month}-01`;
+  const lead = new Date(`${first}T00:00:00Z`).getUTCDay();
+  const cells: (string | null)[] = Array(lead).fill(null);
+  for (let day = first; day.startsWith(month); day = addDaysToKey(day, 1)) cells.push(day);
+  return cells;
+};
+
+export const ResolutionCalendarPanel: React.FC<ResolutionCalendarPanelProps> = ({ calendar }) => {
+  const [month, setMonth] = useState(() => calendar.today.slice(0, 7));
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  if (calendar.days.length === 0 && calendar.undated.length === 0) return null;
+
+  const byDay = new Map<string, ResolutionDay>(calendar.days.map(d => [d.day, d]));
+  const selected = selectedDay ? byDay.get(selectedDay) : undefined;
+  const weekTotals = calendar.upcomingWeekTotals;
+  const weekMax = Math.max(...calendar.upcomingWeek.map(d => d.maxPayout), 0);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-blue-400" />
+          Resolution Calendar
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Open positions on their end date, with the capital tied up and the payout expected at current prices.
+          {calendar.undated.length > 0 && ` ${calendar.undated.length} position(s) have no end date.`}
+        </p>
+      </div>
+
+      {calendar.pastDue.length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded border border-yellow-700/50 bg-yellow-900/20 text-sm text-yellow-200">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-500" />
+          <span>
+            {calendar.pastDue.length} position(s) are past their end date but still open
+            ({formatMoney(calendar.pastDue.reduce((sum, p) => sum + p.costBasis, 0))} at cost):{' '}
+            {calendar.pastDue.map(p => `${p.title || p.slug} (${p.resolutionDate})`).join(', ')}.
+          </span>
+        </div>
+      )}
+
+      {/* Upcoming week cash flow */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h4 className="text-sm font-semibold text-gray-300">Next {calendar.upcomingWeek.length} Days</h4>
+          <p className="text-xs text-gray-400">
+            Capital resolving <span className="font-mono text-white">{formatMoney(weekTotals.capital)}</span>
+            {' · '}expected back <span className="font-mono text-green-400">{formatMoney(weekTotals.expectedPayout)}</span>
+            {' · '}at most <span className="font-mono text-gray-200">{formatMoney(weekTotals.maxPayout)}</span>
+          </p>
+        </div>
+        <div className="grid grid-cols-7 gap-2">
+          {calendar.upcomingWeek.map(d => (
+            <button
+              key={d.day}
+              onClick={() => setSelectedDay(d.day)}
+              className={`flex flex-col justify-end h-28 rounded border p-2 text-left transition-colors ${
+                selectedDay === d.day ? 'border-blue-500 bg-gray-700/60' : 'border-gray-700 bg-gray-900/50 hover:bg-gray-700/40'
+              }`}
+              title={`${d.positions.length} position(s), max payout ${formatMoney(d.maxPayout)}`}
+            >
+              <div className="flex-1 flex items-end">
+                <div
+                  className="w-full rounded-sm bg-green-500/60"
+                  style={{ height: weekMax > 0 ? `${(d.expectedPayout / weekMax) * 100}%` : 0 }}
+                />
+              </div>
+              <span className="text-[10px] text-gray-400 mt-1">{formatDay(d.day, { weekday: 'short', day: 'numeric' })}</span>
+              <span className="text-xs font-mono text-gray-200">{d.positions.length > 0 ? formatMoney(d.expectedPayout) : '-'}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Month grid */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <button onClick={() => setMonth(shiftMonth(month, -1))} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm font-semibold text-gray-300">{formatDay(`${month}-01`, { month: 'long', year: 'numeric' })}</span>
+          <button onClick={() => setMonth(shiftMonth(month, 1))} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-xs">
+          {WEEKDAYS.map(w => <div key={w} className="px-1 text-center text-gray-500">{w}</div>)}
+          {monthCells(month).map((day, i) => {
+            if (!day) return <div key={`pad-${i}`} />;
+            const entry = byDay.get(day);
+            return (
+              <button
+                key={day}
+                onClick={() => setSelectedDay(day)}
+                disabled={!entry}
+                className={`h-16 rounded border p-1 text-left ${
+                  entry?.pastDue ? 'border-yellow-600/70 bg-yellow-900/20' : entry ? 'border-gray-600 bg-gray-700/50 hover:bg-gray-700' : 'border-gray-800'
+                } ${selectedDay === day ? 'ring-1 ring-blue-500' : ''} ${day === calendar.today ? 'text-blue-400' : 'text-gray-400'}`}
+              >
+                <div>{Number(day.slice(8))}</div>
+                {entry && (
+                  <div className="font-mono leading-tight">
+                    <div className="text-gray-200">{formatMoney(entry.capital)}</div>
+                    <div className="text-gray-500">{entry.positions.length} pos.</div>
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Selected day */}
+      {selectedDay && (
+        <div className="overflow-x-auto">
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">
+            {formatDay(selectedDay, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+            {selected?.pastDue && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-400">past due</span>}
+          </h4>
+          {selected ? (
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                <tr>
+                  <th className="px-3 py-2">Market</th>
+                  <th className="px-3 py-2">Outcome</th>
+                  <th className="px-3 py-2 text-right">Shares</th>
+                  <th className="px-3 py-2 text-right">Capital</th>
+                  <th className="px-3 py-2 text-right">Price</th>
+                  <th className="px-3 py-2 text-right">Expected Payout</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {selected.positions.map(p => (
+                  <tr key={`${p.slug}|${p.outcome}`} className="hover:bg-gray-700/30">
+                    <td className="px-3 py-2 text-white max-w-xs truncate" title={p.title}>{p.title || p.slug}</td>
+                    <td className="px-3 py-2">{p.outcome}</td>
+                    <td className="px-3 py-2 text-right font-mono">{p.shares.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{formatMoney(p.costBasis)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{p.price.toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-green-400">{formatMoney(p.marketValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-gray-500">No open positions resolve on this day.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
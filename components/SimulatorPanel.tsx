@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { FlaskConical, ChevronDown, ChevronRight } from 'lucide-react';
+import { SimulationSettings, SimulationResult, SizingRule, TraderStats } from '../types';
+import { DEFAULT_SIMULATION_SETTINGS } from '../services/simulator';
+
+interface SimulatorPanelProps {
+  result: SimulationResult | null; // null until a simulation has been run
+  actualStats: TraderStats[];
+  failureReasons: string[]; // Failure reasons present in the data, offered for replay
+  onRun: (settings: SimulationSettings) => void;
+  onClear: () => void;
+}
+
+const SIZING_LABELS: Record<SizingRule, string> = {
+  FIXED: 'Fixed $',
+  PERCENT: '% of bankroll',
+  KELLY: 'Kelly fraction'
+};
+
+const inputClass = "w-28 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-3 py-1.5 outline-none focus:ring-1 focus:ring-blue-500";
+const labelClass = "text-xs text-gray-400 uppercase tracking-wider font-semibold";
+
+const formatMoney = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toFixed(2)}`;
+const pnlClass = (val: number) => val > 0 ? 'text-green-400' : val < 0 ? 'text-red-400' : 'text-gray-400';
+
+export const SimulatorPanel: React.FC<SimulatorPanelProps> = ({ result, actualStats, failureReasons, onRun, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<SimulationSettings>(DEFAULT_SIMULATION_SETTINGS);
+
+  const setNumber = (key: 'startingBankroll' | 'fixedAmount' | 'bankrollPercent' | 'kellyFraction', value: string) => {
+    const num = parseFloat(value);
+    setDraft({ ...draft, [key]: isNaN(num) ? 0 : Math.max(0, num) });
+  };
+
+  const toggleReason = (reason: string) => {
+    const reasons = draft.replayedFailureReasons.includes(reason)
+      ? draft.replayedFailureReasons.filter(r => r !== reason)
+      : [...draft.replayedFailureReasons, reason];
+    setDraft({ ...draft, replayedFailureReasons: reasons });
+  };
+
+  const simulatedByTrader = new Map<string, TraderStats>((result?.analytics.traderStats || []).map(s => [s.name, s]));
+  const traderNames = Array.from(new Set([...actualStats.map(s => s.name), ...simulatedByTrader.keys()]));
+  const actualByTrader = new Map<string, TraderStats>(actualStats.map(s => [s.name, s]));
+  const skippedEntries = result ? (Object.entries(result.skipped) as [string, number][]).sort((a, b) => b[1] - a[1]) : [];
+  const returnPct = result && result.startingBankroll > 0
+    ? ((result.finalBankroll - result.startingBankroll) / result.startingBankroll) * 100
+    : 0;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-blue-400" />
+          <span className="font-semibold text-white">Copy-Trading Simulator</span>
+          {result && (
+            <span className="text-xs text-gray-500">
+              {formatMoney(result.startingBankroll)} → {formatMoney(result.finalBankroll)} ({returnPct >= 0 ? '+' : ''}{returnPct.toFixed(1)}%) · shown in overall charts
+            </span>
+          )}
+        </div>
+        {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-700 p-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Bankroll ($)</span>
+              <input type="number" min={0} value={draft.startingBankroll} onChange={(e) => setNumber('startingBankroll', e.target.value)} className={inputClass} />
+            </label>
+
+            <div className="flex flex-col gap-1">
+              <span className={labelClass}>Sizing</span>
+              <div className="flex rounded border border-gray-600 overflow-hidden">
+                {(Object.keys(SIZING_LABELS) as SizingRule[]).map(rule => (
+                  <button
+                    key={rule}
+                    onClick={() => setDraft({ ...draft, sizingRule: rule })}
+                    className={`px-3 py-1.5 text-sm transition-colors ${
+                      draft.sizingRule === rule ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {SIZING_LABELS[rule]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {draft.sizingRule === 'FIXED' && (
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>$ per signal</span>
+                <input type="number" min={0} value={draft.fixedAmount} onChange={(e) => setNumber('fixedAmount', e.target.value)} className={inputClass} />
+              </label>
+            )}
+            {draft.sizingRule === 'PERCENT' && (
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>% per signal</span>
+                <input type="number" min={0} step={0.5} value={draft.bankrollPercent} onChange={(e) => setNumber('bankrollPercent', e.target.value)} className={inputClass} />
+              </label>
+            )}
+            {draft.sizingRule === 'KELLY' && (
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>Kelly multiplier</span>
+                <input type="number" min={0} step={0.05} value={draft.kellyFraction} onChange={(e) => setNumber('kellyFraction', e.target.value)} className={inputClass} />
+              </label>
+            )}
+
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Per-market cap ($)</span>
+              <input
+                type="number"
+                min={0}
+                placeholder="None"
+                value={draft.perMarketCap ?? ''}
+                onChange={(e) => setDraft({ ...draft, perMarketCap: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </label>
+
+            <button
+              onClick={() => onRun(draft)}
+              className="px-4 py-1.5 rounded text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white transition-all"
+            >
+              Run simulation
+            </button>
+            {result && (
+              <button
+                onClick={onClear}
+                className="px-3 py-1.5 rounded text-sm border bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 transition-all"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          {failureReasons.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+              <span className={labelClass}>Replay failed signals</span>
+              {failureReasons.map(reason => (
+                <label key={reason} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={draft.replayedFailureReasons.includes(reason)}
+                    onChange={() => toggleReason(reason)}
+                    className="accent-blue-500"
+                  />
+                  {reason}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="text-sm text-gray-300">
+                {result.trades.length} simulated fills ({result.replayedFailed} from failed signals).
+                {skippedEntries.length > 0 && (
+                  <span className="text-gray-500"> Skipped: {skippedEntries.map(([reason, count]) => `${reason} ${count}`).join(' · ')}</span>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left text-gray-300">
+                  <thead className="uppercase text-gray-500 bg-gray-900/50 border-b border-gray-700">
+                    <tr>
+                      <th className="px-3 py-2">Trader</th>
+                      <th className="px-3 py-2 text-right">Actual PnL</th>
+                      <th className="px-3 py-2 text-right">Simulated PnL</th>
+                      <th className="px-3 py-2 text-right">Actual Win %</th>
+                      <th className="px-3 py-2 text-right">Simulated Win %</th>
+                      <th className="px-3 py-2 text-right">Simulated Fills</th>
+                      <th className="px-3 py-2 text-right">Simulated Sharpe</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {traderNames.map(name => {
+                      const actual = actualByTrader.get(name);
+                      const simulated = simulatedByTrader.get(name);
+                      const fills = result.trades.filter(t => t.traderName === name).length;
+                      return (
+                        <tr key={name} className="hover:bg-gray-700/30">
+                          <td className="px-3 py-2 text-white">{name}</td>
+                          <td className={`px-3 py-2 text-right font-mono ${pnlClass(actual?.totalPnl || 0)}`}>{actual ? formatMoney(actual.totalPnl) : '-'}</td>
+                          <td className={`px-3 py-2 text-right font-mono ${pnlClass(simulated?.totalPnl || 0)}`}>{simulated ? formatMoney(simulated.totalPnl) : '-'}</td>
+                          <td className="px-3 py-2 text-right font-mono">{actual ? `${actual.winRate.toFixed(1)}%` : '-'}</td>
+                          <td className="px-3 py-2 text-right font-mono">{simulated ? `${simulated.winRate.toFixed(1)}%` : '-'}</td>
+                          <td className="px-3 py-2 text-right font-mono">{fills}</td>
+                          <td className="px-3 py-2 text-right font-mono">{simulated ? simulated.sharpeRatio.toFixed(2) : '-'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { TrendingUp, TrendingDown, Activity, DollarSign, BarChart3 } from 'lucide-react';
 import { ProcessedTrade, TradeStatus } from '../types';
+import { isFullyExitedLot, isLedgerExit } from '../services/ledger';
 
 interface StatsCardsProps {
   trades: ProcessedTrade[];
@@ -10,15 +11,17 @@ export const StatsCards: React.FC<StatsCardsProps> = ({ trades }) => {
   // Calculate Aggregates
   const executedTrades = trades.filter(t => 
     t.status === TradeStatus.SUCCESS && 
-    (t.matchedPositionStatus === 'Active' || t.matchedPositionStatus === 'Closed')
+    (t.matchedPositionStatus === 'Active' || t.matchedPositionStatus === 'Closed' || isLedgerExit(t))
   );
+  // Fully sold lots have their PnL on the SELL side, so they don't count towards win rate
+  const scoredTrades = executedTrades.filter(t => !isFullyExitedLot(t));
 
   const totalTrades = executedTrades.length;
   const totalVolume = executedTrades.reduce((sum, t) => sum + (t.matchedExecutionAmount || 0), 0);
   const totalPnL = executedTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
   
-  const winningTrades = executedTrades.filter(t => (t.pnl || 0) > 0).length;
-  const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
+  const winningTrades = scoredTrades.filter(t => (t.pnl || 0) > 0).length;
+  const winRate = scoredTrades.length > 0 ? (winningTrades / scoredTrades.length) * 100 : 0;
 
   const cards = [
     {
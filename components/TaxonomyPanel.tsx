@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { TaxonomyRule, TaxonomyMatchType, ProcessedTrade } from '../types';
+import { DEFAULT_TAXONOMY_RULES, classifyMarket, describeMarket, validateRule } from '../services/taxonomy';
+import { CategoryBadge } from './CategoryBadge';
+import { Tags, ChevronDown, ChevronRight, ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+
+interface TaxonomyPanelProps {
+  rules: TaxonomyRule[];
+  trades: ProcessedTrade[];
+  marketTags: Map<string, string[]>;
+  onApply: (rules: TaxonomyRule[]) => void;
+}
+
+const MATCH_TYPE_LABELS: Record<TaxonomyMatchType, string> = {
+  slugPrefix: 'Slug prefix',
+  regex: 'Regex',
+  tag: 'Event tag'
+};
+
+const inputClass = "bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-2 py-1 outline-none focus:ring-1 focus:ring-blue-500";
+
+export const TaxonomyPanel: React.FC<TaxonomyPanelProps> = ({ rules, trades, marketTags, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<TaxonomyRule[]>(rules);
+  const [testFilter, setTestFilter] = useState('');
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+  const errors = useMemo(() => new Map(draft.map(r => [r.id, validateRule(r)])), [draft]);
+  const hasErrors = Array.from(errors.values()).some(e => e !== null);
+
+  const updateRule = (index: number, patch: Partial<TaxonomyRule>) => {
+    setDraft(draft.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const addRule = () => {
+    setDraft([...draft, { id: `rule-${Date.now().toString(36)}`, category: '', type: 'regex', pattern: '', enabled: true }]);
+  };
+
+  // Every distinct market, classified under the draft rules so edits can be checked before applying
+  const testedMarkets = useMemo(() => {
+    const markets = new Map<string, { title: string; slug: string; tradeCount: number }>();
+    trades.forEach(t => {
+      const key = t.marketSlug || t.marketTitle;
+      const existing = markets.get(key);
+      if (existing) existing.tradeCount++;
+      else markets.set(key, { title: t.marketTitle, slug: t.marketSlug, tradeCount: 1 });
+    });
+    const lower = testFilter.toLowerCase();
+    return Array.from(markets.values())
+      .map(m => {
+        const descriptor = describeMarket({ marketTitle: m.title, marketSlug: m.slug }, marketTags);
+        return { ...m, tags: descriptor.tags, match: classifyMarket(descriptor, draft) };
+      })
+      .filter(m => !lower || m.title.toLowerCase().includes(lower) || m.match.category.toLowerCase().includes(lower) || (m.match.ruleId || '').toLowerCase().includes(lower))
+      .sort((a, b) => a.match.category.localeCompare(b.match.category) || b.tradeCount - a.tradeCount);
+  }, [trades, marketTags, draft, testFilter]);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Tags className="w-4 h-4 text-blue-400" />
+          <span className="font-semibold text-white">Market Taxonomy</span>
+          <span className="text-xs text-gray-500">
+            {rules.filter(r => r.enabled).length} of {rules.length} rules enabled
+          </span>
+        </div>
+        {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-700 p-4 space-y-6">
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+              Rules are tried top to bottom; the first enabled match sets the category. Use "/" for subcategories (e.g. Sports/NBA).
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left text-gray-300">
+                <thead className="uppercase text-gray-500 bg-gray-900/50 border-b border-gray-700">
+                  <tr>
+                    <th className="px-2 py-2">On</th>
+                    <th className="px-2 py-2">Category</th>
+                    <th className="px-2 py-2">Match</th>
+                    <th className="px-2 py-2">Pattern</th>
+                    <th className="px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {draft.map((rule, idx) => (
+                    <tr key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                      <td className="px-2 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={rule.enabled}
+                          onChange={(e) => updateRule(idx, { enabled: e.target.checked })}
+                          className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <input
+                          type="text"
+                          value={rule.category}
+                          onChange={(e) => updateRule(idx, { category: e.target.value })}
+                          className={`${inputClass} w-44`}
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <select
+                          value={rule.type}
+                          onChange={(e) => updateRule(idx, { type: e.target.value as TaxonomyMatchType })}
+                          className={inputClass}
+                        >
+                          {(Object.keys(MATCH_TYPE_LABELS) as TaxonomyMatchType[]).map(type => (
+                            <option key={type} value={type}>{MATCH_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-2 py-1.5 w-full">
+                        <input
+                          type="text"
+                          value={rule.pattern}
+                          onChange={(e) => updateRule(idx, { pattern: e.target.value })}
+                          className={`${inputClass} w-full font-mono ${errors.get(rule.id) ? 'border-red-500' : ''}`}
+                        />
+                        {errors.get(rule.id) && <div className="text-red-400 mt-1">{errors.get(rule.id)}</div>}
+                      </td>
+                      <td className="px-2 py-1.5 whitespace-nowrap">
+                        <button onClick={() => moveRule(idx, -1)} disabled={idx === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                          <ArrowUp className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => moveRule(idx, 1)} disabled={idx === draft.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                          <ArrowDown className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => setDraft(draft.filter((_, i) => i !== idx))} className="p-1 text-gray-400 hover:text-red-400">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 pt-2">
+              <button
+                onClick={addRule}
+                className="flex items-center gap-2 px-3 py-1.5 rounded text-sm border bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 transition-all"
+              >
+                <Plus className="w-4 h-4" /> Add rule
+              </button>
+              <button
+                onClick={() => setDraft(DEFAULT_TAXONOMY_RULES)}
+                className="px-3 py-1.5 rounded text-sm border bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 transition-all"
+              >
+                Reset to defaults
+              </button>
+              <button
+                onClick={() => onApply(draft)}
+                disabled={!isDirty || hasErrors}
+                className={`px-4 py-1.5 rounded text-sm font-medium transition-all ${
+                  isDirty && !hasErrors ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+
+          {/* Rule Tester */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-xs text-gray-400 uppercase tracking-wider font-semibold">
+                Rule Tester · {testedMarkets.length} market(s){isDirty && ' · showing unapplied rules'}
+              </span>
+              <input
+                type="text"
+                placeholder="Filter markets, categories or rules..."
+                value={testFilter}
+                onChange={(e) => setTestFilter(e.target.value)}
+                className={`${inputClass} w-64`}
+              />
+            </div>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-xs text-left text-gray-300">
+                <thead className="uppercase text-gray-500 bg-gray-900/50 border-b border-gray-700">
+                  <tr>
+                    <th className="px-3 py-2">Market</th>
+                    <th className="px-3 py-2">Tags</th>
+                    <th className="px-3 py-2 text-right">Trades</th>
+                    <th className="px-3 py-2">Category</th>
+                    <th className="px-3 py-2">Rule</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {testedMarkets.map(m => (
+                    <tr key={m.slug || m.title} className="hover:bg-gray-700/30">
+                      <td className="px-3 py-2 max-w-[320px] truncate" title={m.slug}>{m.title}</td>
+                      <td className="px-3 py-2 text-gray-500">{m.tags.join(', ')}</td>
+                      <td className="px-3 py-2 text-right font-mono">{m.tradeCount}</td>
+                      <td className="px-3 py-2"><CategoryBadge category={m.match.category} /></td>
+                      <td className="px-3 py-2 font-mono text-gray-400">{m.match.ruleId || <span className="text-gray-600">no match</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { X, Link, Check, ChevronDown } from 'lucide-react';
+import { TradeFilters, NumericRange } from '../types';
+import {
+  EMPTY_TRADE_FILTERS,
+  RANGE_FILTER_KEYS,
+  RANGE_FILTER_LABELS,
+  LIST_FILTER_KEYS,
+  LIST_FILTER_LABELS,
+  ListFilterKey,
+  describeTradeFilters
+} from '../services/tradeFilters';
+
+interface TradeFilterBarProps {
+  filters: TradeFilters;
+  options: Record<ListFilterKey, string[]>;
+  isEditing: boolean; // Show the per-column editors, not just the chips
+  onChange: (filters: TradeFilters) => void;
+}
+
+const inputClass = 'bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-2 py-1 outline-none focus:ring-1 focus:ring-blue-500';
+
+const parseBound = (value: string) => (value === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+interface ListFilterProps {
+  label: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const ListFilter: React.FC<ListFilterProps> = ({ label, options, selected, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = (value: string) =>
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 ${inputClass} ${selected.length > 0 ? 'border-blue-500 text-blue-300' : ''}`}
+      >
+        {label}{selected.length > 0 && ` (${selected.length})`}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-64 bg-gray-800 border border-gray-700 rounded shadow-xl z-50 p-2 max-h-72 overflow-y-auto">
+          {options.length === 0 && <div className="text-xs text-gray-500 p-2">No values</div>}
+          {options.map(value => (
+            <label key={value} className="flex items-center gap-2 p-1.5 hover:bg-gray-700 rounded cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(value)}
+                onChange={() => toggle(value)}
+                className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-300 truncate" title={value}>{value || '(none)'}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const TradeFilterBar: React.FC<TradeFilterBarProps> = ({ filters, options, isEditing, onChange }) => {
+  const [copied, setCopied] = useState(false);
+  const chips = describeTradeFilters(filters);
+
+  const setRange = (key: typeof RANGE_FILTER_KEYS[number], bound: keyof NumericRange, value: string) =>
+    onChange({ ...filters, [key]: { ...filters[key], [bound]: parseBound(value) } });
+
+  // Filters live in the page URL, so the link reproduces this view once the same data is loaded
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(err => console.error('Failed to copy link', err));
+  };
+
+  if (!isEditing && chips.length === 0) return null;
+
+  return (
+    <div className="border-b border-gray-700 bg-gray-800 px-4 py-3 space-y-3">
+      {isEditing && (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            Date
+            <input
+              type="date"
+              value={filters.dateRange.from || ''}
+              onChange={(e) => onChange({ ...filters, dateRange: { ...filters.dateRange, from: e.target.value || undefined } })}
+              className={inputClass}
+            />
+            –
+            <input
+              type="date"
+              value={filters.dateRange.to || ''}
+              onChange={(e) => onChange({ ...filters, dateRange: { ...filters.dateRange, to: e.target.value || undefined } })}
+              className={inputClass}
+            />
+          </div>
+          {RANGE_FILTER_KEYS.map(key => (
+            <div key={key} className="flex items-center gap-2 text-xs text-gray-400">
+              {RANGE_FILTER_LABELS[key]}
+              <input
+                type="number"
+                placeholder="min"
+                value={filters[key].min ?? ''}
+                onChange={(e) => setRange(key, 'min', e.target.value)}
+                className={`${inputClass} w-20`}
+              />
+              –
+              <input
+                type="number"
+                placeholder="max"
+                value={filters[key].max ?? ''}
+                onChange={(e) => setRange(key, 'max', e.target.value)}
+                className={`${inputClass} w-20`}
+              />
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-2">
+            {LIST_FILTER_KEYS.map(key => (
+              <ListFilter
+                key={key}
+                label={LIST_FILTER_LABELS[key]}
+                options={options[key]}
+                selected={filters[key]}
+                onChange={(selected) => onChange({ ...filters, [key]: selected })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chips.map(chip => (
+            <span key={chip.id} className="flex items-center gap-1 px-2 py-1 rounded text-xs border bg-blue-500/10 border-blue-500/30 text-blue-300 max-w-md">
+              <span className="truncate" title={chip.label}>{chip.label}</span>
+              <button onClick={() => onChange(chip.remove(filters))} className="text-blue-400 hover:text-white shrink-0">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <button onClick={() => onChange(EMPTY_TRADE_FILTERS)} className="text-xs text-gray-400 hover:text-white px-2">
+            Clear all
+          </button>
+          <button
+            onClick={copyLink}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white px-2"
+            title="Copy a link to this filtered view"
+          >
+            {copied ? <Check className="w-3 h-3 text-green-400" /> : <Link className="w-3 h-3" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,12 @@
-import React, { useState, useMemo } from 'react';
-import { ProcessedTrade, TradeStatus } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ProcessedTrade, TradeStatus, TradeSelection, TradeFilters, TradeSort, TableLayout } from '../types';
+import { MatchAuditPanel } from './MatchAuditPanel';
+import { CategoryBadge } from './CategoryBadge';
+import { TradeFilterBar } from './TradeFilterBar';
+import { CATEGORY_SEPARATOR } from '../services/taxonomy';
+import { DEFAULT_TIMEZONE, formatDateTime } from '../services/time';
+import { filterTrades, sortTrades, listFilterOptions, describeTradeFilters, parseTradeFilters, serializeTradeFilters } from '../services/tradeFilters';
+import { loadPreference, savePreference } from '../services/preferences';
 import { 
   ExternalLink, 
   XCircle, 
@@ -10,33 +17,79 @@ import {
   ArrowDown,
   Settings,
   Search,
-  Filter
+  Filter,
+  SlidersHorizontal,
+  ChevronRight,
+  ChevronDown,
+  X
 } from 'lucide-react';
 
 interface TradeTableProps {
   trades: ProcessedTrade[];
+  initialVisibleColumns?: string[] | null;
+  onVisibleColumnsChange?: (columns: string[]) => void;
+  selection?: TradeSelection | null; // Narrowed from another panel (e.g. latency outliers)
+  onClearSelection?: () => void;
+  timezone?: string;
 }
 
-type SortKey = keyof ProcessedTrade | 'execAmt' | 'execPrice' | 'latency' | 'signalAmt' | 'market' | 'trader' | 'totalAttempted';
-type SortDirection = 'asc' | 'desc';
+const DEFAULT_VISIBLE_COLUMNS = [
+  'date', 'trader', 'category', 'action', 'market', 'signalAmt', 'totalAttempted', 'execAmt', 'price', 'status', 'result', 'pnl', 'latency', 'link'
+];
+
+const LAYOUT_PREFERENCE_KEY = 'tradeTable.layout';
+
+// Rows have a fixed height so the visible slice can be computed from the scroll offset;
+// expanded audit rows are measured once rendered
+const ROW_HEIGHT = 56;
+const AUDIT_ROW_ESTIMATE = 240;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN_PX = 400;
+const MIN_COLUMN_WIDTH = 48;
+const EXPANDER_WIDTH = 32;
 
 interface ColumnConfig {
   id: string;
   label: string;
   sortable: boolean;
-  minWidth?: string;
+  width: number; // Default px width
   render: (trade: ProcessedTrade) => React.ReactNode;
 }
 
-export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
+// First row whose bottom edge is below the offset
+const rowAtOffset = (offsets: number[], offset: number) => {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] <= offset) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+export const TradeTable: React.FC<TradeTableProps> = ({ trades, initialVisibleColumns, onVisibleColumnsChange, selection, onClearSelection, timezone = DEFAULT_TIMEZONE }) => {
+  // Filters and sort start from the page URL, so shared links open the same view
+  const initialView = useMemo(() => parseTradeFilters(typeof window !== 'undefined' ? window.location.search : ''), []);
+  const savedLayout = useMemo(() => loadPreference<TableLayout>(LAYOUT_PREFERENCE_KEY, {
+    visibleColumns: DEFAULT_VISIBLE_COLUMNS,
+    columnOrder: [],
+    columnWidths: {}
+  }), []);
+
   // State
-  const [filterText, setFilterText] = useState('');
-  const [hideFailed, setHideFailed] = useState(false);
-  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ key: 'date', direction: 'desc' });
-  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set([
-    'date', 'trader', 'category', 'action', 'market', 'signalAmt', 'totalAttempted', 'execAmt', 'price', 'status', 'result', 'pnl', 'latency', 'link'
-  ]));
+  const [filters, setFilters] = useState<TradeFilters>(initialView.filters);
+  const [sorts, setSorts] = useState<TradeSort[]>(initialView.sorts);
+  const [showFilterEditor, setShowFilterEditor] = useState(false);
+  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set(initialVisibleColumns || savedLayout.visibleColumns));
+  const [columnOrder, setColumnOrder] = useState<string[]>(savedLayout.columnOrder);
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>(savedLayout.columnWidths);
   const [showColumnSelector, setShowColumnSelector] = useState(false);
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [auditHeights, setAuditHeights] = useState<Map<string, number>>(new Map());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
 
   // Column Definitions
   const columns: ColumnConfig[] = [
@@ -44,38 +97,35 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'date',
       label: 'Date',
       sortable: true,
-      render: (t) => <span className="whitespace-nowrap text-gray-400">{new Date(t.date).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+      width: 130,
+      render: (t) => <span className="whitespace-nowrap text-gray-400">{formatDateTime(new Date(t.date).getTime(), timezone)}</span>
     },
     {
       id: 'trader',
       label: 'Trader',
       sortable: true,
+      width: 130,
       render: (t) => <span className="font-medium text-white">{t.traderName}</span>
     },
     {
       id: 'category',
       label: 'Cat',
       sortable: true,
-      render: (t) => (
-        <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wide border ${
-            t.category === 'Sport' 
-            ? 'bg-orange-500/10 text-orange-400 border-orange-500/20' 
-            : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'
-        }`}>
-            {t.category === 'Sport' ? 'Sport' : 'Other'}
-        </span>
-      )
+      width: 120,
+      render: (t) => <CategoryBadge category={t.category} />
     },
     {
       id: 'market',
       label: 'Market',
       sortable: true,
+      width: 220,
       render: (t) => <span className="max-w-[200px] truncate block text-gray-300" title={t.marketTitle}>{t.marketTitle}</span>
     },
     {
       id: 'action',
       label: 'Side / Outcome',
       sortable: true,
+      width: 140,
       render: (t) => (
         <span className={`font-bold text-xs px-2 py-1 rounded border ${
           t.action === 'BUY' 
@@ -90,12 +140,14 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'signalAmt',
       label: 'Signal $',
       sortable: true,
+      width: 90,
       render: (t) => <span className="tabular-nums text-gray-300">${t.amount.toFixed(2)}</span>
     },
     {
       id: 'totalAttempted',
       label: 'Tot. Attempted',
       sortable: true,
+      width: 110,
       render: (t) => (
           <span className="tabular-nums text-yellow-500/80 font-medium">
               {t.totalAttemptedAmount ? `$${t.totalAttemptedAmount.toFixed(0)}` : '-'}
@@ -106,6 +158,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'execAmt',
       label: 'Exec $',
       sortable: true,
+      width: 90,
       render: (t) => (
         <span className={`tabular-nums ${t.matchedExecutionAmount ? 'text-white' : 'text-gray-600'}`}>
           {t.matchedExecutionAmount ? `$${t.matchedExecutionAmount.toFixed(2)}` : '-'}
@@ -116,6 +169,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'price',
       label: 'Price',
       sortable: true,
+      width: 80,
       render: (t) => (
         <span className="text-gray-300 tabular-nums">
           {t.matchedExecutionPrice ? `${(t.matchedExecutionPrice * 100).toFixed(1)}¢` : '-'}
@@ -126,6 +180,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'status',
       label: 'Status',
       sortable: true,
+      width: 150,
       render: (t) => (
         <div className="flex items-center gap-2">
             {t.status === TradeStatus.SUCCESS ? <CheckCircle className="w-4 h-4 text-green-500" /> :
@@ -142,6 +197,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'result',
       label: 'Result',
       sortable: true,
+      width: 90,
       render: (t) => (
         t.result ? (
             <span className={`text-xs font-bold px-2 py-1 rounded uppercase ${
@@ -158,6 +214,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'pnl',
       label: 'PnL',
       sortable: true,
+      width: 100,
       render: (t) => (
         t.pnl !== undefined ? (
             <div className={`tabular-nums font-bold ${t.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
@@ -166,19 +223,61 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
         ) : <span className="text-gray-600">-</span>
       )
     },
+    {
+      id: 'realized',
+      label: 'Realized',
+      sortable: true,
+      width: 100,
+      render: (t) => (
+        t.realizedPnl !== undefined ? (
+            <span className={`tabular-nums ${t.realizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {t.realizedPnl >= 0 ? '+' : ''}${t.realizedPnl.toFixed(2)}
+            </span>
+        ) : <span className="text-gray-600">-</span>
+      )
+    },
+    {
+      id: 'unrealized',
+      label: 'Unrealized',
+      sortable: true,
+      width: 100,
+      render: (t) => (
+        t.unrealizedPnl !== undefined ? (
+            <span className={`tabular-nums ${t.unrealizedPnl >= 0 ? 'text-green-400/70' : 'text-red-400/70'}`}>
+                {t.unrealizedPnl >= 0 ? '+' : ''}${t.unrealizedPnl.toFixed(2)}
+            </span>
+        ) : <span className="text-gray-600">-</span>
+      )
+    },
+    {
+      id: 'remaining',
+      label: 'Held Shares',
+      sortable: true,
+      width: 110,
+      render: (t) => (
+        <span className="tabular-nums text-gray-400" title={t.shares !== undefined ? `of ${t.shares.toFixed(2)} bought` : undefined}>
+            {t.remainingShares !== undefined ? t.remainingShares.toFixed(2) : '-'}
+        </span>
+      )
+    },
     {
       id: 'value',
       label: 'Value',
       sortable: true,
+      width: 90,
       render: (t) => <span className="tabular-nums text-gray-400">{t.currentValue ? `$${t.currentValue.toFixed(2)}` : '-'}</span>
     },
     {
       id: 'latency',
       label: 'Latency',
       sortable: true,
+      width: 90,
       render: (t) => (
         t.latencySeconds !== undefined ? (
-            <span className={`text-xs tabular-nums ${Math.abs(t.latencySeconds) > 60 ? 'text-yellow-500' : 'text-gray-400'}`}>
+            <span
+                className={`text-xs tabular-nums ${t.latencySeconds < 0 ? 'text-red-400' : t.latencySeconds > 60 ? 'text-yellow-500' : 'text-gray-400'}`}
+                title={t.latencySeconds < 0 ? 'Activity is timestamped before the signal: clock skew or a wrong match' : undefined}
+            >
                 {t.latencySeconds.toFixed(1)}s
             </span>
         ) : '-'
@@ -188,6 +287,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'tx',
       label: 'Tx',
       sortable: false,
+      width: 56,
       render: (t) => t.matchedTxHash ? (
         <a href={`https://polygonscan.com/tx/${t.matchedTxHash}`} target="_blank" rel="noopener noreferrer" className="text-gray-500 hover:text-blue-400 transition-colors">
             <FileText className="w-4 h-4" />
@@ -198,6 +298,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
       id: 'link',
       label: 'Link',
       sortable: false,
+      width: 56,
       render: (t) => (
         <a href={t.marketUrl} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:text-blue-400 transition-colors">
             <ExternalLink className="w-4 h-4" />
@@ -206,65 +307,126 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
     }
   ];
 
-  // Handling Sorting
-  const handleSort = (key: string) => {
-    let direction: SortDirection = 'desc';
-    if (sortConfig.key === key && sortConfig.direction === 'desc') {
-      direction = 'asc';
+  // Click sorts by a column alone; shift-click adds it as a tie-breaker, flips it, then drops it
+  const handleSort = (key: string, additive: boolean) => {
+    const existing = sorts.find(s => s.key === key);
+    if (!additive) {
+      setSorts([{ key, direction: existing && sorts.length === 1 && existing.direction === 'desc' ? 'asc' : 'desc' }]);
+      return;
     }
-    setSortConfig({ key: key as SortKey, direction });
+    if (!existing) setSorts([...sorts, { key, direction: 'desc' }]);
+    else if (existing.direction === 'desc') setSorts(sorts.map(s => s.key === key ? { ...s, direction: 'asc' } : s));
+    else if (sorts.length > 1) setSorts(sorts.filter(s => s.key !== key));
+    else setSorts([{ key, direction: 'desc' }]);
   };
 
   // Handling Filter & Sort Logic
   const filteredAndSortedTrades = useMemo(() => {
-    let result = [...trades];
-
-    if (hideFailed) {
-        result = result.filter(t => t.status === TradeStatus.SUCCESS && t.matchedPositionStatus !== 'None');
+    let result = trades;
+    if (selection) {
+        const ids = new Set(selection.tradeIds);
+        result = result.filter(t => ids.has(t.id));
     }
+    return sortTrades(filterTrades(result, filters, timezone), sorts);
+  }, [trades, filters, sorts, selection, timezone]);
 
-    if (filterText) {
-      const lower = filterText.toLowerCase();
-      result = result.filter(t => 
-        t.traderName.toLowerCase().includes(lower) ||
-        t.marketTitle.toLowerCase().includes(lower) ||
-        t.action.toLowerCase().includes(lower) ||
-        t.outcome.toLowerCase().includes(lower) ||
-        t.category.toLowerCase().includes(lower)
-      );
-    }
+  // Keep the shareable view in the address bar
+  useEffect(() => {
+    const query = serializeTradeFilters(filters, sorts);
+    const { pathname, hash } = window.location;
+    window.history.replaceState(window.history.state, '', `${pathname}${query ? `?${query}` : ''}${hash}`);
+    return () => window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.hash}`);
+  }, [filters, sorts]);
+
+  // Back to the top when the row set changes under the viewport
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [filters, sorts, selection]);
 
-    result.sort((a, b) => {
-      let aVal: any;
-      let bVal: any;
-
-      switch(sortConfig.key) {
-        case 'execAmt': aVal = a.matchedExecutionAmount || 0; bVal = b.matchedExecutionAmount || 0; break;
-        case 'execPrice': aVal = a.matchedExecutionPrice || 0; bVal = b.matchedExecutionPrice || 0; break;
-        case 'latency': aVal = a.latencySeconds || 0; bVal = b.latencySeconds || 0; break;
-        case 'signalAmt': aVal = a.amount; bVal = b.amount; break;
-        case 'totalAttempted': aVal = a.totalAttemptedAmount || 0; bVal = b.totalAttemptedAmount || 0; break;
-        case 'market': aVal = a.marketTitle; bVal = b.marketTitle; break;
-        case 'trader': aVal = a.traderName; bVal = b.traderName; break;
-        case 'action': aVal = a.action; bVal = b.action; break;
-        case 'result': aVal = a.result || ''; bVal = b.result || ''; break;
-        case 'category': aVal = a.category; bVal = b.category; break;
-        default: aVal = a[sortConfig.key as keyof ProcessedTrade] || 0; bVal = b[sortConfig.key as keyof ProcessedTrade] || 0;
-      }
-
-      if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
+  const filterOptions = useMemo(() => listFilterOptions(trades), [trades]);
+  const activeFilterCount = describeTradeFilters(filters).length;
+
+  // Every category path present plus its parents, for the filter dropdown
+  const categoryOptions = useMemo(() => {
+    const paths = new Set<string>();
+    trades.forEach(t => {
+      const parts = t.category.split(CATEGORY_SEPARATOR);
+      parts.forEach((_, i) => paths.add(parts.slice(0, i + 1).join(CATEGORY_SEPARATOR)));
     });
+    return Array.from(paths).sort();
+  }, [trades]);
 
-    return result;
-  }, [trades, filterText, sortConfig, hideFailed]);
+  // Top offset of every row (plus the total height at the end)
+  const rowOffsets = useMemo(() => {
+    const offsets = [0];
+    filteredAndSortedTrades.forEach((t, i) => {
+      const auditHeight = expandedRows.has(t.id) && t.matchAudit ? auditHeights.get(t.id) ?? AUDIT_ROW_ESTIMATE : 0;
+      offsets.push(offsets[i] + ROW_HEIGHT + auditHeight);
+    });
+    return offsets;
+  }, [filteredAndSortedTrades, expandedRows, auditHeights]);
+
+  const totalHeight = rowOffsets[rowOffsets.length - 1];
+  const firstRow = filteredAndSortedTrades.length > 0 ? rowAtOffset(rowOffsets, Math.max(0, scrollTop - OVERSCAN_PX)) : 0;
+  let lastRow = firstRow;
+  while (lastRow < filteredAndSortedTrades.length && rowOffsets[lastRow] < scrollTop + VIEWPORT_HEIGHT + OVERSCAN_PX) lastRow++;
+  const visibleTrades = filteredAndSortedTrades.slice(firstRow, lastRow);
+
+  const measureAudit = (id: string, el: HTMLTableRowElement | null) => {
+    if (!el || auditHeights.get(id) === el.offsetHeight) return;
+    setAuditHeights(prev => new Map(prev).set(id, el.offsetHeight));
+  };
+
+  const toggleExpanded = (id: string) => {
+    const newSet = new Set(expandedRows);
+    if (newSet.has(id)) newSet.delete(id);
+    else newSet.add(id);
+    setExpandedRows(newSet);
+  };
+
+  // Layout changes are remembered for the next session; visible columns also go to the workspace
+  useEffect(() => {
+    savePreference<TableLayout>(LAYOUT_PREFERENCE_KEY, { visibleColumns: Array.from(visibleColumns), columnOrder, columnWidths });
+  }, [visibleColumns, columnOrder, columnWidths]);
 
   const toggleColumn = (id: string) => {
     const newSet = new Set(visibleColumns);
     if (newSet.has(id)) newSet.delete(id);
     else newSet.add(id);
     setVisibleColumns(newSet);
+    onVisibleColumnsChange?.(Array.from(newSet));
+  };
+
+  // Saved order first; columns added since keep their definition order
+  const columnPosition = new Map(columnOrder.map((id, i) => [id, i]));
+  const orderedColumns = columns
+    .map((col, i) => ({ col, rank: columnPosition.get(col.id) ?? columnOrder.length + i }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ col }) => col);
+  const shownColumns = orderedColumns.filter(c => visibleColumns.has(c.id));
+  const columnWidth = (col: ColumnConfig) => columnWidths[col.id] ?? col.width;
+
+  const moveColumn = (id: string, beforeId: string) => {
+    if (id === beforeId) return;
+    const ids = orderedColumns.map(c => c.id).filter(c => c !== id);
+    ids.splice(ids.indexOf(beforeId), 0, id);
+    setColumnOrder(ids);
+  };
+
+  const startResize = (e: React.MouseEvent, col: ColumnConfig) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = columnWidth(col);
+    const onMove = (move: MouseEvent) =>
+      setColumnWidths(prev => ({ ...prev, [col.id]: Math.max(MIN_COLUMN_WIDTH, startWidth + move.clientX - startX) }));
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
   };
 
   return (
@@ -277,24 +439,61 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
                 <input 
                     type="text" 
                     placeholder="Search trades..." 
-                    value={filterText}
-                    onChange={(e) => setFilterText(e.target.value)}
+                    value={filters.text}
+                    onChange={(e) => setFilters({ ...filters, text: e.target.value })}
                     className="w-full bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded pl-10 pr-4 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-gray-600"
                 />
             </div>
             
             <div className="flex items-center gap-3">
+                {/* Selection from another panel */}
+                {selection && (
+                    <span className="flex items-center gap-2 px-3 py-2 rounded text-sm border bg-blue-500/10 border-blue-500/30 text-blue-300">
+                        {selection.label} ({selection.tradeIds.length})
+                        <button onClick={onClearSelection} className="text-blue-400 hover:text-white">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </span>
+                )}
+
+                {/* Category Filter */}
+                <select
+                    value={filters.category}
+                    onChange={(e) => setFilters({ ...filters, category: e.target.value })}
+                    className="bg-gray-700 border border-gray-600 text-gray-300 text-sm rounded px-3 py-2 outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                    <option value="">All Categories</option>
+                    {categoryOptions.map(c => (
+                        <option key={c} value={c}>
+                            {'\u00a0\u00a0'.repeat(c.split(CATEGORY_SEPARATOR).length - 1)}{c.split(CATEGORY_SEPARATOR).pop()}
+                        </option>
+                    ))}
+                </select>
+
                 {/* Toggle Failed */}
                 <button
-                    onClick={() => setHideFailed(!hideFailed)}
+                    onClick={() => setFilters({ ...filters, successfulOnly: !filters.successfulOnly })}
                     className={`flex items-center gap-2 px-3 py-2 rounded text-sm border transition-all ${
-                        hideFailed 
+                        filters.successfulOnly 
                         ? 'bg-blue-600 border-blue-600 text-white' 
                         : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
                     }`}
                 >
                     <Filter className="w-4 h-4" />
-                    {hideFailed ? 'Successful Only' : 'All Trades'}
+                    {filters.successfulOnly ? 'Successful Only' : 'All Trades'}
+                </button>
+
+                {/* Column Filters */}
+                <button
+                    onClick={() => setShowFilterEditor(!showFilterEditor)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded text-sm border transition-all ${
+                        showFilterEditor
+                        ? 'bg-gray-600 border-gray-500 text-white'
+                        : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                    }`}
+                >
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
                 </button>
 
                 {/* Columns Selector */}
@@ -309,7 +508,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
                     {showColumnSelector && (
                         <div className="absolute right-0 top-full mt-2 w-56 bg-gray-800 border border-gray-700 rounded shadow-xl z-50 p-2 max-h-80 overflow-y-auto">
                             <div className="text-xs font-semibold text-gray-500 px-2 py-1 uppercase tracking-wider mb-1">Toggle Columns</div>
-                            {columns.map(col => (
+                            {orderedColumns.map(col => (
                                 <label key={col.id} className="flex items-center gap-3 p-2 hover:bg-gray-700 rounded cursor-pointer transition-colors">
                                     <input 
                                         type="checkbox" 
@@ -320,46 +519,105 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
                                     <span className="text-sm text-gray-300">{col.label}</span>
                                 </label>
                             ))}
+                            {(columnOrder.length > 0 || Object.keys(columnWidths).length > 0) && (
+                                <button
+                                    onClick={() => { setColumnOrder([]); setColumnWidths({}); }}
+                                    className="w-full text-left text-xs text-gray-400 hover:text-white px-2 py-2 border-t border-gray-700 mt-1"
+                                >
+                                    Reset order & widths
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
             </div>
         </div>
 
-        {/* Table */}
-        <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left text-gray-300">
-                <thead className="text-xs text-gray-400 uppercase bg-gray-900/50 border-b border-gray-700">
+        <TradeFilterBar filters={filters} options={filterOptions} isEditing={showFilterEditor} onChange={setFilters} />
+
+        {/* Table: only rows near the viewport are rendered */}
+        <div
+            ref={scrollRef}
+            className="overflow-auto"
+            style={{ maxHeight: VIEWPORT_HEIGHT }}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+            <table className="text-sm text-left text-gray-300" style={{ tableLayout: 'fixed', width: EXPANDER_WIDTH + shownColumns.reduce((sum, c) => sum + columnWidth(c), 0) }}>
+                <colgroup>
+                    <col style={{ width: EXPANDER_WIDTH }} />
+                    {shownColumns.map(col => <col key={col.id} style={{ width: columnWidth(col) }} />)}
+                </colgroup>
+                <thead className="text-xs text-gray-400 uppercase bg-gray-900 border-b border-gray-700 sticky top-0 z-10">
                     <tr>
-                        {columns.filter(c => visibleColumns.has(c.id)).map(col => (
-                            <th 
-                                key={col.id} 
-                                className={`px-4 py-3 font-semibold tracking-wider ${col.sortable ? 'cursor-pointer hover:text-white transition-colors select-none' : ''}`}
-                                onClick={() => col.sortable && handleSort(col.id)}
-                            >
-                                <div className="flex items-center gap-1">
-                                    {col.label}
-                                    {sortConfig.key === col.id && (
-                                        sortConfig.direction === 'asc' ? <ArrowUp className="w-3 h-3 text-blue-400" /> : <ArrowDown className="w-3 h-3 text-blue-400" />
-                                    )}
-                                </div>
-                            </th>
-                        ))}
+                        <th />
+                        {shownColumns.map(col => {
+                            const sortIndex = sorts.findIndex(s => s.key === col.id);
+                            const sort = sorts[sortIndex];
+                            return (
+                                <th 
+                                    key={col.id} 
+                                    draggable
+                                    onDragStart={() => setDraggedColumn(col.id)}
+                                    onDragOver={(e) => e.preventDefault()}
+                                    onDrop={() => { if (draggedColumn) moveColumn(draggedColumn, col.id); setDraggedColumn(null); }}
+                                    onDragEnd={() => setDraggedColumn(null)}
+                                    className={`relative px-4 py-3 font-semibold tracking-wider ${col.sortable ? 'cursor-pointer hover:text-white transition-colors select-none' : ''} ${draggedColumn === col.id ? 'opacity-50' : ''}`}
+                                    onClick={(e) => col.sortable && handleSort(col.id, e.shiftKey)}
+                                    title={col.sortable ? 'Click to sort, shift-click to add a secondary sort. Drag to reorder.' : 'Drag to reorder'}
+                                >
+                                    <div className="flex items-center gap-1 overflow-hidden">
+                                        <span className="truncate">{col.label}</span>
+                                        {sort && (
+                                            sort.direction === 'asc' ? <ArrowUp className="w-3 h-3 text-blue-400 shrink-0" /> : <ArrowDown className="w-3 h-3 text-blue-400 shrink-0" />
+                                        )}
+                                        {sort && sorts.length > 1 && <span className="text-[10px] text-blue-400">{sortIndex + 1}</span>}
+                                    </div>
+                                    <span
+                                        onMouseDown={(e) => startResize(e, col)}
+                                        onClick={(e) => e.stopPropagation()}
+                                        className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-500/50"
+                                    />
+                                </th>
+                            );
+                        })}
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-700">
-                    {filteredAndSortedTrades.map((trade) => (
-                        <tr key={trade.id} className="hover:bg-gray-700/30 transition-colors">
-                            {columns.filter(c => visibleColumns.has(c.id)).map(col => (
-                                <td key={col.id} className="px-4 py-3 whitespace-nowrap">
-                                    {col.render(trade)}
-                                </td>
-                            ))}
-                        </tr>
-                    ))}
+                    {firstRow > 0 && <tr style={{ height: rowOffsets[firstRow] }} />}
+                    {visibleTrades.map((trade) => {
+                        const isExpanded = expandedRows.has(trade.id);
+                        return (
+                            <React.Fragment key={trade.id}>
+                                <tr
+                                    className={`hover:bg-gray-700/30 transition-colors ${trade.matchAudit ? 'cursor-pointer' : ''}`}
+                                    style={{ height: ROW_HEIGHT }}
+                                    onClick={() => trade.matchAudit && toggleExpanded(trade.id)}
+                                >
+                                    <td className="pl-3 py-2 text-gray-500">
+                                        {trade.matchAudit && (
+                                            isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />
+                                        )}
+                                    </td>
+                                    {shownColumns.map(col => (
+                                        <td key={col.id} className="px-4 py-2 whitespace-nowrap overflow-hidden">
+                                            {col.render(trade)}
+                                        </td>
+                                    ))}
+                                </tr>
+                                {isExpanded && trade.matchAudit && (
+                                    <tr ref={(el) => measureAudit(trade.id, el)}>
+                                        <td colSpan={shownColumns.length + 1} className="p-0">
+                                            <MatchAuditPanel audit={trade.matchAudit} />
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
+                    {lastRow < filteredAndSortedTrades.length && <tr style={{ height: totalHeight - rowOffsets[lastRow] }} />}
                     {filteredAndSortedTrades.length === 0 && (
                         <tr>
-                            <td colSpan={visibleColumns.size} className="px-4 py-12 text-center text-gray-500">
+                            <td colSpan={shownColumns.length + 1} className="px-4 py-12 text-center text-gray-500">
                                 <div className="flex flex-col items-center justify-center gap-2">
                                     <Search className="w-6 h-6 opacity-50" />
                                     <p>No trades found matching your filters.</p>
@@ -370,6 +628,12 @@ export const TradeTable: React.FC<TradeTableProps> = ({ trades }) => {
                 </tbody>
             </table>
         </div>
+
+        {sorts.length > 1 && (
+            <div className="px-4 py-2 border-t border-gray-700 text-xs text-gray-500">
+                Sorted by {sorts.map(s => `${columns.find(c => c.id === s.key)?.label || s.key} ${s.direction === 'asc' ? '↑' : '↓'}`).join(', then ')}
+            </div>
+        )}
     </div>
   );
-};
\ No newline at end of file
+};
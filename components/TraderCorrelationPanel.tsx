@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { GitCompare, AlertTriangle } from 'lucide-react';
+import { TraderCorrelationReport } from '../types';
+import { pairStats, MIN_CORRELATION_DAYS, SAME_SOURCE_THRESHOLDS } from '../services/correlation';
+
+interface TraderCorrelationPanelProps {
+  report: TraderCorrelationReport;
+}
+
+type Metric = 'jaccard' | 'agreementRate' | 'pnlCorrelation' | 'medianLeadMinutes';
+
+const METRIC_LABELS: Record<Metric, string> = {
+  jaccard: 'Market Overlap',
+  agreementRate: 'Outcome Agreement',
+  pnlCorrelation: 'Daily PnL Correlation',
+  medianLeadMinutes: 'Lead (min)'
+};
+
+// Lead times beyond this saturate the colour scale
+const LEAD_SCALE_MINUTES = 60;
+
+const formatPercent = (val: number | null) => val === null ? '-' : `${(val * 100).toFixed(0)}%`;
+const formatLead = (val: number | null) => val === null ? '-' : `${val > 0 ? '+' : ''}${val.toFixed(1)}`;
+
+const formatCell = (val: number | null, metric: Metric) => {
+  if (val === null) return '-';
+  if (metric === 'medianLeadMinutes') return formatLead(val);
+  if (metric === 'pnlCorrelation') return val.toFixed(2);
+  return formatPercent(val);
+};
+
+// 0-1 metrics shade blue; signed ones go green (positive) / red (negative)
+const cellColor = (val: number | null, metric: Metric) => {
+  if (val === null) return 'transparent';
+  if (metric === 'jaccard' || metric === 'agreementRate') return `rgba(96, 165, 250, ${0.1 + val * 0.8})`;
+  const scaled = metric === 'medianLeadMinutes' ? Math.max(-1, Math.min(1, val / LEAD_SCALE_MINUTES)) : val;
+  return scaled >= 0 ? `rgba(52, 211, 153, ${0.1 + scaled * 0.8})` : `rgba(248, 113, 113, ${0.1 - scaled * 0.8})`;
+};
+
+export const TraderCorrelationPanel: React.FC<TraderCorrelationPanelProps> = ({ report }) => {
+  const [metric, setMetric] = useState<Metric>('jaccard');
+
+  if (report.traders.length < 2) return null;
+
+  const pairs = [...report.pairs].sort((a, b) => b.jaccard - a.jaccard);
+  const sameSource = pairs.filter(p => p.sameSource);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <GitCompare className="w-5 h-5 text-blue-400" />
+            Trader Overlap & Correlation
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Overlap is Jaccard on markets signalled; agreement compares the first outcome each bought; lead is the median minutes the row trader signals before the column trader.
+          </p>
+        </div>
+        <div className="flex flex-wrap rounded border border-gray-600 overflow-hidden">
+          {(Object.keys(METRIC_LABELS) as Metric[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={`px-3 py-1.5 text-xs transition-colors ${
+                metric === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {METRIC_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sameSource.length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded border border-yellow-700/50 bg-yellow-900/20 text-sm text-yellow-200">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-500" />
+          <span>
+            Likely the same signal source: {sameSource.map(p => `${p.traderA} & ${p.traderB}`).join(', ')}.
+            Following both doubles the exposure to one set of calls.
+          </span>
+        </div>
+      )}
+
+      {/* Heatmap */}
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th />
+              {report.traders.map(t => (
+                <th key={t} className="px-2 py-1 text-gray-400 font-medium max-w-[6rem] truncate" title={t}>{t}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.traders.map(row => (
+              <tr key={row}>
+                <th className="px-2 py-1 text-left text-gray-400 font-medium max-w-[8rem] truncate" title={row}>{row}</th>
+                {report.traders.map(col => {
+                  if (row === col) return <td key={col} className="w-16 h-9 bg-gray-900/60 rounded" />;
+                  const pair = pairStats(report, row, col)!;
+                  const val = pair[metric];
+                  return (
+                    <td
+                      key={col}
+                      className={`w-16 h-9 text-center tabular-nums rounded text-gray-100 ${pair.sameSource ? 'ring-1 ring-yellow-500' : ''}`}
+                      style={{ backgroundColor: cellColor(val, metric) }}
+                      title={`${row} vs ${col}: ${pair.sharedMarkets} shared markets`}
+                    >
+                      {formatCell(val, metric)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pair table */}
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-gray-400 uppercase bg-gray-900/50 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-2">Pair</th>
+              <th className="px-3 py-2 text-right">Shared</th>
+              <th className="px-3 py-2 text-right">Overlap</th>
+              <th className="px-3 py-2 text-right">Agree / Disagree</th>
+              <th className="px-3 py-2 text-right">PnL Corr.</th>
+              <th className="px-3 py-2 text-right">First (A / B)</th>
+              <th className="px-3 py-2 text-right">Median Lead</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {pairs.map(p => (
+              <tr key={`${p.traderA}|${p.traderB}`} className={p.sameSource ? 'bg-yellow-900/10' : ''}>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <span className="text-white">{p.traderA}</span> <span className="text-gray-500">&</span> <span className="text-white">{p.traderB}</span>
+                  {p.sameSource && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-400">same source?</span>}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums">{p.sharedMarkets}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{formatPercent(p.jaccard)}</td>
+                <td className="px-3 py-2 text-right tabular-nums">
+                  {p.agreements} / {p.disagreements} <span className="text-gray-500">({formatPercent(p.agreementRate)})</span>
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums" title={`${p.correlationDays} active day(s)`}>
+                  {p.pnlCorrelation === null ? <span className="text-gray-600">-</span> : p.pnlCorrelation.toFixed(2)}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums">{p.aFirst} / {p.bFirst}</td>
+                <td className="px-3 py-2 text-right tabular-nums">
+                  {p.medianLeadMinutes === null ? '-' : `${formatLead(p.medianLeadMinutes)} min`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        PnL correlation needs {MIN_CORRELATION_DAYS}+ days with filled PnL from either trader. Pairs are flagged as one source with
+        at least {SAME_SOURCE_THRESHOLDS.minSharedMarkets} shared markets, {formatPercent(SAME_SOURCE_THRESHOLDS.minJaccard)} overlap,
+        {' '}{formatPercent(SAME_SOURCE_THRESHOLDS.minAgreementRate)} agreement and a median lead within {SAME_SOURCE_THRESHOLDS.maxLeadMinutes} minutes.
+      </p>
+    </div>
+  );
+};
@@ -1,39 +1,45 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { TimeSeriesPoint } from '../types';
+import { DEFAULT_TIMEZONE, formatDateTime } from '../services/time';
 
 interface TraderGraphsProps {
   pnlData: TimeSeriesPoint[];
   winRateData: TimeSeriesPoint[];
   tradeCountsData: TimeSeriesPoint[];
   traders: string[];
+  initialHiddenTraders?: string[];
+  onHiddenTradersChange?: (hidden: string[]) => void;
+  timezone?: string;
 }
 
 const COLORS = ['#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa', '#f472b6', '#818cf8'];
 
-export const TraderGraphs: React.FC<TraderGraphsProps> = ({ pnlData, winRateData, tradeCountsData, traders }) => {
-  const [activeTraders, setActiveTraders] = useState<Set<string>>(new Set());
+export const TraderGraphs: React.FC<TraderGraphsProps> = ({ pnlData, winRateData, tradeCountsData, traders, initialHiddenTraders, onHiddenTradersChange, timezone = DEFAULT_TIMEZONE }) => {
+  // Track hidden rather than active traders so traders appearing later (new date range) default to visible
+  const [hiddenTraders, setHiddenTraders] = useState<Set<string>>(new Set(initialHiddenTraders || []));
+  const activeTraders = useMemo(() => new Set(traders.filter(t => !hiddenTraders.has(t))), [traders, hiddenTraders]);
 
-  // Initialize all traders as active when props change
-  useEffect(() => {
-    setActiveTraders(new Set(traders));
-  }, [traders]);
+  const updateHidden = (newSet: Set<string>) => {
+    setHiddenTraders(newSet);
+    onHiddenTradersChange?.(Array.from(newSet));
+  };
 
   const toggleTrader = (trader: string) => {
-    const newSet = new Set(activeTraders);
+    const newSet = new Set<string>(hiddenTraders);
     if (newSet.has(trader)) {
       newSet.delete(trader);
     } else {
       newSet.add(trader);
     }
-    setActiveTraders(newSet);
+    updateHidden(newSet);
   };
 
   const toggleAll = () => {
     if (activeTraders.size === traders.length) {
-        setActiveTraders(new Set());
+        updateHidden(new Set(traders));
     } else {
-        setActiveTraders(new Set(traders));
+        updateHidden(new Set<string>());
     }
   };
 
@@ -47,7 +53,7 @@ export const TraderGraphs: React.FC<TraderGraphsProps> = ({ pnlData, winRateData
     return uniqueTimestamps.map(ts => {
         const point: any = { 
             timestamp: ts, 
-            date: new Date(ts).toLocaleString(undefined, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' }) 
+            date: formatDateTime(ts, timezone, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' }) 
         };
 
         const updates = flatData.filter(d => d.timestamp === ts);
@@ -73,7 +79,7 @@ export const TraderGraphs: React.FC<TraderGraphsProps> = ({ pnlData, winRateData
     return uniqueTimestamps.map(ts => {
         const point: any = { 
             timestamp: ts, 
-            date: new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric' }) 
+            date: formatDateTime(ts, timezone, { month: 'short', day: 'numeric' }) 
         };
 
         traders.forEach(t => point[t] = 0); // Initialize to 0
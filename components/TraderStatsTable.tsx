@@ -1,11 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { TraderStats } from '../types';
-import { ArrowUp, ArrowDown, Settings } from 'lucide-react';
+import { TraderStats, ConfidenceInterval } from '../types';
+import { ArrowUp, ArrowDown, Settings, AlertTriangle } from 'lucide-react';
+import { CategoryBadge } from './CategoryBadge';
+import { DEFAULT_MIN_SAMPLE_SIZE } from '../services/significance';
 
 interface TraderStatsTableProps {
   stats: TraderStats[];
+  initialVisibleColumns?: string[] | null;
+  onVisibleColumnsChange?: (columns: string[]) => void;
 }
 
+const DEFAULT_VISIBLE_COLUMNS = [
+  'name', 'favoriteCategory', 'totalPnl', 'tradeCount', 'winRate', 'breakEvenWinRate', 'pValue', 'meanRoi',
+  'avgEdgeCents', 'profitFactor', 'sharpeRatio', 'maxDrawdown', 'totalAttempts', 'avgHoldingTimeHours', 'longShortRatio', 'avgTradesPerDay', 'avgSuccessfulBet'
+];
+
+// Below this p-value a win rate above break-even is unlikely to be luck
+const SIGNIFICANCE_THRESHOLD = 0.05;
+
+const renderInterval = (ci: ConfidenceInterval, digits: number, suffix = '') => (
+  <div className="text-[10px] text-gray-500">{ci.low.toFixed(digits)}{suffix} – {ci.high.toFixed(digits)}{suffix}</div>
+);
+
 type SortKey = keyof TraderStats;
 type SortDirection = 'asc' | 'desc';
 
@@ -16,17 +32,18 @@ interface ColumnConfig {
   render: (stat: TraderStats) => React.ReactNode;
 }
 
-export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats }) => {
+export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats, initialVisibleColumns, onVisibleColumnsChange }) => {
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ 
     key: 'totalPnl', 
     direction: 'desc' 
   });
 
-  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set([
-    'name', 'favoriteCategory', 'totalPnl', 'winRate', 'profitFactor', 'sharpeRatio', 
-    'totalAttempts', 'avgHoldingTimeHours', 'longShortRatio', 'avgTradesPerDay', 'avgSuccessfulBet'
-  ]));
+  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set(initialVisibleColumns || DEFAULT_VISIBLE_COLUMNS));
   const [showColumnSelector, setShowColumnSelector] = useState(false);
+  const [minSampleSize, setMinSampleSize] = useState(DEFAULT_MIN_SAMPLE_SIZE);
+  const [hideSmallSamples, setHideSmallSamples] = useState(false);
+
+  const isSmallSample = (t: TraderStats) => t.tradeCount < minSampleSize;
 
   // Column Definitions
   const columns: ColumnConfig[] = [
@@ -34,21 +51,22 @@ export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats }) =>
         id: 'name', 
         label: 'Trader', 
         align: 'left',
-        render: (t) => <span className="font-medium text-white">{t.name}</span>
+        render: (t) => (
+            <span className={`font-medium flex items-center gap-1.5 ${isSmallSample(t) ? 'text-gray-400' : 'text-white'}`}>
+                {t.name}
+                {isSmallSample(t) && (
+                    <span title={`Only ${t.tradeCount} trades; fewer than ${minSampleSize}`}>
+                        <AlertTriangle className="w-3 h-3 text-yellow-500" />
+                    </span>
+                )}
+            </span>
+        )
     },
     { 
         id: 'favoriteCategory', 
         label: 'Fav Category', 
         align: 'left',
-        render: (t) => (
-            <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${
-                t.favoriteCategory === 'Sport' 
-                ? 'bg-orange-500/10 text-orange-400 border-orange-500/20' 
-                : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'
-            }`}>
-                {t.favoriteCategory}
-            </span>
-        )
+        render: (t) => <CategoryBadge category={t.favoriteCategory} />
     },
     { 
         id: 'totalPnl', 
@@ -59,10 +77,84 @@ export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats }) =>
             </span>
         )
     },
+    { 
+        id: 'realizedPnl', 
+        label: 'Realized', 
+        render: (t) => (
+            <span className={t.realizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {t.realizedPnl >= 0 ? '+' : ''}${t.realizedPnl.toFixed(2)}
+            </span>
+        )
+    },
+    { 
+        id: 'unrealizedPnl', 
+        label: 'Unrealized', 
+        render: (t) => (
+            <span className={t.unrealizedPnl >= 0 ? 'text-green-400/70' : 'text-red-400/70'}>
+                {t.unrealizedPnl >= 0 ? '+' : ''}${t.unrealizedPnl.toFixed(2)}
+            </span>
+        )
+    },
+    { 
+        id: 'tradeCount', 
+        label: 'Trades', 
+        render: (t) => <span className={isSmallSample(t) ? 'text-yellow-500' : ''}>{t.tradeCount}</span>
+    },
     { 
         id: 'winRate', 
         label: 'Win Rate', 
-        render: (t) => <span>{t.winRate.toFixed(1)}%</span>
+        render: (t) => (
+            <div>
+                <span>{t.winRate.toFixed(1)}%</span>
+                {renderInterval(t.winRateCI, 0, '%')}
+            </div>
+        )
+    },
+    { 
+        id: 'breakEvenWinRate', 
+        label: 'B/E Win Rate', 
+        render: (t) => <span className="text-gray-400">{t.breakEvenWinRate === null ? '-' : `${t.breakEvenWinRate.toFixed(1)}%`}</span>
+    },
+    { 
+        id: 'pValue', 
+        label: 'p-value', 
+        render: (t) => t.pValue === null
+            ? <span className="text-gray-600">-</span>
+            : (
+                <span
+                    className={t.pValue < SIGNIFICANCE_THRESHOLD ? 'text-green-400 font-bold' : 'text-gray-400'}
+                    title="Chance of at least this many wins if every BUY won with probability equal to its entry price"
+                >
+                    {t.pValue < 0.001 ? '<0.001' : t.pValue.toFixed(3)}
+                </span>
+            )
+    },
+    { 
+        id: 'meanRoi', 
+        label: 'Mean ROI', 
+        render: (t) => (
+            <div>
+                <span className={t.meanRoi >= 0 ? 'text-green-400' : 'text-red-400'}>{t.meanRoi >= 0 ? '+' : ''}{t.meanRoi.toFixed(1)}%</span>
+                {renderInterval(t.meanRoiCI, 1, '%')}
+            </div>
+        )
+    },
+    { 
+        id: 'avgEdgeCents', 
+        label: 'Edge (¢)', 
+        render: (t) => t.avgEdgeCents === null
+            ? <span className="text-gray-600">-</span>
+            : <span className={t.avgEdgeCents >= 0 ? 'text-green-400' : 'text-red-400'}>{t.avgEdgeCents >= 0 ? '+' : ''}{t.avgEdgeCents.toFixed(1)}</span>
+    },
+    { 
+        id: 'brierScore', 
+        label: 'Brier', 
+        render: (t) => <span className="text-gray-400">{t.brierScore === null ? '-' : t.brierScore.toFixed(3)}</span>
+    },
+    { 
+        id: 'logLoss', 
+        label: 'Log Loss', 
+        render: (t) => <span className="text-gray-400">{t.logLoss === null ? '-' : t.logLoss.toFixed(3)}</span>
     },
     { 
         id: 'profitFactor', 
@@ -72,7 +164,37 @@ export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats }) =>
     { 
         id: 'sharpeRatio', 
         label: 'Sharpe', 
-        render: (t) => <span className={`${t.sharpeRatio > 1.5 ? 'text-green-400 font-bold' : 'text-gray-300'}`}>{t.sharpeRatio.toFixed(2)}</span>
+        render: (t) => (
+            <div>
+                <span className={`${t.sharpeRatio > 1.5 ? 'text-green-400 font-bold' : 'text-gray-300'}`}>{t.sharpeRatio.toFixed(2)}</span>
+                {renderInterval(t.sharpeCI, 2)}
+            </div>
+        )
+    },
+    { 
+        id: 'maxDrawdown', 
+        label: 'Max DD', 
+        render: (t) => <span className={t.maxDrawdown > 0 ? 'text-red-400' : 'text-gray-400'}>-${t.maxDrawdown.toFixed(2)}</span>
+    },
+    { 
+        id: 'maxDrawdownDays', 
+        label: 'DD Days', 
+        render: (t) => <span>{t.maxDrawdownDays}</span>
+    },
+    { 
+        id: 'recoveryDays', 
+        label: 'Recovery (d)', 
+        render: (t) => <span className="text-gray-400">{t.recoveryDays === null ? (t.maxDrawdown > 0 ? 'open' : '-') : t.recoveryDays}</span>
+    },
+    { 
+        id: 'calmarRatio', 
+        label: 'Calmar', 
+        render: (t) => <span>{t.calmarRatio.toFixed(2)}</span>
+    },
+    { 
+        id: 'sortinoRatio', 
+        label: 'Sortino', 
+        render: (t) => <span>{t.sortinoRatio.toFixed(2)}</span>
     },
     { 
         id: 'totalAttempts', 
@@ -120,23 +242,26 @@ export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats }) =>
   };
 
   const sortedStats = useMemo(() => {
-    const sorted = [...stats];
+    const sorted = hideSmallSamples ? stats.filter(t => !isSmallSample(t)) : [...stats];
     sorted.sort((a, b) => {
       const aValue = a[sortConfig.key];
       const bValue = b[sortConfig.key];
 
+      // Traders without a value (e.g. no p-value) sort last either way
+      if (aValue === null || bValue === null) return aValue === bValue ? 0 : aValue === null ? 1 : -1;
       if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
       if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
     return sorted;
-  }, [stats, sortConfig]);
+  }, [stats, sortConfig, hideSmallSamples, minSampleSize]);
 
   const toggleColumn = (id: string) => {
     const newSet = new Set(visibleColumns);
     if (newSet.has(id)) newSet.delete(id);
     else newSet.add(id);
     setVisibleColumns(newSet);
+    onVisibleColumnsChange?.(Array.from(newSet));
   };
 
   const renderSortIcon = (key: SortKey) => {
@@ -149,34 +274,60 @@ export const TraderStatsTable: React.FC<TraderStatsTableProps> = ({ stats }) =>
   return (
     <div className="bg-gray-800 border border-gray-700 rounded-lg overflow-hidden shadow-sm flex flex-col">
       <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-800">
-         <h3 className="text-lg font-bold text-gray-200">Trader Performance Summary</h3>
+         <div>
+            <h3 className="text-lg font-bold text-gray-200">Trader Performance Summary</h3>
+            <p className="text-xs text-gray-500 mt-1">Ranges are 95% bootstrap intervals; p-value tests the win rate against break-even at the entry price.</p>
+         </div>
          
-         {/* Column Toggle */}
-         <div className="relative">
-            <button 
-                onClick={() => setShowColumnSelector(!showColumnSelector)}
-                className="flex items-center gap-2 bg-gray-700 border border-gray-600 hover:bg-gray-600 text-gray-300 px-3 py-2 rounded text-sm transition-all"
-            >
-                <Settings className="w-4 h-4" /> 
-            </button>
+         <div className="flex items-center gap-3">
+            {/* Sample Size Filter */}
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+               Min trades
+               <input
+                   type="number"
+                   min={0}
+                   value={minSampleSize}
+                   onChange={(e) => setMinSampleSize(Math.max(0, parseInt(e.target.value) || 0))}
+                   className="w-16 bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-blue-500"
+               />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer select-none">
+               <input
+                   type="checkbox"
+                   checked={hideSmallSamples}
+                   onChange={(e) => setHideSmallSamples(e.target.checked)}
+                   className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+               />
+               Hide below
+            </label>
+
+            {/* Column Toggle */}
+            <div className="relative">
+               <button 
+                   onClick={() => setShowColumnSelector(!showColumnSelector)}
+                   className="flex items-center gap-2 bg-gray-700 border border-gray-600 hover:bg-gray-600 text-gray-300 px-3 py-2 rounded text-sm transition-all"
+               >
+                   <Settings className="w-4 h-4" /> 
+               </button>
             
-            {showColumnSelector && (
-                <div className="absolute right-0 top-full mt-2 w-56 bg-gray-800 border border-gray-700 rounded shadow-xl z-50 p-2 max-h-80 overflow-y-auto">
-                    <div className="text-xs font-semibold text-gray-500 px-2 py-1 uppercase tracking-wider mb-1">Toggle Columns</div>
-                    {columns.map(col => (
-                        <label key={col.id} className="flex items-center gap-3 p-2 hover:bg-gray-700 rounded cursor-pointer transition-colors">
-                            <input 
-                                type="checkbox" 
-                                checked={visibleColumns.has(col.id)} 
-                                onChange={() => toggleColumn(col.id)}
-                                className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
-                            />
-                            <span className="text-sm text-gray-300">{col.label}</span>
-                        </label>
-                    ))}
-                </div>
-            )}
-        </div>
+               {showColumnSelector && (
+                   <div className="absolute right-0 top-full mt-2 w-56 bg-gray-800 border border-gray-700 rounded shadow-xl z-50 p-2 max-h-80 overflow-y-auto">
+                       <div className="text-xs font-semibold text-gray-500 px-2 py-1 uppercase tracking-wider mb-1">Toggle Columns</div>
+                       {columns.map(col => (
+                           <label key={col.id} className="flex items-center gap-3 p-2 hover:bg-gray-700 rounded cursor-pointer transition-colors">
+                               <input 
+                                   type="checkbox" 
+                                   checked={visibleColumns.has(col.id)} 
+                                   onChange={() => toggleColumn(col.id)}
+                                   className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                               />
+                               <span className="text-sm text-gray-300">{col.label}</span>
+                           </label>
+                       ))}
+                   </div>
+               )}
+           </div>
+         </div>
       </div>
 
       <div className="overflow-x-auto">
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, AlertTriangle, AlertCircle } from 'lucide-react';
+import { ValidationReport, ValidationIssue } from '../types';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  onProceed: () => void;
+  onCancel: () => void;
+}
+
+type SeverityFilter = 'all' | ValidationIssue['severity'];
+
+const FILTER_LABELS: Record<SeverityFilter, string> = {
+  all: 'All',
+  error: 'Errors',
+  warning: 'Warnings'
+};
+
+const MAX_LISTED_ISSUES = 200;
+
+const describeLocation = (issue: ValidationIssue) => {
+  const parts: string[] = [];
+  if (issue.row !== undefined) parts.push(`row ${issue.row + 1}`);
+  if (issue.line !== undefined) parts.push(`line ${issue.line}`);
+  return parts.join(', ') || '—';
+};
+
+export const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ report, onProceed, onCancel }) => {
+  const [filter, setFilter] = useState<SeverityFilter>(report.errorCount > 0 ? 'error' : 'all');
+
+  const issues = filter === 'all' ? report.issues : report.issues.filter(i => i.severity === filter);
+  const listed = issues.slice(0, MAX_LISTED_ISSUES);
+  const { open, closed, activity, ignored } = report.portfolioRows;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-blue-400" />
+            Import Validation
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            <span className={report.errorCount > 0 ? 'text-red-400' : ''}>{report.errorCount} error(s)</span>
+            {' · '}
+            <span className={report.warningCount > 0 ? 'text-yellow-500' : ''}>{report.warningCount} warning(s)</span>
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md border border-gray-600 transition-all"
+          >
+            Back
+          </button>
+          <button
+            onClick={onProceed}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-md shadow-sm transition-all"
+          >
+            Proceed anyway
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="bg-gray-900/50 rounded p-3">
+          <div className="text-xs text-gray-500 uppercase tracking-wider">Portfolio rows</div>
+          <div className="text-gray-200 mt-1">{open} open · {closed} closed · {activity} activity</div>
+        </div>
+        <div className="bg-gray-900/50 rounded p-3">
+          <div className="text-xs text-gray-500 uppercase tracking-wider">Rows ignored</div>
+          <div className={`mt-1 ${ignored > 0 ? 'text-yellow-500' : 'text-gray-200'}`}>{ignored}</div>
+        </div>
+        <div className="bg-gray-900/50 rounded p-3">
+          <div className="text-xs text-gray-500 uppercase tracking-wider">Chat</div>
+          <div className="text-gray-200 mt-1">{report.chatMessages} messages · {report.parsedSignals} signals</div>
+        </div>
+        <div className="bg-gray-900/50 rounded p-3">
+          <div className="text-xs text-gray-500 uppercase tracking-wider">Trade lines dropped</div>
+          <div className={`mt-1 ${report.unparsedTradeLines > 0 ? 'text-yellow-500' : 'text-gray-200'}`}>
+            {report.unparsedTradeLines} of {report.tradeLines}
+          </div>
+        </div>
+      </div>
+
+      {report.ignoredRowsByCategory.length > 0 && (
+        <div className="text-xs text-gray-400">
+          <span className="text-gray-500 uppercase tracking-wider font-semibold mr-2">Ignored by category</span>
+          {report.ignoredRowsByCategory.map(({ category, count }) => (
+            <span key={category} className="inline-block mr-3 font-mono">{category}: {count}</span>
+          ))}
+        </div>
+      )}
+
+      {report.issues.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex rounded border border-gray-600 overflow-hidden w-fit">
+            {(Object.keys(FILTER_LABELS) as SeverityFilter[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setFilter(key)}
+                className={`px-3 py-1.5 text-xs transition-colors ${
+                  filter === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {FILTER_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-900/50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2">File</th>
+                  <th className="px-3 py-2">Where</th>
+                  <th className="px-3 py-2">Field</th>
+                  <th className="px-3 py-2">Reason</th>
+                  <th className="px-3 py-2">Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {listed.map((issue, index) => (
+                  <tr key={index} className="hover:bg-gray-700/30">
+                    <td className="px-3 py-2">
+                      {issue.severity === 'error'
+                        ? <AlertCircle className="w-4 h-4 text-red-400" />
+                        : <AlertTriangle className="w-4 h-4 text-yellow-500" />}
+                    </td>
+                    <td className="px-3 py-2 text-gray-400" title={issue.source}>{issue.source || issue.file}</td>
+                    <td className="px-3 py-2 text-gray-400 whitespace-nowrap">{describeLocation(issue)}</td>
+                    <td className="px-3 py-2 text-gray-300 font-mono">{issue.field || '—'}</td>
+                    <td className="px-3 py-2 text-gray-200">{issue.reason}</td>
+                    <td className="px-3 py-2 text-gray-500 font-mono truncate max-w-xs" title={issue.value}>{issue.value || ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {issues.length > listed.length && (
+            <p className="text-xs text-gray-500">Showing the first {listed.length} of {issues.length} issues.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
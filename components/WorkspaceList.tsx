@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderOpen, Copy, Pencil, Trash2, Check, X } from 'lucide-react';
+import { WorkspaceSummary } from '../types';
+import { listWorkspaces, deleteWorkspace, renameWorkspace, duplicateWorkspace } from '../services/workspaces';
+
+interface WorkspaceListProps {
+  onOpen: (id: string) => void;
+}
+
+export const WorkspaceList: React.FC<WorkspaceListProps> = ({ onOpen }) => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listWorkspaces()
+      .then(setWorkspaces)
+      .catch(err => {
+        console.error('Failed to list workspaces', err);
+        setError('Saved workspaces are unavailable in this browser.');
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = (action: Promise<unknown>) => {
+    action
+      .then(refresh)
+      .catch(err => {
+        console.error(err);
+        setError(err.message || 'Workspace action failed.');
+      });
+  };
+
+  const startRename = (ws: WorkspaceSummary) => {
+    setEditingId(ws.id);
+    setEditName(ws.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) run(renameWorkspace(editingId, editName.trim()));
+    setEditingId(null);
+  };
+
+  const handleDelete = (ws: WorkspaceSummary) => {
+    if (confirm(`Delete workspace "${ws.name}"? This cannot be undone.`)) run(deleteWorkspace(ws.id));
+  };
+
+  if (error) {
+    return <div className="text-xs text-gray-500 text-center">{error}</div>;
+  }
+
+  if (workspaces.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg overflow-hidden shadow-sm">
+      <div className="px-4 py-3 border-b border-gray-700 text-sm font-semibold text-gray-200">Saved Workspaces</div>
+      <ul className="divide-y divide-gray-700">
+        {workspaces.map(ws => (
+          <li key={ws.id} className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-gray-700/30 transition-colors">
+            <div className="flex flex-col min-w-0">
+              {editingId === ws.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded px-2 py-1 outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <button onClick={commitRename} className="p-1 text-green-400 hover:bg-gray-700 rounded"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:bg-gray-700 rounded"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <button onClick={() => onOpen(ws.id)} className="text-sm text-white font-medium truncate text-left hover:text-blue-400 transition-colors" title={ws.name}>
+                  {ws.name}
+                </button>
+              )}
+              <span className="text-xs text-gray-500">
+                {ws.tradeCount} trades · updated {new Date(ws.updatedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => onOpen(ws.id)} title="Open" className="p-2 text-gray-400 hover:text-blue-400 hover:bg-gray-700 rounded transition-colors">
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button onClick={() => run(duplicateWorkspace(ws.id))} title="Duplicate" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors">
+                <Copy className="w-4 h-4" />
+              </button>
+              <button onClick={() => startRename(ws)} title="Rename" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(ws)} title="Delete" className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded transition-colors">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
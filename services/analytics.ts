@@ -1,6 +1,136 @@
-import { ProcessedTrade, AnalyticsResult, TraderStats, TimeSeriesPoint, TradeStatus } from '../types';
+import { ProcessedTrade, AnalyticsResult, TraderStats, TimeSeriesPoint, TradeStatus, DrawdownStats, CategoryStats, CalibrationResult } from '../types';
+import { isFullyExitedLot, isLedgerExit } from './ledger';
+import { CATEGORY_SEPARATOR, UNCATEGORIZED } from './taxonomy';
+import { calculateSharpe, calculateSignificance, tradeReturn } from './significance';
+import { calculateCalibration } from './calibration';
+import { DEFAULT_TIMEZONE, formatDate, hasReadableDate, nextDayInZone, startOfDayInZone } from './time';
+
+const DAYS_PER_YEAR = 365; // Markets trade every day
+
+// Realized PnL is booked when it happened: SELLs on the signal date, settled
+// positions on their close date (entry date when unknown). Unrealized PnL only
+// exists as of the latest snapshot, so it lands on the last day.
+const splitPnl = (t: ProcessedTrade) => {
+    const isClosed = t.matchedPositionStatus === 'Closed' || isLedgerExit(t);
+    const realized = t.realizedPnl ?? (isClosed ? t.pnl || 0 : 0);
+    const unrealized = t.unrealizedPnl ?? (isClosed ? 0 : t.pnl || 0);
+    const bookedAt = t.action !== 'SELL' && t.closedDate ? new Date(t.closedDate).getTime() : new Date(t.date).getTime();
+    return { realized, unrealized, bookedAt: isNaN(bookedAt) ? new Date(t.date).getTime() : bookedAt };
+};
+
+// One point per calendar day (in `timezone`) from the first entry to `endDay`
+const buildDailyEquity = (trades: ProcessedTrade[], endDay: number, timezone: string): TimeSeriesPoint[] => {
+    if (trades.length === 0) return [];
+    const pnlByDay = new Map<number, number>();
+    const book = (day: number, amount: number) => pnlByDay.set(day, (pnlByDay.get(day) || 0) + amount);
+    trades.forEach(t => {
+        const { realized, unrealized, bookedAt } = splitPnl(t);
+        book(Math.min(startOfDayInZone(bookedAt, timezone), endDay), realized);
+        book(endDay, unrealized);
+    });
+
+    const series: TimeSeriesPoint[] = [];
+    let day = startOfDayInZone(trades.reduce((min, t) => Math.min(min, new Date(t.date).getTime()), Infinity), timezone);
+    let equity = 0;
+    let peak = 0;
+    while (day <= endDay) {
+        equity += pnlByDay.get(day) || 0;
+        peak = Math.max(peak, equity);
+        series.push({
+            date: formatDate(day, timezone),
+            timestamp: day,
+            value: equity,
+            drawdown: equity - peak
+        });
+        day = nextDayInZone(day, timezone);
+    }
+    return series;
+};
+
+const calculateDrawdownStats = (series: TimeSeriesPoint[]): DrawdownStats => {
+    let peak = 0;
+    let peakIdx = -1; // The zero baseline before the first day
+    let maxDrawdown = 0;
+    let maxPeak = 0;
+    let troughIdx = -1;
+    let underwaterSince: number | null = null;
+    let maxDrawdownDays = 0;
+
+    series.forEach((p, i) => {
+        if (p.value >= peak) {
+            if (underwaterSince !== null) maxDrawdownDays = Math.max(maxDrawdownDays, i - underwaterSince);
+            underwaterSince = null;
+            peak = p.value;
+            peakIdx = i;
+            return;
+        }
+        if (underwaterSince === null) underwaterSince = peakIdx;
+        if (peak - p.value > maxDrawdown) {
+            maxDrawdown = peak - p.value;
+            maxPeak = peak;
+            troughIdx = i;
+        }
+    });
+    if (underwaterSince !== null) maxDrawdownDays = Math.max(maxDrawdownDays, series.length - 1 - underwaterSince);
+
+    let recoveryDays: number | null = null;
+    if (troughIdx !== -1) {
+        const recoveredIdx = series.findIndex((p, i) => i > troughIdx && p.value >= maxPeak);
+        recoveryDays = recoveredIdx === -1 ? null : recoveredIdx - troughIdx;
+    }
+
+    const finalPnl = series.length > 0 ? series[series.length - 1].value : 0;
+    const annualizedPnl = series.length > 0 ? (finalPnl / series.length) * DAYS_PER_YEAR : 0;
+    const calmarRatio = maxDrawdown > 0 ? annualizedPnl / maxDrawdown : 0;
+
+    const dailyChanges = series.map((p, i) => p.value - (i > 0 ? series[i - 1].value : 0));
+    let sortinoRatio = 0;
+    if (dailyChanges.length > 1) {
+        const avgChange = dailyChanges.reduce((a, b) => a + b, 0) / dailyChanges.length;
+        const downsideDev = Math.sqrt(dailyChanges.reduce((a, b) => a + Math.pow(Math.min(0, b), 2), 0) / dailyChanges.length);
+        sortinoRatio = downsideDev === 0 ? 0 : (avgChange / downsideDev) * Math.sqrt(DAYS_PER_YEAR);
+    }
+
+    return { maxDrawdown, maxDrawdownDays, recoveryDays, calmarRatio, sortinoRatio };
+};
+
+// Stats per category path plus a roll-up row for every top-level category,
+// ordered by top-level PnL with subcategories under their parent
+const calculateCategoryBreakdown = (trades: ProcessedTrade[]): CategoryStats[] => {
+    const groups = new Map<string, ProcessedTrade[]>();
+    const add = (key: string, t: ProcessedTrade) => {
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(t);
+    };
+    trades.forEach(t => {
+        const path = t.category || UNCATEGORIZED;
+        const top = path.split(CATEGORY_SEPARATOR)[0];
+        add(top, t);
+        if (path !== top) add(path, t);
+    });
+
+    const stats: CategoryStats[] = Array.from(groups.entries()).map(([category, cTrades]) => ({
+        category,
+        depth: category.split(CATEGORY_SEPARATOR).length - 1,
+        tradeCount: cTrades.length,
+        totalPnl: cTrades.reduce((sum, t) => sum + (t.pnl || 0), 0),
+        winRate: (cTrades.filter(t => (t.pnl || 0) > 0).length / cTrades.length) * 100,
+        volume: cTrades.reduce((sum, t) => sum + (t.matchedExecutionAmount || 0), 0)
+    }));
+
+    const topLevel = stats.filter(s => s.depth === 0).sort((a, b) => b.totalPnl - a.totalPnl);
+    return topLevel.flatMap(parent => [
+        parent,
+        ...stats
+            .filter(s => s.depth > 0 && s.category.startsWith(parent.category + CATEGORY_SEPARATOR))
+            .sort((a, b) => b.totalPnl - a.totalPnl)
+    ]);
+};
+
+// Days are bucketed and labelled in `timezone`; trades without a readable date are left out
+export const calculateAnalytics = (allTrades: ProcessedTrade[], timezone: string = DEFAULT_TIMEZONE): AnalyticsResult => {
+    const trades = allTrades.filter(hasReadableDate);
 
-export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult => {
     // 1. Calculate Attempts (using all trades)
     const attemptsByTrader: Record<string, number> = {};
     trades.forEach(t => {
@@ -10,19 +140,37 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
     // Filter for successful trades only for performance stats
     const successfulTrades = trades.filter(t => 
         t.status === TradeStatus.SUCCESS && 
-        (t.matchedPositionStatus === 'Active' || t.matchedPositionStatus === 'Closed') &&
-        t.pnl !== undefined
+        (t.matchedPositionStatus === 'Active' || t.matchedPositionStatus === 'Closed' || isLedgerExit(t)) &&
+        t.pnl !== undefined &&
+        !isFullyExitedLot(t)
     );
 
+    // Last day of the equity series: the latest entry or settlement seen (null without executed trades)
+    // (reduce, not a spread: Math.max(...) runs out of arguments on very large exports)
+    const equityEndDay = successfulTrades.length > 0 ? startOfDayInZone(successfulTrades.reduce((max, t) => Math.max(
+        max,
+        new Date(t.date).getTime(),
+        t.closedDate ? new Date(t.closedDate).getTime() || 0 : 0
+    ), -Infinity), timezone) : null;
+
     const tradesByTrader: Record<string, ProcessedTrade[]> = {};
     successfulTrades.forEach(t => {
         if (!tradesByTrader[t.traderName]) tradesByTrader[t.traderName] = [];
         tradesByTrader[t.traderName].push(t);
     });
 
+    // Calibration scores every settled BUY, including lots already sold before settlement
+    const calibration = calculateCalibration(trades);
+    const calibrationByTrader: Record<string, CalibrationResult> = {};
+    Object.keys(tradesByTrader).forEach(trader => {
+        calibrationByTrader[trader] = calculateCalibration(trades.filter(t => t.traderName === trader));
+    });
+
     const traderStats: TraderStats[] = Object.keys(tradesByTrader).map(trader => {
         const tTrades = tradesByTrader[trader];
         const totalPnl = tTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+        const realizedPnl = tTrades.reduce((sum, t) => sum + (t.realizedPnl || 0), 0);
+        const unrealizedPnl = tTrades.reduce((sum, t) => sum + (t.unrealizedPnl || 0), 0);
         const wins = tTrades.filter(t => (t.pnl || 0) > 0);
         const losses = tTrades.filter(t => (t.pnl || 0) <= 0);
         const winRate = tTrades.length > 0 ? (wins.length / tTrades.length) * 100 : 0;
@@ -37,25 +185,13 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
 
         const avgBet = tTrades.reduce((sum, t) => sum + (t.matchedExecutionAmount || 0), 0) / tTrades.length;
         
-        const bestTrade = Math.max(...tTrades.map(t => t.pnl || 0));
-        const worstTrade = Math.min(...tTrades.map(t => t.pnl || 0));
+        const bestTrade = tTrades.reduce((max, t) => Math.max(max, t.pnl || 0), -Infinity);
+        const worstTrade = tTrades.reduce((min, t) => Math.min(min, t.pnl || 0), Infinity);
 
         // Calculate Sharpe Ratio (based on per-trade ROI)
         // ROI = PnL / Investment. 
         // We use matchedExecutionAmount as investment. Fallback to 'amount' (signal amount) if missing.
-        const returns = tTrades.map(t => {
-            const invested = t.matchedExecutionAmount || t.amount || 0;
-            if (invested <= 0) return 0;
-            return (t.pnl || 0) / invested;
-        });
-        
-        let sharpeRatio = 0;
-        if (returns.length > 1) {
-            const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-            const variance = returns.reduce((a, b) => a + Math.pow(b - avgReturn, 2), 0) / returns.length;
-            const stdDev = Math.sqrt(variance);
-            sharpeRatio = stdDev === 0 ? 0 : avgReturn / stdDev;
-        }
+        const sharpeRatio = calculateSharpe(tTrades.map(tradeReturn));
 
         // Avg Holding Time (Heuristic: ClosedDate - TradeDate)
         let totalHoldHours = 0;
@@ -74,19 +210,28 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
 
         // Freq
         const dates = tTrades.map(t => new Date(t.date).getTime());
-        const minDate = Math.min(...dates);
-        const maxDate = Math.max(...dates);
+        const minDate = dates.reduce((a, b) => Math.min(a, b));
+        const maxDate = dates.reduce((a, b) => Math.max(a, b));
         const daysDiff = Math.max(1, (maxDate - minDate) / (1000 * 60 * 60 * 24));
         const avgTradesPerDay = tTrades.length / daysDiff;
 
-        // Favorite Category
-        const sportCount = tTrades.filter(t => t.category === 'Sport').length;
-        const nonSportCount = tTrades.filter(t => t.category === 'Non-Sport').length;
-        const favoriteCategory = sportCount >= nonSportCount ? 'Sport' : 'Non-Sport';
+        // Favorite Category (most trades; ties go to the first seen)
+        const categoryCounts: Record<string, number> = {};
+        tTrades.forEach(t => { categoryCounts[t.category] = (categoryCounts[t.category] || 0) + 1; });
+        const favoriteCategory = Object.keys(categoryCounts).reduce(
+            (best, c) => categoryCounts[c] > (categoryCounts[best] || 0) ? c : best,
+            UNCATEGORIZED
+        );
+
+        const drawdown = calculateDrawdownStats(buildDailyEquity(tTrades, equityEndDay!, timezone));
+        const significance = calculateSignificance(tTrades, trader);
+        const { buckets, ...calibrationScores } = calibrationByTrader[trader];
 
         return {
             name: trader,
             totalPnl,
+            realizedPnl,
+            unrealizedPnl,
             winRate,
             profitFactor,
             sharpeRatio,
@@ -97,7 +242,10 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
             bestTrade,
             worstTrade,
             avgSuccessfulBet: avgBet, // Using executed amount as proxy
-            favoriteCategory
+            favoriteCategory,
+            ...drawdown,
+            ...significance,
+            ...calibrationScores
         };
     });
 
@@ -115,13 +263,17 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
         totalCount++;
         
         return {
-            date: new Date(t.date).toLocaleDateString(),
+            date: formatDate(new Date(t.date).getTime(), timezone),
             timestamp: new Date(t.date).getTime(),
             value: runningPnl,
             winRate: (winCount / totalCount) * 100
         };
     });
 
+    // 2b. Daily Equity (PnL booked when realized) and its drawdowns
+    const dailyEquity = equityEndDay === null ? [] : buildDailyEquity(successfulTrades, equityEndDay, timezone);
+    const drawdown = calculateDrawdownStats(dailyEquity);
+
     // 3. Per Trader Time Series (Cumulative)
     const pnlOverTimeByTrader: TimeSeriesPoint[] = [];
     const winRateOverTimeByTrader: TimeSeriesPoint[] = [];
@@ -138,7 +290,7 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
             tCount++;
 
             const pt = {
-                date: new Date(t.date).toLocaleDateString(),
+                date: formatDate(new Date(t.date).getTime(), timezone),
                 timestamp: new Date(t.date).getTime(),
                 trader: trader,
                 value: 0
@@ -153,9 +305,7 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
     const dailyCountsMap: Record<number, Record<string, number>> = {};
     
     successfulTrades.forEach(t => {
-        const d = new Date(t.date);
-        d.setHours(0, 0, 0, 0); // Normalize to start of day
-        const ts = d.getTime();
+        const ts = startOfDayInZone(new Date(t.date).getTime(), timezone); // Normalize to start of day
         
         if (!dailyCountsMap[ts]) dailyCountsMap[ts] = {};
         dailyCountsMap[ts][t.traderName] = (dailyCountsMap[ts][t.traderName] || 0) + 1;
@@ -166,7 +316,7 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
         const ts = parseInt(tsStr);
         Object.entries(traderCounts).forEach(([trader, count]) => {
              dailyTradeCounts.push({
-                date: new Date(ts).toLocaleDateString(),
+                date: formatDate(ts, timezone),
                 timestamp: ts,
                 value: count,
                 trader: trader
@@ -176,7 +326,12 @@ export const calculateAnalytics = (trades: ProcessedTrade[]): AnalyticsResult =>
 
     return {
         traderStats,
+        categoryBreakdown: calculateCategoryBreakdown(successfulTrades),
+        calibration,
+        calibrationByTrader,
         overallTimeSeries,
+        dailyEquity,
+        drawdown,
         pnlOverTimeByTrader,
         winRateOverTimeByTrader,
         dailyTradeCounts
@@ -0,0 +1,162 @@
+import { ParsedInputs, ProcessedTrade, PortfolioRow, ClockOffsets, BalancePoint, BalanceSnapshot, BalanceFailure, BalanceTimeline, TiedUpPosition } from '../types';
+import { simplify } from './matching';
+import { DEFAULT_CLOCK_OFFSETS, hasReadableDate, parseChatTimestamp } from './time';
+
+export const INSUFFICIENT_BALANCE_REASON = 'Insufficient Balance';
+
+// Activity kinds that move USDC out of or into the wallet; anything else is skipped
+export const DEBIT_KINDS = ['BUY', 'SPLIT'];
+export const CREDIT_KINDS = ['SELL', 'REDEEM', 'MERGE', 'REWARD'];
+
+// Positions listed per failure; the tied-up total still covers all of them
+export const TIED_UP_POSITION_LIMIT = 5;
+
+type BalanceInputs = Pick<ParsedInputs, 'chatLogs' | 'activityHistory' | 'dialect'>;
+
+interface Flow {
+  time: number;
+  change: number;
+  kind: string;
+  row: PortfolioRow;
+}
+
+interface HeldPosition extends TiedUpPosition {
+  slug: string;
+}
+
+// Trade rows carry the side; other rows (redemptions, merges) only a type
+const activityKind = (row: PortfolioRow) => {
+  const type = row.type?.trim().toUpperCase();
+  return type && type !== 'TRADE' ? type : row.side?.trim().toUpperCase() || '';
+};
+
+const readFlows = (rows: PortfolioRow[], activitySeconds: number) => {
+  const flows: Flow[] = [];
+  let skipped = 0;
+  rows.forEach(row => {
+    const kind = activityKind(row);
+    const amount = row.usdcSize || (row.size && row.price ? row.size * row.price : 0);
+    const sign = DEBIT_KINDS.includes(kind) ? -1 : CREDIT_KINDS.includes(kind) ? 1 : 0;
+    if (!row.timestamp || !amount || !sign) {
+      skipped++;
+      return;
+    }
+    flows.push({ time: (row.timestamp + activitySeconds) * 1000, change: sign * amount, kind, row });
+  });
+  return { flows: flows.sort((a, b) => a.time - b.time), skipped };
+};
+
+const readSnapshots = (inputs: BalanceInputs, chatSeconds: number) => {
+  const parse = inputs.dialect.parseBalance;
+  if (!parse) return [];
+  const snapshots: { time: number; reported: number }[] = [];
+  inputs.chatLogs.forEach(log => {
+    const reported = parse(log.content);
+    const time = parseChatTimestamp(log.date, chatSeconds).getTime();
+    // An unreadable date can't be placed on the timeline (and would break the sort)
+    if (reported === null || !Number.isFinite(time)) return;
+    snapshots.push({ time, reported });
+  });
+  return snapshots.sort((a, b) => a.time - b.time);
+};
+
+const positionKey = (row: PortfolioRow) => row.asset || `${simplify(row.slug)}|${simplify(row.outcome)}`;
+
+// Replays share holdings alongside the cash, so a failure can list what was holding the money
+const applyToPositions = (held: Map<string, HeldPosition>, flow: Flow) => {
+  const { row, kind } = flow;
+  if (kind === 'BUY') {
+    const key = positionKey(row);
+    const position = held.get(key) || { slug: simplify(row.slug), market: row.title || row.slug, outcome: row.outcome || '', shares: 0, cost: 0 };
+    position.shares += row.size || 0;
+    position.cost -= flow.change;
+    held.set(key, position);
+  } else if (kind === 'SELL') {
+    const key = positionKey(row);
+    const position = held.get(key);
+    if (!position) return;
+    const sold = Math.min(row.size || 0, position.shares);
+    position.cost -= position.shares > 0 ? position.cost * (sold / position.shares) : 0;
+    position.shares -= sold;
+    if (position.shares <= 1e-9) held.delete(key);
+  } else if (kind === 'REDEEM') {
+    // A redemption pays out every outcome of the market at once
+    const slug = simplify(row.slug);
+    held.forEach((position, key) => {
+      if (position.slug === slug) held.delete(key);
+    });
+  }
+};
+
+// Replays the wallet's USDC from activity rows: buys debit usdcSize, sells and redemptions
+// credit it. Without a starting balance the earliest cash balance reported in chat fixes
+// the level; with neither the timeline starts at zero and only the changes are meaningful.
+export const reconstructBalance = (
+  inputs: BalanceInputs,
+  trades: ProcessedTrade[],
+  startingBalance: number | null = null,
+  clockOffsets: ClockOffsets = DEFAULT_CLOCK_OFFSETS
+): BalanceTimeline => {
+  const { flows, skipped } = readFlows(inputs.activityHistory, clockOffsets.activitySeconds);
+  const reportedSnapshots = readSnapshots(inputs, clockOffsets.chatSeconds);
+
+  const changeUpTo = (time: number) => flows.reduce((sum, f) => f.time <= time ? sum + f.change : sum, 0);
+
+  let start = 0;
+  let source: BalanceTimeline['startingBalanceSource'] = 'none';
+  if (startingBalance !== null) {
+    start = startingBalance;
+    source = 'input';
+  } else if (reportedSnapshots.length > 0) {
+    start = reportedSnapshots[0].reported - changeUpTo(reportedSnapshots[0].time);
+    source = 'chat';
+  }
+
+  const failedTrades = trades
+    .filter(t => t.failureReason === INSUFFICIENT_BALANCE_REASON && hasReadableDate(t))
+    .map(trade => ({ trade, time: new Date(trade.date).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  // One sweep through the flows, stopping at each failure to record the wallet's state
+  const points: BalancePoint[] = [];
+  const failures: BalanceFailure[] = [];
+  const held = new Map<string, HeldPosition>();
+  let balance = start;
+  let lowest = start;
+  let next = 0;
+  const recordFailures = (until: number) => {
+    while (next < failedTrades.length && failedTrades[next].time < until) {
+      const { trade, time } = failedTrades[next++];
+      const positions = Array.from(held.values()).sort((a, b) => b.cost - a.cost);
+      failures.push({
+        trade,
+        time,
+        balance,
+        shortfall: Math.max(0, trade.amount - balance),
+        tiedUp: positions.reduce((sum, p) => sum + p.cost, 0),
+        positions: positions.slice(0, TIED_UP_POSITION_LIMIT).map(({ market, outcome, shares, cost }) => ({ market, outcome, shares, cost }))
+      });
+    }
+  };
+
+  flows.forEach(flow => {
+    recordFailures(flow.time);
+    balance += flow.change;
+    lowest = Math.min(lowest, balance);
+    applyToPositions(held, flow);
+    points.push({ time: flow.time, balance, change: flow.change, kind: flow.kind, market: flow.row.title || flow.row.slug });
+  });
+  recordFailures(Infinity);
+
+  const snapshots: BalanceSnapshot[] = reportedSnapshots.map(s => ({ ...s, reconstructed: start + changeUpTo(s.time) }));
+
+  return {
+    startingBalance: start,
+    startingBalanceSource: source,
+    points,
+    snapshots,
+    failures,
+    lowestBalance: lowest,
+    skippedRows: skipped
+  };
+};
@@ -0,0 +1,64 @@
+import { ProcessedTrade, TradeStatus, CalibrationBucket, CalibrationResult } from '../types';
+
+export const CALIBRATION_BUCKET_COUNT = 10; // 10c wide entry price buckets
+
+// Keeps log loss finite for trades entered at (nearly) 0 or 1
+const PROBABILITY_EPSILON = 1e-6;
+
+// Settled BUYs with a usable entry price: the price is the market-implied
+// probability of the outcome bought, the settlement says whether it happened
+const isCalibrated = (t: ProcessedTrade) =>
+  t.status === TradeStatus.SUCCESS &&
+  t.action === 'BUY' &&
+  (t.result === 'WIN' || t.result === 'LOSS') &&
+  t.matchedExecutionPrice !== undefined &&
+  t.matchedExecutionPrice > 0 &&
+  t.matchedExecutionPrice < 1;
+
+export const calculateCalibration = (trades: ProcessedTrade[]): CalibrationResult => {
+  const scored = trades.filter(isCalibrated).map(t => ({
+    price: t.matchedExecutionPrice!,
+    outcome: t.result === 'WIN' ? 1 : 0
+  }));
+
+  if (scored.length === 0) {
+    return { calibrationTrades: 0, brierScore: null, logLoss: null, avgEdgeCents: null, buckets: [] };
+  }
+
+  let brier = 0;
+  let logLoss = 0;
+  let edge = 0;
+  const bucketed: { price: number; outcome: number }[][] = Array.from({ length: CALIBRATION_BUCKET_COUNT }, () => []);
+
+  scored.forEach(s => {
+    const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, s.price));
+    brier += Math.pow(s.price - s.outcome, 2);
+    logLoss -= s.outcome * Math.log(p) + (1 - s.outcome) * Math.log(1 - p);
+    edge += s.outcome - s.price;
+    bucketed[Math.min(CALIBRATION_BUCKET_COUNT - 1, Math.floor(s.price * CALIBRATION_BUCKET_COUNT))].push(s);
+  });
+
+  const width = 100 / CALIBRATION_BUCKET_COUNT;
+  const buckets: CalibrationBucket[] = [];
+  bucketed.forEach((bucket, i) => {
+    if (bucket.length === 0) return;
+    const implied = bucket.reduce((a, s) => a + s.price, 0) / bucket.length;
+    const realized = bucket.reduce((a, s) => a + s.outcome, 0) / bucket.length;
+    buckets.push({
+      lower: i * width,
+      upper: (i + 1) * width,
+      count: bucket.length,
+      impliedProbability: implied * 100,
+      realizedWinRate: realized * 100,
+      edgeCents: (realized - implied) * 100
+    });
+  });
+
+  return {
+    calibrationTrades: scored.length,
+    brierScore: brier / scored.length,
+    logLoss: logLoss / scored.length,
+    avgEdgeCents: (edge / scored.length) * 100,
+    buckets
+  };
+};
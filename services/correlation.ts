@@ -0,0 +1,147 @@
+import { ProcessedTrade, TradeStatus, TraderPairStats, TraderCorrelationReport } from '../types';
+import { marketKey } from './markets';
+import { simplify } from './matching';
+import { DEFAULT_TIMEZONE, dayKey, hasReadableDate } from './time';
+
+// Pearson needs a handful of days before it means anything
+export const MIN_CORRELATION_DAYS = 5;
+
+// Two traders are flagged as one signal source when, over enough shared markets, they
+// mostly trade the same markets, agree on the outcome and signal within minutes of each other
+export const SAME_SOURCE_THRESHOLDS = {
+  minSharedMarkets: 5,
+  minJaccard: 0.5,
+  minAgreementRate: 0.9,
+  maxLeadMinutes: 10
+};
+
+interface TraderProfile {
+  firstSignal: Map<string, number>; // Market -> ms of the first signal
+  firstBuyOutcome: Map<string, string>; // Market -> simplified outcome of the first BUY
+  dailyPnl: Map<string, number>; // Day -> PnL of filled signals that day
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const pearson = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  // A trader with the same PnL every day has no defined correlation
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+};
+
+const buildProfiles = (trades: ProcessedTrade[], timezone: string) => {
+  const profiles = new Map<string, TraderProfile>();
+  trades
+    .filter(hasReadableDate)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(t => {
+      const market = marketKey(t);
+      if (!market) return;
+      if (!profiles.has(t.traderName)) {
+        profiles.set(t.traderName, { firstSignal: new Map(), firstBuyOutcome: new Map(), dailyPnl: new Map() });
+      }
+      const profile = profiles.get(t.traderName)!;
+      const time = new Date(t.date).getTime();
+      if (!profile.firstSignal.has(market)) profile.firstSignal.set(market, time);
+      if (t.action === 'BUY' && !profile.firstBuyOutcome.has(market)) profile.firstBuyOutcome.set(market, simplify(t.outcome));
+      if (t.status === TradeStatus.SUCCESS && t.pnl !== undefined) {
+        const day = dayKey(time, timezone);
+        profile.dailyPnl.set(day, (profile.dailyPnl.get(day) || 0) + t.pnl);
+      }
+    });
+  return profiles;
+};
+
+const comparePair = (traderA: string, a: TraderProfile, traderB: string, b: TraderProfile): TraderPairStats => {
+  const shared = Array.from(a.firstSignal.keys()).filter(m => b.firstSignal.has(m));
+  const union = a.firstSignal.size + b.firstSignal.size - shared.length;
+
+  let agreements = 0;
+  let disagreements = 0;
+  let aFirst = 0;
+  let bFirst = 0;
+  const leads: number[] = [];
+  shared.forEach(market => {
+    const outcomeA = a.firstBuyOutcome.get(market);
+    const outcomeB = b.firstBuyOutcome.get(market);
+    if (outcomeA !== undefined && outcomeB !== undefined) {
+      if (outcomeA === outcomeB) agreements++;
+      else disagreements++;
+    }
+    const lead = b.firstSignal.get(market)! - a.firstSignal.get(market)!;
+    if (lead > 0) aFirst++;
+    else if (lead < 0) bFirst++;
+    leads.push(lead / 60000);
+  });
+
+  // Days either trader had filled PnL; a quiet day counts as zero
+  const days = Array.from(new Set([...a.dailyPnl.keys(), ...b.dailyPnl.keys()]));
+  const pnlCorrelation = days.length >= MIN_CORRELATION_DAYS
+    ? pearson(days.map(d => a.dailyPnl.get(d) || 0), days.map(d => b.dailyPnl.get(d) || 0))
+    : null;
+
+  const jaccard = union > 0 ? shared.length / union : 0;
+  const agreementRate = agreements + disagreements > 0 ? agreements / (agreements + disagreements) : null;
+  const medianLeadMinutes = median(leads);
+  const t = SAME_SOURCE_THRESHOLDS;
+
+  return {
+    traderA,
+    traderB,
+    sharedMarkets: shared.length,
+    jaccard,
+    agreements,
+    disagreements,
+    agreementRate,
+    pnlCorrelation,
+    correlationDays: days.length,
+    aFirst,
+    bFirst,
+    medianLeadMinutes,
+    sameSource: shared.length >= t.minSharedMarkets &&
+      jaccard >= t.minJaccard &&
+      (agreementRate ?? 0) >= t.minAgreementRate &&
+      medianLeadMinutes !== null && Math.abs(medianLeadMinutes) <= t.maxLeadMinutes
+  };
+};
+
+// Pairwise overlap, outcome agreement, daily PnL correlation and lead/lag between traders.
+// All signals count towards overlap and timing; only filled ones towards PnL.
+export const calculateTraderCorrelation = (trades: ProcessedTrade[], timezone: string = DEFAULT_TIMEZONE): TraderCorrelationReport => {
+  const profiles = buildProfiles(trades, timezone);
+  const traders = Array.from(profiles.keys()).sort();
+  const pairs: TraderPairStats[] = [];
+  traders.forEach((a, i) => {
+    traders.slice(i + 1).forEach(b => pairs.push(comparePair(a, profiles.get(a)!, b, profiles.get(b)!)));
+  });
+  return { traders, pairs };
+};
+
+// Stats for an ordered pair, flipping lead/lag when asked for (B, A)
+export const pairStats = (report: TraderCorrelationReport, a: string, b: string): TraderPairStats | undefined => {
+  const pair = report.pairs.find(p => (p.traderA === a && p.traderB === b) || (p.traderA === b && p.traderB === a));
+  if (!pair || pair.traderA === a) return pair;
+  return {
+    ...pair,
+    traderA: a,
+    traderB: b,
+    aFirst: pair.bFirst,
+    bFirst: pair.aFirst,
+    medianLeadMinutes: pair.medianLeadMinutes === null ? null : -pair.medianLeadMinutes
+  };
+};
@@ -0,0 +1,153 @@
+import { ChatDialect, ChatLog, DialectDetection, TradeLineMatch } from '../types';
+
+// Price the trader got, when the bot quotes it: "@ 0.62", "at 62¢", "price: 62c".
+// Market links are removed first so numbers in titles and slugs aren't read as prices.
+const extractPriceText = (line: string): string | undefined => {
+  const text = line.replace(/\[[^\]]*\]\([^)]*\)/g, ' ').replace(/https?:\/\/\S+/g, ' ');
+  const match = text.match(/(?:@|\bat\b|\bprice\b:?)\s*\$?(\d*\.?\d+\s*(?:¢|c\b|cents?\b)?)/i);
+  return match ? match[1].trim() : undefined;
+};
+
+// Cash line of a portfolio summary: "USDC Balance: $1,234.56", "Cash: 80.10", "Available: $12".
+// Cash labels are tried before a bare "Balance", which some bots use for the total with positions.
+const CASH_LABELS = ['usdc(?:\\s+balance)?', 'cash(?:\\s+balance)?', 'available(?:\\s+balance)?', 'balance'];
+
+const extractCashBalance = (content: string): number | null => {
+  for (const label of CASH_LABELS) {
+    const match = content.match(new RegExp(`\\b${label}\\b\\**\\s*[:\\-]?\\s*\\**\\s*\\$?\\s*([0-9][0-9,]*(?:\\.\\d+)?)`, 'i'));
+    if (match) return parseFloat(match[1].replace(/,/g, ''));
+  }
+  return null;
+};
+
+// Markdown format: "**Trader** ... BUY "Yes" $12 [Title](https://polymarket.com/...)"
+// with ⏭️ / ✗ status markers and the bot's English error strings.
+const markdownDialect: ChatDialect = {
+  id: 'markdown-default',
+  name: 'Markdown (default)',
+  description: '**Trader** headers, BUY "Yes" $12 lines, ⏭️/✗ markers',
+  ignoredMessageMarkers: ['Your Polymarket Portfolio'],
+  isTradeLine: (line) => /(BUY|SELL)/i.test(line),
+  parseTradeLine: (line) => {
+    const result: TradeLineMatch = { action: 'Unknown', outcome: '', amountText: '' };
+
+    const tradeMatch = line.match(/(BUY|SELL)[:\s]+(?:["']?([^"'$]+)["']?)?\s+\$([0-9,.]+)/i);
+    if (tradeMatch) {
+      result.action = tradeMatch[1].toUpperCase() as 'BUY' | 'SELL';
+      result.outcome = tradeMatch[2] ? tradeMatch[2].trim() : '';
+      result.amountText = tradeMatch[3];
+    }
+    result.priceText = extractPriceText(line);
+
+    if (!result.outcome) {
+      const simpleMatch = line.match(/(BUY|SELL)\s+(.*?)\s+\$/i);
+      if (simpleMatch) result.outcome = simpleMatch[2].trim();
+    }
+
+    return result;
+  },
+  extractTraderName: (content) => {
+    const match = content.match(/\*\*([^*]+)\*\*/);
+    return match ? match[1].trim() : null;
+  },
+  statusMarkers: [
+    { marker: '⏭️', defaultReason: 'Skipped' },
+    { marker: '✗', defaultReason: 'Execution Failed' }
+  ],
+  failureReasons: [
+    { patterns: ['Insufficient USDC balance'], reason: 'Insufficient Balance' },
+    { patterns: ['Market odds too high', 'Market odds too low'], reason: 'Odds Limit Exceeded' },
+    { patterns: ['Market liquidity too low'], reason: 'Low Liquidity' },
+    { patterns: ['Would exceed max spend limit'], reason: 'Max Spend Limit' },
+    { patterns: ['Balance too small to sell'], reason: 'Balance Too Small' },
+    { patterns: ['Order status: delayed'], reason: 'Delayed/Retrying' },
+    { patterns: ['Failed to buy'], reason: 'Generic Failure' }
+  ],
+  parseBalance: (content) => content.includes('Your Polymarket Portfolio') ? extractCashBalance(content) : null
+};
+
+// Plain-text format without markdown: "Trader: Alice" header and
+// "BOUGHT Yes for $12 https://polymarket.com/..." lines, ❌ / SKIPPED markers.
+const plainTextDialect: ChatDialect = {
+  id: 'plain-text',
+  name: 'Plain text',
+  description: 'Trader: Name headers, BOUGHT/SOLD lines, ❌/SKIPPED markers',
+  ignoredMessageMarkers: ['Portfolio summary', 'Daily report'],
+  isTradeLine: (line) => /\b(BUY|SELL|BOUGHT|SOLD)\b/i.test(line),
+  parseTradeLine: (line) => {
+    const result: TradeLineMatch = { action: 'Unknown', outcome: '', amountText: '' };
+
+    const tradeMatch = line.match(/\b(BUY|SELL|BOUGHT|SOLD)\b[:\s]+["']?(.+?)["']?\s+(?:for\s+)?\$([0-9,.]+)/i);
+    if (tradeMatch) {
+      const verb = tradeMatch[1].toUpperCase();
+      result.action = verb === 'BUY' || verb === 'BOUGHT' ? 'BUY' : 'SELL';
+      result.outcome = tradeMatch[2].trim();
+      result.amountText = tradeMatch[3];
+    }
+    result.priceText = extractPriceText(line);
+
+    return result;
+  },
+  extractTraderName: (content) => {
+    const match = content.match(/^\s*Trader\s*[:\-]\s*(.+?)\s*$/im);
+    return match ? match[1] : null;
+  },
+  statusMarkers: [
+    { marker: 'SKIPPED', defaultReason: 'Skipped' },
+    { marker: '❌', defaultReason: 'Execution Failed' }
+  ],
+  failureReasons: [
+    { patterns: ['Insufficient balance', 'Insufficient funds', 'insufficient balance', 'insufficient funds'], reason: 'Insufficient Balance' },
+    { patterns: ['Odds too high', 'Odds too low', 'Price out of range'], reason: 'Odds Limit Exceeded' },
+    { patterns: ['Liquidity too low', 'Not enough liquidity'], reason: 'Low Liquidity' },
+    { patterns: ['Max spend', 'Spend limit'], reason: 'Max Spend Limit' },
+    { patterns: ['Position too small'], reason: 'Balance Too Small' },
+    { patterns: ['Delayed', 'Retrying'], reason: 'Delayed/Retrying' },
+    { patterns: ['Order failed'], reason: 'Generic Failure' }
+  ],
+  parseBalance: (content) => content.includes('Portfolio summary') ? extractCashBalance(content) : null
+};
+
+export const DEFAULT_DIALECT_ID = markdownDialect.id;
+
+const registry = new Map<string, ChatDialect>([
+  [markdownDialect.id, markdownDialect],
+  [plainTextDialect.id, plainTextDialect]
+]);
+
+// Adds (or replaces, by id) a dialect for bots with their own message format
+export const registerDialect = (dialect: ChatDialect) => {
+  registry.set(dialect.id, dialect);
+};
+
+export const getDialects = (): ChatDialect[] => Array.from(registry.values());
+
+export const getDialect = (id: string): ChatDialect => {
+  const dialect = registry.get(id);
+  if (!dialect) throw new Error(`Unknown chat dialect "${id}"`);
+  return dialect;
+};
+
+// Ranks registered dialects by how many candidate signal messages they can read
+// (a trade line plus a trader name). Ties keep registry order, so the default wins.
+export const detectDialect = (chatLogs: ChatLog[], sampleSize = 500): DialectDetection[] => {
+  const sample = chatLogs
+    .filter(log => log.content && (log.content.includes('polymarket.com') || /(BUY|SELL|BOUGHT|SOLD)/i.test(log.content)))
+    .slice(0, sampleSize);
+
+  const detections = getDialects().map(dialect => {
+    let understood = 0;
+    sample.forEach(log => {
+      if (dialect.ignoredMessageMarkers.some(m => log.content.includes(m))) return;
+      const hasTradeLine = log.content.split('\n').some(line => dialect.isTradeLine(line) && dialect.parseTradeLine(line).action !== 'Unknown');
+      if (hasTradeLine && dialect.extractTraderName(log.content)) understood++;
+    });
+    return {
+      dialectId: dialect.id,
+      name: dialect.name,
+      confidence: sample.length > 0 ? understood / sample.length : 0
+    };
+  });
+
+  return detections.sort((a, b) => b.confidence - a.confidence);
+};
@@ -0,0 +1,13 @@
+// Browser-only helper: triggers a file download for in-memory content.
+export const downloadFile = (content: string, filename: string, mimeType = 'text/csv;charset=utf-8;') => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,110 @@
+import { ProcessedTrade, TradeStatus, ExecutionSample, ExecutionGroup, ExecutionQualityReport } from '../types';
+import { topLevelCategory } from './taxonomy';
+import { DEFAULT_TIMEZONE, hasReadableDate, zonedParts } from './time';
+
+const BPS_PER_UNIT = 10000;
+
+// Only activity-matched fills have a real execution price; inferred matches
+// carry the position's average price instead
+const isExecuted = (t: ProcessedTrade) =>
+  t.status === TradeStatus.SUCCESS &&
+  t.matchConfidence === 'Exact (Activity)' &&
+  t.matchedExecutionPrice !== undefined &&
+  t.matchedExecutionPrice > 0;
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const toExecutionSample = (t: ProcessedTrade, timezone: string): ExecutionSample => {
+  const fillPrice = t.matchedExecutionPrice!;
+  const sample: ExecutionSample = {
+    tradeId: t.id,
+    traderName: t.traderName,
+    marketTitle: t.marketTitle,
+    category: topLevelCategory(t.category),
+    hour: zonedParts(new Date(t.date).getTime(), timezone).hour,
+    latencySeconds: t.latencySeconds,
+    signalPrice: t.signalPrice,
+    fillPrice,
+    fillRatio: t.amount > 0 && t.matchedExecutionAmount !== undefined ? t.matchedExecutionAmount / t.amount : undefined
+  };
+  if (t.signalPrice !== undefined) {
+    const adverse = t.action === 'SELL' ? t.signalPrice - fillPrice : fillPrice - t.signalPrice;
+    sample.slippageCents = adverse * 100;
+    sample.slippageBps = (adverse / t.signalPrice) * BPS_PER_UNIT;
+  }
+  return sample;
+};
+
+const summarize = (key: string, trades: ProcessedTrade[], samples: ExecutionSample[]): ExecutionGroup => {
+  const priced = samples.filter(s => s.slippageCents !== undefined);
+  const executedAmount = trades.filter(isExecuted).reduce((sum, t) => sum + (t.matchedExecutionAmount || 0), 0);
+  const signalledAmount = trades.reduce((sum, t) => sum + (t.amount || 0), 0);
+  return {
+    key,
+    signals: trades.length,
+    executed: samples.length,
+    priced: priced.length,
+    avgSlippageCents: average(priced.map(s => s.slippageCents!)),
+    avgSlippageBps: average(priced.map(s => s.slippageBps!)),
+    medianLatencySeconds: median(samples.filter(s => s.latencySeconds !== undefined).map(s => s.latencySeconds!)),
+    avgFillRatio: average(samples.filter(s => s.fillRatio !== undefined).map(s => s.fillRatio!)),
+    attemptedFillRatio: signalledAmount > 0 ? executedAmount / signalledAmount : 0
+  };
+};
+
+const groupBy = (trades: ProcessedTrade[], samplesById: Map<string, ExecutionSample>, keyOf: (t: ProcessedTrade) => string) => {
+  const groups = new Map<string, ProcessedTrade[]>();
+  trades.forEach(t => {
+    const key = keyOf(t);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(t);
+  });
+  return Array.from(groups.entries()).map(([key, gTrades]) =>
+    summarize(key, gTrades, gTrades.filter(t => samplesById.has(t.id)).map(t => samplesById.get(t.id)!))
+  );
+};
+
+// Slippage between the price quoted in the signal and our fill, fill ratios,
+// and how slippage grows with latency. Covers BUY and SELL signals; failed
+// signals only count towards the attempted fill ratio.
+export const calculateExecutionQuality = (trades: ProcessedTrade[], timezone: string = DEFAULT_TIMEZONE): ExecutionQualityReport => {
+  const signals = trades.filter(t => t.action !== 'Unknown' && hasReadableDate(t));
+  const samples = signals.filter(isExecuted).map(t => toExecutionSample(t, timezone));
+  const samplesById = new Map(samples.map(s => [s.tradeId, s]));
+
+  const paired = samples.filter(s => s.slippageCents !== undefined && s.latencySeconds !== undefined);
+  let latencySlippageCorrelation: number | null = null;
+  let slippageCentsPerSecond: number | null = null;
+  if (paired.length > 2) {
+    const xs = paired.map(s => s.latencySeconds!);
+    const ys = paired.map(s => s.slippageCents!);
+    const mx = average(xs)!;
+    const my = average(ys)!;
+    let sxy = 0, sxx = 0, syy = 0;
+    xs.forEach((x, i) => {
+      sxy += (x - mx) * (ys[i] - my);
+      sxx += Math.pow(x - mx, 2);
+      syy += Math.pow(ys[i] - my, 2);
+    });
+    if (sxx > 0) slippageCentsPerSecond = sxy / sxx;
+    if (sxx > 0 && syy > 0) latencySlippageCorrelation = sxy / Math.sqrt(sxx * syy);
+  }
+
+  return {
+    samples,
+    overall: summarize('All', signals, samples),
+    byTrader: groupBy(signals, samplesById, t => t.traderName).sort((a, b) => b.signals - a.signals),
+    byCategory: groupBy(signals, samplesById, t => topLevelCategory(t.category)).sort((a, b) => b.signals - a.signals),
+    byHour: groupBy(signals, samplesById, t => zonedParts(new Date(t.date).getTime(), timezone).hour.toString().padStart(2, '0'))
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    latencySlippageCorrelation,
+    slippageCentsPerSecond
+  };
+};
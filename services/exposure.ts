@@ -0,0 +1,123 @@
+import { ProcessedTrade, PortfolioRow, TaxonomyRule, OpenPositionRisk, ExposureGroup, ExposureReport } from '../types';
+import { createPositionMatcher } from './parser';
+import { simplify } from './matching';
+import { classifyMarket, collectMarketTags, DEFAULT_TAXONOMY_RULES } from './taxonomy';
+import { DEFAULT_TIMEZONE, dayKey } from './time';
+
+// Shares held without a matched signal (manual trades, missing chat history)
+export const UNATTRIBUTED_TRADER = '(no signal)';
+export const UNKNOWN_RESOLUTION_DATE = 'Unknown';
+
+// A single market holding more than this share of capital at risk is flagged
+export const CONCENTRATION_WARNING_SHARE = 0.25;
+
+// curPrice when the export has it, else the matcher's fallbacks for an active position
+const currentPrice = (row: PortfolioRow) =>
+  row.curPrice || row.price || (row.currentValue && row.size ? row.currentValue / row.size : 0);
+
+// A bare end date is already a calendar day; timestamps are placed in the display zone
+const resolutionDay = (row: PortfolioRow, timezone: string) => {
+  if (!row.date) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(row.date.trim())) return row.date.trim();
+  const ms = new Date(row.date).getTime();
+  return isNaN(ms) ? undefined : dayKey(ms, timezone);
+};
+
+// Remaining ledger shares of each open BUY lot, credited to the position it was matched to
+const attributeShares = (positions: PortfolioRow[], trades: ProcessedTrade[]) => {
+  const byPosition = new Map<PortfolioRow, Map<string, number>>();
+  trades
+    .filter(t => t.action === 'BUY' && t.matchedPositionStatus === 'Active' && (t.remainingShares || 0) > 0)
+    .forEach(t => {
+      const position = positions.find(createPositionMatcher(simplify(t.marketSlug), simplify(t.outcome), t.matchedAsset));
+      if (!position) return;
+      if (!byPosition.has(position)) byPosition.set(position, new Map());
+      const traders = byPosition.get(position)!;
+      traders.set(t.traderName, (traders.get(t.traderName) || 0) + t.remainingShares!);
+    });
+  return byPosition;
+};
+
+const groupExposure = (
+  positions: OpenPositionRisk[],
+  keysOf: (p: OpenPositionRisk) => { key: string; weight: number }[],
+  total: number
+): ExposureGroup[] => {
+  const groups = new Map<string, ExposureGroup>();
+  positions.forEach(p => {
+    keysOf(p).forEach(({ key, weight }) => {
+      if (!groups.has(key)) groups.set(key, { key, positions: 0, costBasis: 0, marketValue: 0, share: 0 });
+      const g = groups.get(key)!;
+      g.positions++;
+      g.costBasis += p.costBasis * weight;
+      g.marketValue += p.marketValue * weight;
+    });
+  });
+  return Array.from(groups.values())
+    .map(g => ({ ...g, share: total > 0 ? g.costBasis / total : 0 }))
+    .sort((a, b) => b.costBasis - a.costBasis);
+};
+
+// Current risk from the open-position rows. Categories come from the matched signals, or
+// the taxonomy rules for positions no signal led to; traders share a position by the
+// ledger shares their signals still hold, the rest is unattributed.
+export const calculateExposure = (
+  activePositions: PortfolioRow[],
+  trades: ProcessedTrade[],
+  taxonomyRules: TaxonomyRule[] = DEFAULT_TAXONOMY_RULES,
+  timezone: string = DEFAULT_TIMEZONE
+): ExposureReport => {
+  const open = activePositions.filter(row => (row.size || 0) > 0);
+  const attributed = attributeShares(open, trades);
+  const marketTags = collectMarketTags(open);
+
+  const positions: OpenPositionRisk[] = open.map(row => {
+    const shares = row.size!;
+    const price = currentPrice(row);
+    const avgPrice = row.avgPrice || 0;
+    const held = attributed.get(row) || new Map<string, number>();
+    const heldTotal = Array.from(held.values()).reduce((a, b) => a + b, 0);
+    // Ledger shares can exceed the export's size after partial exits the ledger missed
+    const scale = heldTotal > shares ? shares / heldTotal : 1;
+    const traders = Array.from(held.entries()).map(([trader, n]) => ({ trader, shares: n * scale }));
+    if (heldTotal < shares) traders.push({ trader: UNATTRIBUTED_TRADER, shares: shares - heldTotal });
+
+    const signal = trades.find(t => t.matchedPositionStatus === 'Active' && createPositionMatcher(simplify(t.marketSlug), simplify(t.outcome), t.matchedAsset)(row));
+    const category = signal
+      ? signal.category
+      : classifyMarket({ title: row.title || '', slug: row.slug || '', tags: marketTags.get(simplify(row.slug)) || [] }, taxonomyRules).category;
+
+    return {
+      slug: row.slug,
+      title: row.title,
+      outcome: row.outcome || '',
+      category,
+      shares,
+      avgPrice,
+      price,
+      costBasis: shares * avgPrice,
+      marketValue: shares * price,
+      resolutionDate: resolutionDay(row, timezone),
+      traders
+    };
+  });
+
+  const capitalAtRisk = positions.reduce((sum, p) => sum + p.costBasis, 0);
+  const marketValue = positions.reduce((sum, p) => sum + p.marketValue, 0);
+  const byMarket = groupExposure(positions, p => [{ key: p.title || p.slug, weight: 1 }], capitalAtRisk);
+
+  return {
+    positions,
+    capitalAtRisk,
+    marketValue,
+    maxLoss: capitalAtRisk,
+    maxGain: positions.reduce((sum, p) => sum + p.shares, 0) - capitalAtRisk,
+    expectedPnl: marketValue - capitalAtRisk,
+    byMarket,
+    byCategory: groupExposure(positions, p => [{ key: p.category, weight: 1 }], capitalAtRisk),
+    byTrader: groupExposure(positions, p => p.traders.map(t => ({ key: t.trader, weight: t.shares / p.shares })), capitalAtRisk),
+    byResolutionDate: groupExposure(positions, p => [{ key: p.resolutionDate || UNKNOWN_RESOLUTION_DATE, weight: 1 }], capitalAtRisk)
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    largestMarket: byMarket[0] || null
+  };
+};
@@ -0,0 +1,155 @@
+import { ChatLog, PortfolioRow, ParsedInputs, ProcessedTrade, ImportSummary, MatchSettings, PipelineProgress } from '../types';
+import { parseInputData, processTrades, extractSignalMarkets } from './parser';
+import { simplify } from './matching';
+
+type RawInputs = Omit<ParsedInputs, 'dialect'>;
+
+export interface MergeResult {
+  inputs: ParsedInputs;
+  summary: ImportSummary;
+  affectedMarkets: Set<string>; // Simplified slugs whose signals need re-matching
+}
+
+const chatKey = (log: ChatLog) => `${log.date}|${log.sender_id}|${log.content}`;
+
+// Activity rows are keyed by transaction hash; rows exported without one fall back to their contents
+const activityKey = (row: PortfolioRow) =>
+  row.transactionHash || [row.timestamp, row.slug, row.outcome, row.side, row.size, row.usdcSize].join('|');
+
+const positionKey = (row: PortfolioRow) => row.asset || `${simplify(row.slug)}|${simplify(row.outcome)}`;
+
+// Fields that make a position snapshot differ from the one it replaces
+const POSITION_FIELDS: (keyof PortfolioRow)[] = ['Category', 'size', 'avgPrice', 'currentValue', 'cashPnl', 'realizedPnl', 'price', 'curPrice', 'date'];
+
+// Keeps the rows whose key hasn't been seen yet, recording the keys as it goes
+const takeUnseen = <T>(rows: T[], keyOf: (row: T) => string, seen: Set<string>): T[] =>
+  rows.filter(row => {
+    const key = keyOf(row);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+// Adds a newly exported portfolio/chat pair to an already-loaded dataset.
+// Chat messages are de-duplicated by (date, sender, content) and activity rows by
+// transaction hash; for open/closed positions the incoming snapshot replaces any
+// row for the same asset. An import with open position rows carries the wallet's full
+// open positions, so open rows it no longer lists (closed or sold since) are dropped.
+// Every market touched by a new signal, execution or position change is reported
+// so only those need re-matching.
+export const mergeInputs = (existing: ParsedInputs, incoming: RawInputs): MergeResult => {
+  const affectedMarkets = new Set<string>();
+
+  const newMessages = takeUnseen(incoming.chatLogs, chatKey, new Set(existing.chatLogs.map(chatKey)));
+  const newSignalMarkets = extractSignalMarkets(newMessages, existing.dialect);
+  newSignalMarkets.forEach(m => affectedMarkets.add(m));
+
+  const newActivity = takeUnseen(incoming.activityHistory, activityKey, new Set(existing.activityHistory.map(activityKey)));
+  newActivity.forEach(row => affectedMarkets.add(simplify(row.slug)));
+
+  // Newest snapshot wins: drop existing position rows the import has a fresher copy of
+  const previousPositions = new Map<string, PortfolioRow>();
+  [...existing.activePositions, ...existing.closedPositions].forEach(row => {
+    const key = positionKey(row);
+    if (!previousPositions.has(key)) previousPositions.set(key, row);
+  });
+  const incomingPositions = [...incoming.activePositions, ...incoming.closedPositions];
+  const incomingKeys = new Set(incomingPositions.map(positionKey));
+
+  let positionUpdates = 0;
+  incomingPositions.forEach(row => {
+    const previous = previousPositions.get(positionKey(row));
+    if (previous && POSITION_FIELDS.every(f => previous[f] === row[f])) return;
+    positionUpdates++;
+    affectedMarkets.add(simplify(row.slug));
+  });
+
+  const isCurrent = (row: PortfolioRow) => !incomingKeys.has(positionKey(row));
+
+  // Only an open-positions snapshot says what is still held; closed rows alone (or a
+  // chat/activity-only import) leave the other open positions as they were
+  const hasSnapshot = incoming.activePositions.length > 0;
+  const openKeys = new Set(incoming.activePositions.map(positionKey));
+  const stillOpen = (row: PortfolioRow) => !hasSnapshot || openKeys.has(positionKey(row));
+  existing.activePositions.filter(row => isCurrent(row) && !stillOpen(row)).forEach(row => {
+    positionUpdates++;
+    affectedMarkets.add(simplify(row.slug));
+  });
+  affectedMarkets.delete('');
+
+  return {
+    inputs: {
+      chatLogs: [...existing.chatLogs, ...newMessages],
+      activePositions: [...existing.activePositions.filter(row => isCurrent(row) && stillOpen(row)), ...incoming.activePositions],
+      closedPositions: [...existing.closedPositions.filter(isCurrent), ...incoming.closedPositions],
+      activityHistory: [...existing.activityHistory, ...newActivity],
+      dialect: existing.dialect
+    },
+    summary: {
+      importedAt: new Date().toISOString(),
+      newSignals: newSignalMarkets.length,
+      duplicateMessages: incoming.chatLogs.length - newMessages.length,
+      newExecutions: newActivity.length,
+      duplicateExecutions: incoming.activityHistory.length - newActivity.length,
+      positionUpdates,
+      affectedMarkets: affectedMarkets.size
+    },
+    affectedMarkets
+  };
+};
+
+export const mergeImport = (existing: ParsedInputs, portfolioCsv: string, chatCsv: string, onProgress?: (progress: PipelineProgress) => void): MergeResult => {
+  const { activePositions, closedPositions, activityHistory, chatLogs } = parseInputData(portfolioCsv, chatCsv, onProgress);
+  return mergeInputs(existing, { activePositions, closedPositions, activityHistory, chatLogs });
+};
+
+// Summary for the first upload of a dataset, where everything is new
+export const summarizeInitialImport = (inputs: ParsedInputs, trades: ProcessedTrade[]): ImportSummary => ({
+  importedAt: new Date().toISOString(),
+  newSignals: trades.length,
+  duplicateMessages: 0,
+  newExecutions: inputs.activityHistory.length,
+  duplicateExecutions: 0,
+  positionUpdates: inputs.activePositions.length + inputs.closedPositions.length,
+  affectedMarkets: new Set(trades.map(t => simplify(t.marketSlug)).filter(Boolean)).size
+});
+
+// Rows owned by trades that keep their match, found by transaction hash. Merging only
+// appends activity, so a hashless match's row index from the earlier run still holds.
+const claimedActivityIds = (kept: ProcessedTrade[], activityHistory: PortfolioRow[]) => {
+  const hashes = new Set(kept.map(t => t.matchedTxHash).filter(Boolean));
+  const claimed = new Set<number>();
+  activityHistory.forEach((row, idx) => {
+    if (row.transactionHash && hashes.has(row.transactionHash)) claimed.add(idx);
+  });
+  kept.forEach(t => {
+    const idx = t.matchAudit?.winnerActivityIndex;
+    if (!t.matchedTxHash && idx !== undefined) claimed.add(idx);
+  });
+  return claimed;
+};
+
+// Slugs are matched by containment, so a market is affected when it contains or is
+// contained in one that changed. Signals without a slug are always re-matched.
+const affectedMarketFilter = (affectedMarkets: Set<string>) => (slug: string) =>
+  !slug || affectedMarkets.has(slug) || Array.from(affectedMarkets).some(m => m.includes(slug) || slug.includes(m));
+
+// Re-runs matching for the affected markets only and keeps every other trade as it was.
+// Activity rows the kept trades matched stay theirs, so a re-matched signal cannot
+// claim the same fill. The result still needs the lot ledger applied.
+export const rematchAffectedMarkets = (
+  previousTrades: ProcessedTrade[],
+  inputs: ParsedInputs,
+  affectedMarkets: Set<string>,
+  matchSettings: MatchSettings,
+  onProgress?: (progress: PipelineProgress) => void
+): ProcessedTrade[] => {
+  if (affectedMarkets.size === 0) return previousTrades;
+  const isAffected = affectedMarketFilter(affectedMarkets);
+  const kept = previousTrades.filter(t => !isAffected(simplify(t.marketSlug)));
+  const rematched = processTrades(
+    inputs.chatLogs, inputs.activePositions, inputs.closedPositions, inputs.activityHistory,
+    inputs.dialect, matchSettings, isAffected, onProgress, claimedActivityIds(kept, inputs.activityHistory)
+  );
+  return [...kept, ...rematched].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
@@ -0,0 +1,142 @@
+import { ProcessedTrade, LatencyPercentiles, LatencyGroup, LatencyHistogramBin, LatencyHeatmapCell, LatencyRegression, LatencyReport, LatencyComparison } from '../types';
+import { DEFAULT_TIMEZONE, dayKey, formatDate, hasReadableDate, zonedParts } from './time';
+
+// Histogram bin edges, in seconds
+const HISTOGRAM_EDGES = [0, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+// A trader's p90 counts as regressed when it grew by both of these, with enough fills on each side
+const REGRESSION_MIN_RATIO = 1.25;
+const REGRESSION_MIN_SECONDS = 2;
+const REGRESSION_MIN_SAMPLES = 10;
+
+const hasLatency = (t: ProcessedTrade) => t.latencySeconds !== undefined && !isNaN(t.latencySeconds);
+
+// Linear interpolation between closest ranks
+export const quantile = (sorted: number[], q: number): number | null => {
+  if (sorted.length === 0) return null;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export const calculatePercentiles = (latencies: number[]): LatencyPercentiles => {
+  const sorted = latencies.filter(l => l >= 0).sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+    p99: quantile(sorted, 0.99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : null
+  };
+};
+
+const groupPercentiles = (trades: ProcessedTrade[], keyOf: (t: ProcessedTrade) => string): LatencyGroup[] => {
+  const groups = new Map<string, number[]>();
+  trades.forEach(t => {
+    const key = keyOf(t);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(t.latencySeconds!);
+  });
+  return Array.from(groups.entries()).map(([key, latencies]) => ({ key, ...calculatePercentiles(latencies) }));
+};
+
+const formatEdge = (seconds: number) => seconds >= 60 ? `${seconds / 60}m` : `${seconds}s`;
+
+export const calculateLatencyReport = (trades: ProcessedTrade[], timezone: string = DEFAULT_TIMEZONE): LatencyReport => {
+  const timed = trades.filter(t => hasLatency(t) && hasReadableDate(t));
+  const valid = timed.filter(t => t.latencySeconds! >= 0);
+  const overall = calculatePercentiles(valid.map(t => t.latencySeconds!));
+
+  const histogram: LatencyHistogramBin[] = HISTOGRAM_EDGES.map((lower, i) => {
+    const upper = i + 1 < HISTOGRAM_EDGES.length ? HISTOGRAM_EDGES[i + 1] : Infinity;
+    return {
+      label: upper === Infinity ? `${formatEdge(lower)}+` : `${formatEdge(lower)}–${formatEdge(upper)}`,
+      lower,
+      upper,
+      tradeIds: valid.filter(t => t.latencySeconds! >= lower && t.latencySeconds! < upper).map(t => t.id)
+    };
+  });
+
+  const cells = new Map<string, ProcessedTrade[]>();
+  valid.forEach(t => {
+    const p = zonedParts(new Date(t.date).getTime(), timezone);
+    const key = `${p.weekday}-${p.hour}`;
+    if (!cells.has(key)) cells.set(key, []);
+    cells.get(key)!.push(t);
+  });
+  const heatmap: LatencyHeatmapCell[] = Array.from(cells.entries()).map(([key, cTrades]) => {
+    const [weekday, hour] = key.split('-').map(Number);
+    return {
+      weekday,
+      hour,
+      count: cTrades.length,
+      p50: calculatePercentiles(cTrades.map(t => t.latencySeconds!)).p50!,
+      tradeIds: cTrades.map(t => t.id)
+    };
+  });
+
+  return {
+    overall,
+    byTrader: groupPercentiles(valid, t => t.traderName).sort((a, b) => (b.p90 || 0) - (a.p90 || 0)),
+    byDay: groupPercentiles(valid, t => dayKey(new Date(t.date).getTime(), timezone)).sort((a, b) => a.key.localeCompare(b.key)),
+    histogram,
+    heatmap,
+    outlierTradeIds: overall.p99 === null ? [] : valid.filter(t => t.latencySeconds! > overall.p99!).map(t => t.id),
+    negativeTradeIds: timed.filter(t => t.latencySeconds! < 0).map(t => t.id)
+  };
+};
+
+const compare = (key: string, baseline: number[], current: number[]): LatencyRegression => {
+  const b = calculatePercentiles(baseline);
+  const c = calculatePercentiles(current);
+  const p90Change = b.p90 !== null && c.p90 !== null ? c.p90 - b.p90 : null;
+  return {
+    key,
+    baseline: b,
+    current: c,
+    p90Change,
+    isRegression: p90Change !== null &&
+      b.count >= REGRESSION_MIN_SAMPLES && c.count >= REGRESSION_MIN_SAMPLES &&
+      p90Change >= REGRESSION_MIN_SECONDS && c.p90! >= b.p90! * REGRESSION_MIN_RATIO
+  };
+};
+
+// Latency percentiles of a baseline period against the current one, overall and per trader
+const detectLatencyRegressions = (baseline: ProcessedTrade[], current: ProcessedTrade[]): LatencyRegression[] => {
+  const latencies = (trades: ProcessedTrade[], trader?: string) =>
+    trades.filter(t => hasLatency(t) && (!trader || t.traderName === trader)).map(t => t.latencySeconds!);
+
+  const traders = Array.from(new Set(current.filter(hasLatency).map(t => t.traderName))).sort();
+  return [
+    compare('All', latencies(baseline), latencies(current)),
+    ...traders.map(trader => compare(trader, latencies(baseline, trader), latencies(current, trader)))
+  ];
+};
+
+// Compares the selected range with the period of the same length just before it.
+// When there is no earlier data, the first half of the range is the baseline.
+export const compareLatencyPeriods = (allTrades: ProcessedTrade[], start: Date, end: Date, timezone: string = DEFAULT_TIMEZONE): LatencyComparison => {
+  const formatDay = (ms: number) => formatDate(ms, timezone);
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  const length = endMs - startMs;
+  const timeOf = (t: ProcessedTrade) => new Date(t.date).getTime();
+
+  const current = allTrades.filter(t => timeOf(t) >= startMs && timeOf(t) <= endMs);
+  const previous = allTrades.filter(t => timeOf(t) >= startMs - length && timeOf(t) < startMs);
+  if (previous.some(hasLatency)) {
+    return {
+      baselineLabel: `${formatDay(startMs - length)} – ${formatDay(startMs)}`,
+      currentLabel: `${formatDay(startMs)} – ${formatDay(endMs)}`,
+      regressions: detectLatencyRegressions(previous, current)
+    };
+  }
+
+  const mid = startMs + length / 2;
+  return {
+    baselineLabel: `${formatDay(startMs)} – ${formatDay(mid)}`,
+    currentLabel: `${formatDay(mid)} – ${formatDay(endMs)}`,
+    regressions: detectLatencyRegressions(current.filter(t => timeOf(t) < mid), current.filter(t => timeOf(t) >= mid))
+  };
+};
@@ -0,0 +1,137 @@
+import { ProcessedTrade, CostBasisMethod } from '../types';
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'FIFO';
+
+interface Lot {
+  tradeId: string;
+  price: number;
+  remaining: number;
+}
+
+// Lots are tracked per trader and outcome token. The asset id from the matched
+// activity row is the reliable key; slug + outcome is the fallback.
+const lotKey = (t: ProcessedTrade) => {
+  const instrument = t.matchedAsset || `${t.marketSlug.toLowerCase()}|${t.outcome.toLowerCase()}`;
+  return `${t.traderName}|${instrument}`;
+};
+
+// Execution time: signal time plus the measured delay to the on-chain fill
+const executionTime = (t: ProcessedTrade) =>
+  new Date(t.date).getTime() + (t.latencySeconds || 0) * 1000;
+
+const isLedgerTrade = (t: ProcessedTrade) =>
+  t.matchConfidence === 'Exact (Activity)' &&
+  (t.action === 'BUY' || t.action === 'SELL') &&
+  !!t.shares && t.shares > 0 &&
+  t.matchedExecutionPrice !== undefined;
+
+// Removes `quantity` shares from the lots and returns their total cost
+const consumeLots = (lots: Lot[], quantity: number, method: CostBasisMethod): number => {
+  if (method === 'AVERAGE') {
+    const held = lots.reduce((sum, l) => sum + l.remaining, 0);
+    if (held <= 0) return 0;
+    const avgPrice = lots.reduce((sum, l) => sum + l.remaining * l.price, 0) / held;
+    const fraction = quantity / held;
+    lots.forEach(l => { l.remaining -= l.remaining * fraction; });
+    return avgPrice * quantity;
+  }
+
+  let cost = 0;
+  let left = quantity;
+  const ordered = method === 'FIFO' ? lots : [...lots].reverse();
+  for (const lot of ordered) {
+    if (left <= 0) break;
+    const take = Math.min(lot.remaining, left);
+    lot.remaining -= take;
+    cost += take * lot.price;
+    left -= take;
+  }
+  return cost;
+};
+
+// Replays matched executions as a lot ledger: BUYs open lots, SELLs consume them
+// by the chosen method and book realized PnL on the SELL trade. Shares still held
+// are realized at settlement (closed markets) or marked to market (open ones).
+// Trades without an exact activity match keep their position-based PnL, split
+// into realized/unrealized by position status.
+export const applyLotLedger = (
+  trades: ProcessedTrade[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): ProcessedTrade[] => {
+  const result = trades.map(t => ({ ...t }));
+  const lotsByKey = new Map<string, Lot[]>();
+  const lotByTradeId = new Map<string, Lot>();
+
+  const ledgerTrades = result
+    .filter(isLedgerTrade)
+    .sort((a, b) => executionTime(a) - executionTime(b));
+
+  ledgerTrades.forEach(t => {
+    const key = lotKey(t);
+    if (!lotsByKey.has(key)) lotsByKey.set(key, []);
+    const lots = lotsByKey.get(key)!;
+    const shares = t.shares!;
+    const price = t.matchedExecutionPrice!;
+
+    if (t.action === 'BUY') {
+      const lot = { tradeId: t.id, price, remaining: shares };
+      lots.push(lot);
+      lotByTradeId.set(t.id, lot);
+      t.costBasis = shares * price;
+      return;
+    }
+
+    // SELL: only the shares covered by known lots have a cost basis
+    const held = lots.reduce((sum, l) => sum + l.remaining, 0);
+    const covered = Math.min(shares, held);
+    t.currentValue = undefined;
+    if (covered <= 0) {
+      t.pnl = undefined;
+      t.result = undefined;
+      return;
+    }
+    const cost = consumeLots(lots, covered, method);
+    t.costBasis = cost;
+    t.realizedPnl = covered * price - cost;
+    t.unrealizedPnl = 0;
+    t.pnl = t.realizedPnl;
+    t.result = t.realizedPnl > 0 ? 'WIN' : 'LOSS';
+    lotsByKey.set(key, lots.filter(l => l.remaining > 1e-9));
+  });
+
+  result.forEach(t => {
+    const lot = lotByTradeId.get(t.id);
+    if (lot) {
+      const remaining = lot.remaining > 1e-9 ? lot.remaining : 0;
+      t.remainingShares = remaining;
+      if (t.markPrice === undefined) {
+        t.pnl = undefined;
+        return;
+      }
+      const heldPnl = (t.markPrice - lot.price) * remaining;
+      t.pnl = heldPnl;
+      t.currentValue = t.markPrice * remaining;
+      t.realizedPnl = t.matchedPositionStatus === 'Closed' ? heldPnl : 0;
+      t.unrealizedPnl = t.matchedPositionStatus === 'Closed' ? 0 : heldPnl;
+      return;
+    }
+
+    // Outside the ledger: classify the position-based PnL
+    if (t.pnl !== undefined && t.realizedPnl === undefined) {
+      t.realizedPnl = t.matchedPositionStatus === 'Closed' ? t.pnl : 0;
+      t.unrealizedPnl = t.matchedPositionStatus === 'Closed' ? 0 : t.pnl;
+    }
+  });
+
+  return result;
+};
+
+// BUY lots that were sold off entirely carry no PnL of their own (it is booked
+// on the SELLs), so they are left out of per-trade performance stats.
+export const isFullyExitedLot = (t: ProcessedTrade) =>
+  t.action === 'BUY' && t.remainingShares === 0;
+
+// SELLs that realized PnL against known lots count as executed trades even when
+// the market no longer shows up in the position snapshots
+export const isLedgerExit = (t: ProcessedTrade) =>
+  t.action === 'SELL' && t.costBasis !== undefined;
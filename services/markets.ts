@@ -0,0 +1,163 @@
+import { ProcessedTrade, PortfolioRow, ParsedInputs, TradeStatus, MarketSummary, MarketSettlement, MarketDetail, MarketTimelineEvent, MarketTraderBreakdown } from '../types';
+import { resolveClosedPosition } from './parser';
+import { simplify } from './matching';
+
+// Signals from different traders on the same side and outcome this close together count as a pile-in
+export const PILE_IN_WINDOW_SECONDS = 60 * 60;
+
+type PortfolioInputs = Pick<ParsedInputs, 'activePositions' | 'closedPositions' | 'activityHistory'>;
+
+export const marketKey = (t: ProcessedTrade) => simplify(t.marketSlug) || simplify(t.marketTitle);
+
+const groupBySlug = (rows: PortfolioRow[]) => {
+  const groups = new Map<string, PortfolioRow[]>();
+  rows.forEach(row => {
+    const key = simplify(row.slug);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  return groups;
+};
+
+// Signal slugs are sometimes shortened; fall back to the containment rule the matcher uses
+const rowsForMarket = (groups: Map<string, PortfolioRow[]>, key: string): PortfolioRow[] => {
+  const exact = groups.get(key);
+  if (exact) return exact;
+  const related: PortfolioRow[] = [];
+  groups.forEach((rows, slug) => {
+    if (slug.includes(key) || key.includes(slug)) related.push(...rows);
+  });
+  return related;
+};
+
+const settlementsOf = (closed: PortfolioRow[]): MarketSettlement[] => {
+  const byOutcome = new Map<string, MarketSettlement>();
+  closed.forEach(row => {
+    const outcome = row.outcome || '?';
+    if (byOutcome.has(outcome)) return;
+    const { exitPrice, result } = resolveClosedPosition(row);
+    byOutcome.set(outcome, { outcome, price: exitPrice, result });
+  });
+  return Array.from(byOutcome.values());
+};
+
+// Distinct traders on the same side and outcome within the window around each signal
+const pileInSizes = (signals: ProcessedTrade[]): Map<string, number> => {
+  const sizes = new Map<string, number>();
+  const windowMs = PILE_IN_WINDOW_SECONDS * 1000;
+  const byInstrument = new Map<string, { time: number; trade: ProcessedTrade }[]>();
+  signals.forEach(t => {
+    const key = `${t.action}|${simplify(t.outcome)}`;
+    if (!byInstrument.has(key)) byInstrument.set(key, []);
+    byInstrument.get(key)!.push({ time: new Date(t.date).getTime(), trade: t });
+  });
+  byInstrument.forEach(group => {
+    group.sort((a, b) => a.time - b.time);
+    group.forEach(({ time, trade }) => {
+      const traders = new Set<string>();
+      group.forEach(other => {
+        if (Math.abs(other.time - time) <= windowMs) traders.add(other.trade.traderName);
+      });
+      sizes.set(trade.id, traders.size);
+    });
+  });
+  return sizes;
+};
+
+const summarize = (key: string, signals: ProcessedTrade[], rows: { open: PortfolioRow[]; closed: PortfolioRow[]; fills: PortfolioRow[] }): MarketSummary => {
+  const first = signals[0];
+  const dates = signals.map(t => t.date).sort();
+  const pileIns = pileInSizes(signals);
+  const status: MarketSummary['status'] = rows.open.length > 0 ? 'Open' : rows.closed.length > 0 ? 'Settled' : 'Unknown';
+
+  return {
+    key,
+    slug: first.marketSlug,
+    title: first.marketTitle,
+    url: first.marketUrl,
+    category: first.category,
+    signalCount: signals.length,
+    traderCount: new Set(signals.map(t => t.traderName)).size,
+    fillCount: rows.fills.length,
+    failedCount: signals.filter(t => t.status === TradeStatus.FAILED || t.status === TradeStatus.PENDING).length,
+    exposure: rows.open.reduce((sum, p) => sum + (p.currentValue || 0), 0),
+    realizedPnl: signals.reduce((sum, t) => sum + (t.realizedPnl || 0), 0),
+    unrealizedPnl: signals.reduce((sum, t) => sum + (t.unrealizedPnl || 0), 0),
+    status,
+    settlements: settlementsOf(rows.closed),
+    firstSignal: dates[0],
+    lastSignal: dates[dates.length - 1],
+    maxPileIn: Array.from(pileIns.values()).reduce((max, n) => Math.max(max, n), 0)
+  };
+};
+
+const groupSignals = (trades: ProcessedTrade[]) => {
+  const groups = new Map<string, ProcessedTrade[]>();
+  trades.forEach(t => {
+    const key = marketKey(t);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(t);
+  });
+  return groups;
+};
+
+// One row per market that received a signal, most active first
+export const summarizeMarkets = (trades: ProcessedTrade[], inputs: PortfolioInputs): MarketSummary[] => {
+  const open = groupBySlug(inputs.activePositions);
+  const closed = groupBySlug(inputs.closedPositions);
+  const fills = groupBySlug(inputs.activityHistory);
+
+  return Array.from(groupSignals(trades).entries())
+    .map(([key, signals]) => summarize(key, signals, {
+      open: rowsForMarket(open, key),
+      closed: rowsForMarket(closed, key),
+      fills: rowsForMarket(fills, key)
+    }))
+    .sort((a, b) => b.signalCount - a.signalCount);
+};
+
+// Every signal and fill of one market in time order, plus its positions and per-trader outcome
+export const buildMarketDetail = (key: string, trades: ProcessedTrade[], inputs: PortfolioInputs): MarketDetail | null => {
+  const signals = trades.filter(t => marketKey(t) === key);
+  if (signals.length === 0) return null;
+
+  const rows = {
+    open: rowsForMarket(groupBySlug(inputs.activePositions), key),
+    closed: rowsForMarket(groupBySlug(inputs.closedPositions), key),
+    fills: rowsForMarket(groupBySlug(inputs.activityHistory), key)
+  };
+  const pileIns = pileInSizes(signals);
+  const tradeByTx = new Map(signals.filter(t => t.matchedTxHash).map(t => [t.matchedTxHash!, t.id]));
+
+  const events: MarketTimelineEvent[] = [
+    ...signals.map(t => ({ kind: 'signal' as const, time: new Date(t.date).getTime(), trade: t, pileIn: pileIns.get(t.id) })),
+    ...rows.fills.map(row => ({
+      kind: 'fill' as const,
+      time: (row.timestamp || 0) * 1000,
+      fill: row,
+      matchedTradeId: row.transactionHash ? tradeByTx.get(row.transactionHash) : undefined
+    }))
+  ].sort((a, b) => a.time - b.time);
+
+  const traders = new Map<string, MarketTraderBreakdown>();
+  [...signals].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+    if (!traders.has(t.traderName)) {
+      traders.set(t.traderName, { trader: t.traderName, signals: 0, filled: 0, firstSignal: t.date, realizedPnl: 0, unrealizedPnl: 0 });
+    }
+    const entry = traders.get(t.traderName)!;
+    entry.signals++;
+    if (t.status === TradeStatus.SUCCESS) entry.filled++;
+    entry.realizedPnl += t.realizedPnl || 0;
+    entry.unrealizedPnl += t.unrealizedPnl || 0;
+  });
+
+  return {
+    summary: summarize(key, signals, rows),
+    events,
+    openPositions: rows.open,
+    closedPositions: rows.closed,
+    byTrader: Array.from(traders.values())
+  };
+};
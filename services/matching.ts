@@ -0,0 +1,468 @@
+import { PortfolioRow, MatchAudit, MatchCandidate, MatchWeights, MatchSettings, ProcessedTrade, MatchDiffEntry } from '../types';
+
+// Max time between a chat signal and its on-chain execution
+export const MATCH_WINDOW_SECONDS = 3600;
+
+// Candidate score weights, used to rank the audit list and by optimal mode; time dominates
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  time: 0.5,
+  slug: 0.2,
+  outcome: 0.15,
+  size: 0.15
+};
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  mode: 'greedy',
+  windowSeconds: MATCH_WINDOW_SECONDS,
+  weights: DEFAULT_MATCH_WEIGHTS
+};
+
+// Candidates kept on the trade for the audit view (the winner is always among them)
+const MAX_AUDIT_CANDIDATES = 10;
+
+export const simplify = (str: string | undefined | null) => {
+    if (!str) return '';
+    return str.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+const isBinaryOutcome = (o: string) => o === 'yes' || o === 'no';
+
+export interface SignalForMatching {
+  side: string; // 'BUY' | 'SELL'
+  simpleSlug: string;
+  simpleOutcome: string;
+  amount: number; // Signal $ amount
+  time: number; // Unix seconds
+}
+
+// 1 for identical slugs, length ratio when one contains the other, 0 otherwise
+const slugSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  if (!a.includes(b) && !b.includes(a)) return 0;
+  return Math.min(a.length, b.length) / Math.max(a.length, b.length);
+};
+
+// 1 when outcomes agree, 0 on an explicit Yes/No conflict, 0.5 when unknown
+const outcomeAgreement = (signalOutcome: string, activityOutcome: string): number => {
+  if (!signalOutcome || !activityOutcome) return 0.5;
+  if (signalOutcome === activityOutcome) return 1;
+  if (isBinaryOutcome(signalOutcome) && isBinaryOutcome(activityOutcome)) return 0;
+  return 0.5;
+};
+
+// Ratio of executed $ to signal $ (or the reverse), 0.5 when either side is unknown
+const sizeSimilarity = (signalAmount: number, usdcSize: number | undefined): number => {
+  if (!signalAmount || !usdcSize) return 0.5;
+  return Math.min(signalAmount, usdcSize) / Math.max(signalAmount, usdcSize);
+};
+
+export const scoreCandidate = (
+  signal: SignalForMatching,
+  row: PortfolioRow,
+  activityIndex: number,
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS,
+  windowSeconds: number = MATCH_WINDOW_SECONDS
+): MatchCandidate | null => {
+  if (row.side?.toUpperCase() !== signal.side) return null;
+
+  // Same containment rule the matcher has always used for slugs
+  const hSlug = simplify(row.slug);
+  if (!hSlug.includes(signal.simpleSlug) && !signal.simpleSlug.includes(hSlug)) return null;
+
+  const timeDeltaSeconds = (row.timestamp || 0) - signal.time;
+  if (Math.abs(timeDeltaSeconds) >= windowSeconds) return null;
+
+  const hOutcome = simplify(row.outcome);
+  const breakdown = {
+    time: 1 - Math.abs(timeDeltaSeconds) / windowSeconds,
+    slug: slugSimilarity(signal.simpleSlug, hSlug),
+    outcome: outcomeAgreement(signal.simpleOutcome, hOutcome),
+    size: sizeSimilarity(signal.amount, row.usdcSize),
+    total: 0
+  };
+  const weightSum = weights.time + weights.slug + weights.outcome + weights.size || 1;
+  breakdown.total = (
+    breakdown.time * weights.time +
+    breakdown.slug * weights.slug +
+    breakdown.outcome * weights.outcome +
+    breakdown.size * weights.size
+  ) / weightSum;
+
+  const candidate: MatchCandidate = {
+    activityIndex,
+    txHash: row.transactionHash,
+    timestamp: row.timestamp,
+    timeDeltaSeconds,
+    slug: row.slug,
+    outcome: row.outcome,
+    usdcSize: row.usdcSize,
+    price: row.avgPrice || row.price,
+    score: breakdown,
+    eligible: true
+  };
+
+  if (breakdown.outcome === 0) {
+    candidate.eligible = false;
+    candidate.rejectionReason = `Outcome mismatch (${row.outcome})`;
+  }
+
+  return candidate;
+};
+
+interface ActivityBucket {
+  times: number[]; // Ascending
+  indices: number[]; // Activity row of each time
+}
+
+// Activity rows bucketed by side and simplified slug, each bucket sorted by time, so a
+// signal only scores the rows inside its window instead of scanning the whole history.
+export interface ActivityIndex {
+  buckets: Map<string, Map<string, ActivityBucket>>; // side -> simplified slug -> rows
+  slugMatches: Map<string, ActivityBucket[]>; // "side|signal slug" -> buckets passing the containment rule
+}
+
+export const buildActivityIndex = (activityHistory: PortfolioRow[]): ActivityIndex => {
+  const rows = new Map<string, Map<string, { time: number; index: number }[]>>();
+  activityHistory.forEach((row, index) => {
+    const side = row.side?.toUpperCase();
+    if (!side) return; // Never passes the side check
+    if (!rows.has(side)) rows.set(side, new Map());
+    const bySlug = rows.get(side)!;
+    const slug = simplify(row.slug);
+    if (!bySlug.has(slug)) bySlug.set(slug, []);
+    bySlug.get(slug)!.push({ time: row.timestamp || 0, index });
+  });
+
+  const buckets = new Map<string, Map<string, ActivityBucket>>();
+  rows.forEach((bySlug, side) => {
+    const sorted = new Map<string, ActivityBucket>();
+    bySlug.forEach((entries, slug) => {
+      entries.sort((a, b) => a.time - b.time || a.index - b.index);
+      sorted.set(slug, { times: entries.map(e => e.time), indices: entries.map(e => e.index) });
+    });
+    buckets.set(side, sorted);
+  });
+  return { buckets, slugMatches: new Map() };
+};
+
+// First position whose time is >= value
+const lowerBound = (times: number[], value: number) => {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Activity rows that can pass scoreCandidate's side, slug and window checks, in row order
+// so that equal-scoring candidates rank exactly as in a full scan
+export const findActivityCandidates = (index: ActivityIndex, signal: SignalForMatching, windowSeconds: number): number[] => {
+  const key = `${signal.side}|${signal.simpleSlug}`;
+  let buckets = index.slugMatches.get(key);
+  if (!buckets) {
+    const bySlug = index.buckets.get(signal.side);
+    buckets = bySlug
+      ? Array.from(bySlug.entries())
+          .filter(([slug]) => slug.includes(signal.simpleSlug) || signal.simpleSlug.includes(slug))
+          .map(([, bucket]) => bucket)
+      : [];
+    index.slugMatches.set(key, buckets);
+  }
+
+  const found: number[] = [];
+  buckets.forEach(bucket => {
+    const end = signal.time + windowSeconds;
+    for (let i = lowerBound(bucket.times, signal.time - windowSeconds); i < bucket.times.length && bucket.times[i] <= end; i++) {
+      found.push(bucket.indices[i]);
+    }
+  });
+  return found.sort((a, b) => a - b);
+};
+
+const compareCandidates = (a: MatchCandidate, b: MatchCandidate) =>
+  b.score.total - a.score.total || Math.abs(a.timeDeltaSeconds) - Math.abs(b.timeDeltaSeconds);
+
+// Greedy order: nearest fill first, earlier row on a tie
+const compareByTime = (a: MatchCandidate, b: MatchCandidate) =>
+  Math.abs(a.timeDeltaSeconds) - Math.abs(b.timeDeltaSeconds) || a.activityIndex - b.activityIndex;
+
+// Keeps the top candidates for the audit, making sure the winner survives the cut
+const truncateCandidates = (candidates: MatchCandidate[], winner: MatchCandidate | undefined): MatchCandidate[] => {
+  const kept = candidates.slice(0, MAX_AUDIT_CANDIDATES);
+  if (winner && !kept.includes(winner)) kept.push(winner);
+  return kept;
+};
+
+// Scores every activity row that could be this signal's execution and picks the
+// eligible one closest in time, as the matcher always has; the scores rank the
+// audit list and drive optimal mode. Rows already claimed by an earlier signal stay
+// in the list, marked ineligible, so the audit shows what the signal lost out on.
+// Without an index every row is scored.
+export const rankActivityCandidates = (
+  signal: SignalForMatching,
+  activityHistory: PortfolioRow[],
+  usedActivityIds: Set<number>,
+  settings: MatchSettings = DEFAULT_MATCH_SETTINGS,
+  index?: ActivityIndex
+): MatchAudit => {
+  const candidates: MatchCandidate[] = [];
+  const rows = index ? findActivityCandidates(index, signal, settings.windowSeconds) : activityHistory.map((_, idx) => idx);
+
+  rows.forEach(idx => {
+    const candidate = scoreCandidate(signal, activityHistory[idx], idx, settings.weights, settings.windowSeconds);
+    if (!candidate) return;
+    if (candidate.eligible && usedActivityIds.has(idx)) {
+      candidate.eligible = false;
+      candidate.rejectionReason = 'Already matched to an earlier signal';
+    }
+    candidates.push(candidate);
+  });
+
+  candidates.sort(compareCandidates);
+  const eligible = candidates.filter(c => c.eligible);
+  const byTime = [...eligible].sort(compareByTime);
+  const winner = byTime[0];
+
+  return {
+    candidates: truncateCandidates(candidates, winner),
+    totalCandidates: candidates.length,
+    winnerActivityIndex: winner?.activityIndex,
+    reason: describeDecision(winner, byTime, eligible, candidates, settings.windowSeconds)
+  };
+};
+
+// Cost of leaving a signal unmatched; any eligible edge (score > 0) is cheaper
+const UNMATCHED_COST = 1;
+const FORBIDDEN_COST = 1e9;
+
+// Signals plus rows in one component above which the O(n²·m) solve is skipped and the
+// component is matched greedily instead (one busy market could otherwise stall the worker)
+export const MAX_OPTIMAL_COMPONENT_SIZE = 300;
+
+// Hungarian algorithm (rows <= cols). Returns the assigned column for each row.
+const solveAssignment = (cost: number[][]): number[] => {
+  const n = cost.length;
+  const m = cost[0].length;
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const assignment = new Array(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j]) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+};
+
+// Solves signal -> activity matching over all signals together, maximising the
+// summed candidate score instead of letting earlier signals claim rows first.
+// Signals only compete with signals that share a candidate row, so the problem is
+// split into connected components and each is solved independently.
+export const assignActivityOptimally = (
+  signals: SignalForMatching[],
+  activityHistory: PortfolioRow[],
+  settings: MatchSettings = DEFAULT_MATCH_SETTINGS,
+  index: ActivityIndex = buildActivityIndex(activityHistory),
+  usedActivityIds: Set<number> = new Set()
+): MatchAudit[] => {
+  const candidatesBySignal: MatchCandidate[][] = signals.map(signal => {
+    const candidates: MatchCandidate[] = [];
+    findActivityCandidates(index, signal, settings.windowSeconds).forEach(idx => {
+      const candidate = scoreCandidate(signal, activityHistory[idx], idx, settings.weights, settings.windowSeconds);
+      if (!candidate) return;
+      if (candidate.eligible && usedActivityIds.has(idx)) {
+        candidate.eligible = false;
+        candidate.rejectionReason = 'Already matched to an earlier signal';
+      }
+      candidates.push(candidate);
+    });
+    return candidates.sort(compareCandidates);
+  });
+
+  // Union-find over signals (0..n-1) and activity rows (n + rowIndex)
+  const parent = new Map<number, number>();
+  const find = (x: number): number => {
+    let root = x;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(x, root);
+    return root;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  };
+  candidatesBySignal.forEach((candidates, s) => {
+    find(s);
+    candidates.filter(c => c.eligible).forEach(c => union(s, signals.length + c.activityIndex));
+  });
+
+  const components = new Map<number, number[]>();
+  signals.forEach((_, s) => {
+    const root = find(s);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(s);
+  });
+
+  const winnerBySignal = new Array<number | undefined>(signals.length).fill(undefined);
+  const fallbackSizeBySignal = new Map<number, number>();
+  components.forEach(memberSignals => {
+    const rows = Array.from(new Set(
+      memberSignals.flatMap(s => candidatesBySignal[s].filter(c => c.eligible).map(c => c.activityIndex))
+    ));
+    if (rows.length === 0) return;
+
+    const size = memberSignals.length + rows.length;
+    if (size > MAX_OPTIMAL_COMPONENT_SIZE) {
+      // Chat order, closest free fill first, as in greedy mode
+      const taken = new Set<number>();
+      memberSignals.forEach(s => {
+        const pick = candidatesBySignal[s].filter(c => c.eligible && !taken.has(c.activityIndex)).sort(compareByTime)[0];
+        if (pick) {
+          taken.add(pick.activityIndex);
+          winnerBySignal[s] = pick.activityIndex;
+        }
+        fallbackSizeBySignal.set(s, size);
+      });
+      return;
+    }
+
+    // Real rows first, then one "unmatched" slot per signal
+    const cost = memberSignals.map(s => {
+      const scoreByRow = new Map(candidatesBySignal[s].filter(c => c.eligible).map(c => [c.activityIndex, c.score.total]));
+      const rowCosts = rows.map(r => scoreByRow.has(r) ? 1 - scoreByRow.get(r)! : FORBIDDEN_COST);
+      return [...rowCosts, ...memberSignals.map(() => UNMATCHED_COST)];
+    });
+
+    solveAssignment(cost).forEach((col, idx) => {
+      if (col >= 0 && col < rows.length) winnerBySignal[memberSignals[idx]] = rows[col];
+    });
+  });
+
+  const ownerByRow = new Map<number, number>();
+  winnerBySignal.forEach((row, s) => {
+    if (row !== undefined) ownerByRow.set(row, s);
+  });
+
+  return candidatesBySignal.map((candidates, s) => {
+    const winnerIndex = winnerBySignal[s];
+    candidates.forEach(c => {
+      if (!c.eligible || c.activityIndex === winnerIndex) return;
+      if (ownerByRow.has(c.activityIndex)) {
+        c.eligible = false;
+        c.rejectionReason = 'Assigned to another signal';
+      }
+    });
+
+    const winner = candidates.find(c => c.activityIndex === winnerIndex);
+    const fallbackSize = fallbackSizeBySignal.get(s);
+    let reason: string;
+    if (fallbackSize !== undefined) {
+      const tooBusy = `${fallbackSize} signals and rows compete for these fills, too many for optimal assignment`;
+      reason = winner
+        ? `${tooBusy}; matched greedily to the closest free fill (score ${winner.score.total.toFixed(2)}, ${winner.timeDeltaSeconds >= 0 ? '+' : ''}${winner.timeDeltaSeconds.toFixed(0)}s)`
+        : `${tooBusy}; matched greedily and every candidate went to an earlier signal`;
+    } else if (winner) {
+      const rank = candidates.indexOf(winner) + 1;
+      const delta = `${winner.timeDeltaSeconds >= 0 ? '+' : ''}${winner.timeDeltaSeconds.toFixed(0)}s`;
+      reason = rank === 1
+        ? `Top candidate (score ${winner.score.total.toFixed(2)}, ${delta}), kept by optimal assignment`
+        : `Optimal assignment picked candidate #${rank} (score ${winner.score.total.toFixed(2)}, ${delta}) so higher-ranked rows could go to other signals`;
+    } else if (candidates.length === 0) {
+      reason = `No ${settings.windowSeconds}s-window activity row with the same side and slug`;
+    } else {
+      reason = `All ${candidates.length} candidate(s) rejected or assigned to other signals`;
+    }
+
+    return {
+      candidates: truncateCandidates(candidates, winner),
+      totalCandidates: candidates.length,
+      winnerActivityIndex: winnerIndex,
+      reason,
+      ...(fallbackSize !== undefined && { greedyFallback: true })
+    };
+  });
+};
+
+// Pairs trades from a greedy and an optimal run of the same inputs (same signal
+// order) and returns the signals whose matched execution differs.
+export const diffMatchModes = (greedy: ProcessedTrade[], optimal: ProcessedTrade[]): MatchDiffEntry[] => {
+  const diffs: MatchDiffEntry[] = [];
+  greedy.forEach((g, idx) => {
+    const o = optimal[idx];
+    if (!o) return;
+    if (g.matchAudit?.winnerActivityIndex !== o.matchAudit?.winnerActivityIndex) {
+      diffs.push({ greedy: g, optimal: o });
+    }
+  });
+  return diffs;
+};
+
+const describeDecision = (
+  winner: MatchCandidate | undefined,
+  byTime: MatchCandidate[],
+  byScore: MatchCandidate[],
+  candidates: MatchCandidate[],
+  windowSeconds: number
+): string => {
+  if (!winner) {
+    if (candidates.length === 0) {
+      return `No ${windowSeconds}s-window activity row with the same side and slug`;
+    }
+    return `All ${candidates.length} candidate(s) rejected`;
+  }
+
+  const formatDelta = (c: MatchCandidate) => `${c.timeDeltaSeconds >= 0 ? '+' : ''}${c.timeDeltaSeconds.toFixed(0)}s`;
+  if (byTime.length === 1) {
+    return `Only eligible candidate (score ${winner.score.total.toFixed(2)}, ${formatDelta(winner)})`;
+  }
+
+  const reason = `Closest of ${byTime.length} eligible (${formatDelta(winner)}, score ${winner.score.total.toFixed(2)}); next closest ${formatDelta(byTime[1])}`;
+  const topScored = byScore[0];
+  if (topScored === winner || topScored.score.total - winner.score.total < 0.005) return reason;
+  return `${reason}. Top-scored row (score ${topScored.score.total.toFixed(2)}, ${formatDelta(topScored)}) was further away; optimal mode would weigh it`;
+};
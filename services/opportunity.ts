@@ -0,0 +1,66 @@
+import { ProcessedTrade, PortfolioRow, TradeStatus, MissedTrade, MissedPnlGroup, OpportunityCostReport } from '../types';
+import { createPositionMatcher, resolveClosedPosition } from './parser';
+import { simplify } from './matching';
+import { collectMarketPrices, nearestExecutionPrice, instrumentKey } from './prices';
+
+const groupMissed = (missed: MissedTrade[], keyOf: (m: MissedTrade) => string): MissedPnlGroup[] => {
+  const groups = new Map<string, MissedPnlGroup>();
+  missed.forEach(m => {
+    const key = keyOf(m);
+    if (!groups.has(key)) groups.set(key, { key, count: 0, stake: 0, missedPnl: 0, wins: 0 });
+    const g = groups.get(key)!;
+    g.count++;
+    g.stake += m.trade.amount;
+    g.missedPnl += m.hypotheticalPnl;
+    if (m.hypotheticalPnl > 0) g.wins++;
+  });
+  return Array.from(groups.values()).sort((a, b) => b.missedPnl - a.missedPnl);
+};
+
+// Estimates what failed and skipped signals would have made had they filled.
+// Only signals whose market has since settled in closedPositions are priced:
+// the exit is the settlement price, the entry the nearest real execution on the
+// same outcome, falling back to the position's average entry price. BUYs are
+// held to settlement; a missed SELL is the loss avoided (or gain given up) by
+// exiting at the entry price instead of holding.
+export const calculateOpportunityCost = (trades: ProcessedTrade[], closedPositions: PortfolioRow[]): OpportunityCostReport => {
+  const marketPrices = collectMarketPrices(trades);
+  const missed: MissedTrade[] = [];
+  let unsettled = 0;
+  let unpriced = 0;
+
+  trades
+    .filter(t => (t.status === TradeStatus.FAILED || t.status === TradeStatus.PENDING) && (t.action === 'BUY' || t.action === 'SELL'))
+    .forEach(t => {
+      const closedPos = closedPositions.find(createPositionMatcher(simplify(t.marketSlug), simplify(t.outcome)));
+      if (!closedPos) { unsettled++; return; }
+
+      const nearby = nearestExecutionPrice(marketPrices.get(instrumentKey(t)), new Date(t.date).getTime());
+      const entryPrice = nearby ?? (closedPos.avgPrice && closedPos.avgPrice < 1 ? closedPos.avgPrice : undefined);
+      if (!entryPrice || t.amount <= 0) { unpriced++; return; }
+
+      const { exitPrice } = resolveClosedPosition(closedPos);
+      const shares = t.amount / entryPrice;
+      const hypotheticalPnl = t.action === 'BUY'
+        ? shares * (exitPrice - entryPrice)
+        : shares * (entryPrice - exitPrice);
+
+      missed.push({
+        trade: t,
+        entryPrice,
+        entryPriceSource: nearby !== undefined ? 'Nearby execution' : 'Position avg price',
+        settlementPrice: exitPrice,
+        hypotheticalPnl
+      });
+    });
+
+  return {
+    missed,
+    totalMissedPnl: missed.reduce((sum, m) => sum + m.hypotheticalPnl, 0),
+    byReason: groupMissed(missed, m => m.trade.failureReason || 'Unknown'),
+    byTrader: groupMissed(missed, m => m.trade.traderName),
+    byCategory: groupMissed(missed, m => m.trade.category),
+    unsettled,
+    unpriced
+  };
+};
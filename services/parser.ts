@@ -1,5 +1,9 @@
 import Papa from 'papaparse';
-import { ChatLog, ProcessedTrade, TradeStatus, PortfolioRow } from '../types';
+import { ChatLog, ProcessedTrade, TradeStatus, PortfolioRow, ParseError, ChatDialect, MatchAudit, MatchSettings, PipelineProgress } from '../types';
+import { getDialect, DEFAULT_DIALECT_ID } from './dialects';
+import { rankActivityCandidates, assignActivityOptimally, buildActivityIndex, simplify, SignalForMatching, DEFAULT_MATCH_SETTINGS } from './matching';
+import { classifyMarket, collectMarketTags, describeMarket } from './taxonomy';
+import { DEFAULT_CLOCK_OFFSETS, DEFAULT_TIMEZONE, formatTimestamp, parseChatTimestamp } from './time';
 
 // Helper to clean currency strings (e.g. "$1,234.56" -> 1234.56)
 // Also handles accounting format for negative numbers: ($10.50) -> -10.50
@@ -35,6 +39,7 @@ const transformHeader = (header: string) => {
   if (lower === 'title') return 'title';
   if (lower === 'outcome') return 'outcome';
   if (lower === 'side') return 'side';
+  if (lower === 'type') return 'type';
   if (lower === 'timestamp') return 'timestamp';
   if (lower === 'price') return 'price';
   if (lower === 'curprice' || lower === 'cur price') return 'curPrice'; // New field mapping
@@ -44,59 +49,80 @@ const transformHeader = (header: string) => {
   if (lower === 'currentvalue' || lower === 'current value') return 'currentValue';
   if (lower === 'cashpnl' || lower === 'cash pnl') return 'cashPnl';
   if (lower === 'realizedpnl' || lower === 'realized pnl') return 'realizedPnl';
+  if (lower === 'tags' || lower === 'event tags') return 'tags';
   return h;
 };
 
-// Sport keyword detection
-const detectCategory = (title: string, slug: string): 'Sport' | 'Non-Sport' => {
-  const t = (title || '').toLowerCase();
-  const s = (slug || '').toLowerCase();
-  
-  const sportsKeywords = [
-    'nba', 'nfl', 'mlb', 'nhl', 'ufc', 'mma', 'boxing', // Leagues/Combat
-    'tennis', 'soccer', 'football', 'basketball', 'baseball', 'hockey', 'cricket', 'rugby', 'golf', 'volleyball', // Sport names
-    'f1', 'formula 1', 'grand prix', 'nascar', // Racing
-    'premier league', 'champions league', 'la liga', 'serie a', 'bundesliga', 'ligue 1', // Soccer leagues
-    'wimbledon', 'us open', 'french open', 'australian open', // Tennis
-    'super bowl', 'world series', 'stanley cup', // Finals
-    'olympics', 'medal', // Events
-    'touchdown', 'goals', 'points', 'rebounds', 'assists', // Stat markets
-    'over/under', 'o/u' // Betting terms
-  ];
-
-  if (sportsKeywords.some(k => t.includes(k) || s.includes(k))) {
-    return 'Sport';
-  }
+export const chatParseOptions = {
+  header: true,
+  dynamicTyping: false,
+  skipEmptyLines: true
+};
 
-  // VS logic: " vs ", " vs. ", " v. ", " v ", "-vs-", "-v-"
-  if (
-    /\bvs\.?\b/.test(t) || // Matches "vs" or "vs." as a whole word
-    /\bv\.\s/.test(t) ||   // Matches "v. "
-    /\bv\s/.test(t) ||     // Matches "v "
-    s.includes('-vs-') ||
-    s.includes('-v-')
-  ) {
-    return 'Sport';
-  }
+export const portfolioParseOptions = {
+  header: true,
+  dynamicTyping: false, // We will manually clean numbers
+  skipEmptyLines: true,
+  transformHeader
+};
 
-  // "Will X win on Y" pattern (e.g., "Will Real Madrid win on 2025-12")
-  if (/will .*win on/i.test(t)) {
-      return 'Sport';
-  }
+// Portfolio columns read through cleanFloat, where anything unreadable becomes 0
+export const NUMERIC_PORTFOLIO_FIELDS = ['size', 'avgPrice', 'currentValue', 'cashPnl', 'realizedPnl', 'usdcSize', 'price', 'curPrice'];
 
-  return 'Non-Sport';
+// Which list a portfolio row belongs to, from its Category column (null = ignored)
+export const portfolioRowKind = (category: string | undefined): 'open' | 'closed' | 'activity' | null => {
+  const cat = category ? category.toUpperCase() : '';
+  if (cat.includes('OPEN_POSITION')) return 'open';
+  if (cat.includes('CLOSED_POSITION')) return 'closed';
+  if (cat.includes('ACTIVITY_HISTORY')) return 'activity';
+  return null;
 };
 
-export const parseInputData = (portfolioCsv: string, chatCsv: string) => {
-  const parseOptions = {
-    header: true,
-    dynamicTyping: false, // We will manually clean numbers
-    skipEmptyLines: true,
-    transformHeader
-  };
+// Chat-only parse, used to sniff the dialect before the full pipeline runs
+export const parseChatLogs = (chatCsv: string): ChatLog[] => {
+  return Papa.parse<ChatLog>(chatCsv, chatParseOptions).data;
+};
+
+// Characters per Papa chunk when parsing reports progress
+const PARSE_CHUNK_SIZE = 1024 * 1024;
+
+// Progress callbacks fire at most this often while matching
+const MATCH_PROGRESS_EVERY = 500;
+
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+// The CSV is already in memory; Papa walks it in slices only so the worker can report how
+// far it got. Chunk-relative error rows are made absolute.
+const parseCsv = <T>(csv: string, options: object, onChunk?: (cursor: number) => void): { data: T[]; errors: any[] } => {
+  if (!onChunk) return Papa.parse<T>(csv, options);
+  const data: T[] = [];
+  const errors: any[] = [];
+  Papa.parse<T>(csv, {
+    ...options,
+    chunkSize: PARSE_CHUNK_SIZE,
+    chunk: (results: any) => {
+      results.errors.forEach((e: any) => errors.push({ ...e, row: e.row !== undefined ? e.row + data.length : undefined }));
+      results.data.forEach((row: T) => data.push(row));
+      onChunk(results.meta.cursor);
+    }
+  });
+  return { data, errors };
+};
+
+export const parseInputData = (portfolioCsv: string, chatCsv: string, onProgress?: (progress: PipelineProgress) => void) => {
+  const parseErrors: ParseError[] = [];
+  const total = portfolioCsv.length + chatCsv.length;
+  const reportParsed = (done: number) => onProgress?.({
+    stage: 'parse',
+    done,
+    total,
+    message: `Parsed ${formatMegabytes(done)}/${formatMegabytes(total)} MB`
+  });
 
   // Parse Consolidated Portfolio CSV
-  const portfolioRaw = Papa.parse<any>(portfolioCsv, parseOptions).data;
+  const portfolioResult = parseCsv<any>(portfolioCsv, portfolioParseOptions, onProgress && reportParsed);
+  const portfolioRaw = portfolioResult.data;
+  portfolioResult.errors.forEach(e => parseErrors.push({ file: 'portfolio', row: e.row, message: e.message }));
   
   const activePositions: PortfolioRow[] = [];
   const closedPositions: PortfolioRow[] = [];
@@ -104,64 +130,50 @@ export const parseInputData = (portfolioCsv: string, chatCsv: string) => {
 
   portfolioRaw.forEach((row: any) => {
     // Clean numeric fields
-    row.size = cleanFloat(row.size);
-    row.avgPrice = cleanFloat(row.avgPrice);
-    row.currentValue = cleanFloat(row.currentValue);
-    row.cashPnl = cleanFloat(row.cashPnl);
-    row.realizedPnl = cleanFloat(row.realizedPnl);
-    row.usdcSize = cleanFloat(row.usdcSize);
-    row.price = cleanFloat(row.price);
-    row.curPrice = cleanFloat(row.curPrice); // Clean new field
+    NUMERIC_PORTFOLIO_FIELDS.forEach(field => row[field] = cleanFloat(row[field]));
     row.timestamp = row.timestamp ? parseInt(row.timestamp) : undefined;
 
-    const cat = row.Category ? row.Category.toUpperCase() : '';
+    const kind = portfolioRowKind(row.Category);
 
-    if (cat.includes('OPEN_POSITION')) {
+    if (kind === 'open') {
         activePositions.push(row);
-    } else if (cat.includes('CLOSED_POSITION')) {
+    } else if (kind === 'closed') {
         closedPositions.push(row);
-    } else if (cat.includes('ACTIVITY_HISTORY')) {
+    } else if (kind === 'activity') {
         activityHistory.push(row);
     }
   });
 
   // Parse Chat Logs
-  const chatLogs = Papa.parse<ChatLog>(chatCsv, { 
-    header: true, 
-    dynamicTyping: false, 
-    skipEmptyLines: true 
-  }).data;
-
-  return { activePositions, closedPositions, activityHistory, chatLogs };
-};
+  const chatResult = parseCsv<ChatLog>(chatCsv, chatParseOptions, onProgress && (cursor => reportParsed(portfolioCsv.length + cursor)));
+  const chatLogs = chatResult.data;
+  chatResult.errors.forEach(e => parseErrors.push({ file: 'chat', row: e.row, message: e.message }));
 
-const extractTraderName = (content: string): string => {
-  const match = content.match(/\*\*([^*]+)\*\*/);
-  return match ? match[1].trim() : 'Unknown Trader';
+  return { activePositions, closedPositions, activityHistory, chatLogs, parseErrors };
 };
 
-const simplify = (str: string | undefined | null) => {
-    if (!str) return '';
-    return str.toLowerCase().replace(/[^a-z0-9]/g, '');
+// Signal prices come as a probability (0.62) or in cents (62¢, 62c, or a bare 62)
+const parseSignalPrice = (text?: string): number | undefined => {
+  if (!text) return undefined;
+  const value = parseFloat(text);
+  if (isNaN(value) || value <= 0) return undefined;
+  const price = /[¢c]/i.test(text) || value > 1 ? value / 100 : value;
+  return price > 0 && price < 1 ? price : undefined;
 };
 
-const getFailureReason = (line: string): string | null => {
+const getFailureReason = (line: string, dialect: ChatDialect): string | null => {
     if (!line) return null;
-    if (line.includes('Insufficient USDC balance')) return 'Insufficient Balance';
-    if (line.includes('Market odds too high') || line.includes('Market odds too low')) return 'Odds Limit Exceeded';
-    if (line.includes('Market liquidity too low')) return 'Low Liquidity';
-    if (line.includes('Would exceed max spend limit')) return 'Max Spend Limit';
-    if (line.includes('Balance too small to sell')) return 'Balance Too Small';
-    if (line.includes('Order status: delayed')) return 'Delayed/Retrying';
-    if (line.includes('Failed to buy')) return 'Generic Failure';
-    return null;
+    const rule = dialect.failureReasons.find(r => r.patterns.some(p => line.includes(p)));
+    return rule ? rule.reason : null;
 };
 
-const parseTradeDetails = (line: string, nextLine: string | undefined) => {
+export const parseTradeDetails = (line: string, nextLine: string | undefined, dialect: ChatDialect) => {
+  const tradeLine = dialect.parseTradeLine(line);
   const result = {
-    action: 'Unknown' as 'BUY' | 'SELL' | 'Unknown',
-    outcome: '',
-    amount: 0,
+    action: tradeLine.action,
+    outcome: tradeLine.outcome,
+    amount: cleanFloat(tradeLine.amountText),
+    signalPrice: parseSignalPrice(tradeLine.priceText),
     marketTitle: '',
     marketUrl: '',
     marketSlug: '',
@@ -169,20 +181,6 @@ const parseTradeDetails = (line: string, nextLine: string | undefined) => {
     failureReason: ''
   };
 
-  const tradeRegex = /(BUY|SELL)[:\s]+(?:["']?([^"'$]+)["']?)?\s+\$([0-9,.]+)/i;
-  const tradeMatch = line.match(tradeRegex);
-
-  if (tradeMatch) {
-    result.action = tradeMatch[1].toUpperCase() as 'BUY' | 'SELL';
-    result.outcome = tradeMatch[2] ? tradeMatch[2].trim() : '';
-    result.amount = cleanFloat(tradeMatch[3]);
-  }
-  
-  if (!result.outcome) {
-      const simpleMatch = line.match(/(BUY|SELL)\s+(.*?)\s+\$/i);
-      if (simpleMatch) result.outcome = simpleMatch[2].trim();
-  }
-
   // 1. Try Markdown Link: [Title](URL)
   const linkRegex = /\[([^\]]+)\]\((https:\/\/polymarket\.com\/(?:market|event)\/([^)\s]+))\)/;
   const linkMatch = line.match(linkRegex);
@@ -211,16 +209,14 @@ const parseTradeDetails = (line: string, nextLine: string | undefined) => {
     }
   }
 
-  if (line.includes('⏭️') || line.includes('✗')) {
+  const statusMarker = dialect.statusMarkers.find(m => line.includes(m.marker));
+  if (statusMarker) {
       result.status = TradeStatus.FAILED;
-      const reason = getFailureReason(line);
-      if (reason) result.failureReason = reason;
-      else if (line.includes('⏭️')) result.failureReason = 'Skipped';
-      else result.failureReason = 'Execution Failed';
+      result.failureReason = getFailureReason(line, dialect) || statusMarker.defaultReason;
   }
 
   if (nextLine) {
-      const nextLineReason = getFailureReason(nextLine);
+      const nextLineReason = getFailureReason(nextLine, dialect);
       if (nextLineReason) {
           result.status = TradeStatus.FAILED;
           result.failureReason = nextLineReason;
@@ -230,300 +226,381 @@ const parseTradeDetails = (line: string, nextLine: string | undefined) => {
   return result;
 };
 
-export const processTrades = (
-  chatLogs: ChatLog[],
-  activePositions: PortfolioRow[],
-  closedPositions: PortfolioRow[],
-  activityHistory: PortfolioRow[]
-): ProcessedTrade[] => {
-  const processed: ProcessedTrade[] = [];
-  const usedActivityIds = new Set<number>();
-  
-  // Track aggregated attempts: Map<"TraderName-MarketSlug", TotalAmount>
-  const attemptsMap = new Map<string, number>();
+// Matches position rows to a signal: by asset id when known, otherwise by slug and outcome
+export const createPositionMatcher = (simpleSlug: string, simpleOutcome: string, matchAssetId?: string) => (p: PortfolioRow) => {
+    const pSlug = simplify(p.slug);
+    const pOutcome = simplify(p.outcome);
+    
+    // 1. Asset Match (Strongest)
+    if (matchAssetId && p.asset === matchAssetId) return true;
+
+    // 2. Slug Match (Weaker) - Must also check Outcome
+    if (p.slug && (pSlug.includes(simpleSlug) || simpleSlug.includes(pSlug))) {
+        // If outcomes are defined, they MUST match
+        if (pOutcome && simpleOutcome) {
+            if (pOutcome === simpleOutcome) return true;
+            // If mismatched outcomes, return false
+            return false; 
+        }
+        // If outcome is missing in position row, we assume match (risky but needed fallback)
+        return true;
+    }
+    return false;
+};
 
-  // 1. First Pass: Create ProcessedTrade objects
-  chatLogs.forEach((log, logIndex) => {
-    if (!log.content.match(/(BUY|SELL)/i) && !log.content.includes('http')) return;
-    if (log.content.includes('Your Polymarket Portfolio')) return;
+// Exit price of a closed/settled position row and whether it paid out
+export const resolveClosedPosition = (closedPos: PortfolioRow): { exitPrice: number; result: 'WIN' | 'LOSS' } => {
+  let exitPrice = 0;
+  let result: 'WIN' | 'LOSS';
+  const posCurPrice = closedPos.curPrice;
+  const posPrice = closedPos.price;
+  const realizedPnl = closedPos.realizedPnl || 0;
+  const posValue = closedPos.currentValue;
+  const posSize = closedPos.size;
+
+  // Priority 1: Use explicit curPrice (from new CSV format)
+  if (posCurPrice !== undefined) {
+       exitPrice = posCurPrice;
+       result = exitPrice > 0.5 ? 'WIN' : 'LOSS';
+  }
+  // Priority 2: Use explicit Price if available and resembles binary (0 or 1)
+  else if (posPrice !== undefined && (posPrice > 0.9 || posPrice < 0.1)) {
+       exitPrice = posPrice > 0.9 ? 1 : 0;
+       result = exitPrice === 1 ? 'WIN' : 'LOSS';
+  } 
+  // Priority 3: Use Value / Size Ratio (Strong Indicator for Settled Positions)
+  else if (posSize && posValue !== undefined) {
+      const ratio = Math.abs(posSize) > 0 ? posValue / Math.abs(posSize) : 0;
+      if (ratio > 0.9) {
+          exitPrice = 1;
+          result = 'WIN';
+      } else if (ratio < 0.1) {
+          exitPrice = 0;
+          result = 'LOSS';
+      } else {
+          exitPrice = realizedPnl > 0 ? 1 : 0;
+          result = realizedPnl > 0 ? 'WIN' : 'LOSS';
+      }
+  }
+  // Priority 4: Fallback to PnL
+  else {
+      if (realizedPnl > 0) {
+          exitPrice = 1; 
+          result = 'WIN';
+      } else {
+          exitPrice = 0;
+          result = 'LOSS';
+      }
+  }
+
+  return { exitPrice, result };
+};
 
+type TradeDetails = ReturnType<typeof parseTradeDetails>;
+
+interface ParsedSignal {
+  log: ChatLog;
+  logIndex: number;
+  lineIndex: number;
+  logDate: Date;
+  traderName: string;
+  details: TradeDetails;
+  simpleSlug: string;
+  category: string;
+}
+
+const toSignalForMatching = (signal: ParsedSignal): SignalForMatching => ({
+  side: signal.details.action.toUpperCase(),
+  simpleSlug: signal.simpleSlug,
+  simpleOutcome: simplify(signal.details.outcome),
+  amount: signal.details.amount,
+  time: signal.logDate.getTime() / 1000
+});
+
+// Parses signal lines out of the chat messages. Markets are classified with the
+// default taxonomy; custom rules are applied afterwards (see applyTaxonomy).
+const collectSignals = (
+  chatLogs: ChatLog[],
+  dialect: ChatDialect,
+  marketTags: Map<string, string[]> = new Map(),
+  chatOffsetSeconds = 0
+): ParsedSignal[] => {
+  const signals: ParsedSignal[] = [];
+  chatLogs.forEach((log, logIndex) => {
     const lines = log.content.split('\n');
-    const traderName = extractTraderName(log.content);
-    const logDate = new Date(log.date);
+    if (!lines.some(dialect.isTradeLine) && !log.content.includes('http')) return;
+    if (dialect.ignoredMessageMarkers.some(m => log.content.includes(m))) return;
+
+    // Without a time a signal can't be matched or placed on a day; validation reports the message
+    const logDate = parseChatTimestamp(log.date, chatOffsetSeconds);
+    if (isNaN(logDate.getTime())) return;
+
+    const traderName = dialect.extractTraderName(log.content) || 'Unknown Trader';
 
     for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        if (!line.match(/(BUY|SELL)/i)) continue;
+        if (!dialect.isTradeLine(line)) continue;
 
         const nextLine = lines[i + 1];
-        const details = parseTradeDetails(line, nextLine);
+        const details = parseTradeDetails(line, nextLine, dialect);
         
         if (!details.marketSlug && !details.marketTitle) continue;
         
         const simpleSlug = simplify(details.marketSlug);
-        const category = detectCategory(details.marketTitle, details.marketSlug);
+        const { category } = classifyMarket(describeMarket(details, marketTags));
 
-        // Accumulate attempts
-        if (simpleSlug) {
-            const key = `${traderName}-${simpleSlug}`;
-            const currentTotal = attemptsMap.get(key) || 0;
-            attemptsMap.set(key, currentTotal + details.amount);
-        }
+        signals.push({ log, logIndex, lineIndex: i, logDate, traderName, details, simpleSlug, category });
+    }
+  });
+  return signals;
+};
 
-        let matchedStatus: 'Active' | 'Closed' | 'None' = 'None';
-        let pnl = undefined;
-        let currentValue = undefined;
-        let matchedTxHash = undefined;
-        let matchedExecutionPrice = undefined;
-        let matchedExecutionAmount = undefined;
-        let shares = undefined;
-        let latencySeconds = undefined;
-        let matchConfidence: 'Exact (Activity)' | 'Inferred (Position)' | 'None' = 'None';
-        let closedDate = undefined;
-        let result: 'WIN' | 'LOSS' | 'OPEN' | undefined = undefined;
-
-        if (details.status === TradeStatus.SUCCESS) {
-            const simpleSide = details.action.toUpperCase();
-            const simpleOutcome = simplify(details.outcome); // e.g. "yes" or "no"
-            const tradeTime = logDate.getTime() / 1000;
-
-            let bestActivityIndex = -1;
-            let minTimeDiff = 3600; // Allow 1 hour window
-
-            // Helper for position matching that can be reused in both activity match and fallback
-            const createPositionMatcher = (matchAssetId?: string) => (p: PortfolioRow) => {
-                const pSlug = simplify(p.slug);
-                const pOutcome = simplify(p.outcome);
-                
-                // 1. Asset Match (Strongest)
-                if (matchAssetId && p.asset === matchAssetId) return true;
-
-                // 2. Slug Match (Weaker) - Must also check Outcome
-                if (p.slug && (pSlug.includes(simpleSlug) || simpleSlug.includes(pSlug))) {
-                    // If outcomes are defined, they MUST match
-                    if (pOutcome && simpleOutcome) {
-                        if (pOutcome === simpleOutcome) return true;
-                        // If mismatched outcomes, return false
-                        return false; 
-                    }
-                    // If outcome is missing in position row, we assume match (risky but needed fallback)
-                    return true;
-                }
-                return false;
-            };
+// Simplified market slug of every signal in the messages (one entry per signal)
+export const extractSignalMarkets = (chatLogs: ChatLog[], dialect: ChatDialect): string[] =>
+  collectSignals(chatLogs, dialect).map(s => s.simpleSlug);
 
-            // Attempt to find activity history first
-            activityHistory.forEach((h, idx) => {
-                if (usedActivityIds.has(idx)) return;
-                
-                // Match Side (BUY/SELL)
-                if (h.side?.toUpperCase() !== simpleSide) return;
-
-                // Match Slug
-                const hSlug = simplify(h.slug);
-                if (!hSlug.includes(simpleSlug) && !simpleSlug.includes(hSlug)) return;
-
-                // Match Time
-                const activityTime = h.timestamp || 0;
-                const diff = Math.abs(activityTime - tradeTime);
-
-                // Find closest match within window
-                if (diff < minTimeDiff) {
-                    const hOutcome = simplify(h.outcome);
-                    // Ensure activity outcome matches trade outcome (e.g. Yes matches Yes)
-                    if (hOutcome && simpleOutcome && (hOutcome === 'yes' || hOutcome === 'no') && (simpleOutcome === 'yes' || simpleOutcome === 'no')) {
-                         if (hOutcome !== simpleOutcome) return;
-                    }
+// `marketFilter` restricts matching to signals on the given (simplified) markets,
+// so an append can re-match only the markets it touched.
+export const processTrades = (
+  chatLogs: ChatLog[],
+  activePositions: PortfolioRow[],
+  closedPositions: PortfolioRow[],
+  activityHistory: PortfolioRow[],
+  dialect: ChatDialect = getDialect(DEFAULT_DIALECT_ID),
+  matchSettings: MatchSettings = DEFAULT_MATCH_SETTINGS,
+  marketFilter?: (simpleSlug: string) => boolean,
+  onProgress?: (progress: PipelineProgress) => void,
+  claimedActivityIds: Set<number> = new Set() // Rows already owned by trades kept from an earlier run
+): ProcessedTrade[] => {
+  const processed: ProcessedTrade[] = [];
+  const usedActivityIds = new Set<number>(claimedActivityIds);
+  const { chatSeconds, activitySeconds } = matchSettings.clockOffsets || DEFAULT_CLOCK_OFFSETS;
 
-                    minTimeDiff = diff;
-                    bestActivityIndex = idx;
-                }
-            });
+  // Align the activity clock first; mapping keeps row indices stable for the audits
+  if (activitySeconds) {
+      activityHistory = activityHistory.map(row => row.timestamp ? { ...row, timestamp: row.timestamp + activitySeconds } : row);
+  }
+  
+  // 1. First Pass: Parse signal lines out of the chat messages
+  let signals = collectSignals(chatLogs, dialect, collectMarketTags([...activePositions, ...closedPositions, ...activityHistory]), chatSeconds);
+  if (marketFilter) signals = signals.filter(sig => marketFilter(sig.simpleSlug));
 
-            if (bestActivityIndex !== -1) {
-                // --- EXACT MATCH FOUND IN ACTIVITY HISTORY ---
-                usedActivityIds.add(bestActivityIndex);
-                const activityMatch = activityHistory[bestActivityIndex];
-                
-                matchConfidence = 'Exact (Activity)';
-                matchedTxHash = activityMatch.transactionHash;
-                
-                const entryPrice = activityMatch.avgPrice || activityMatch.price || 0;
-                const tradeShares = activityMatch.size || 0;
-                
-                matchedExecutionPrice = entryPrice;
-                matchedExecutionAmount = activityMatch.usdcSize || (entryPrice * tradeShares);
-                shares = tradeShares;
+  // Track aggregated attempts: Map<"TraderName-MarketSlug", TotalAmount>
+  const attemptsMap = new Map<string, number>();
+  signals.forEach(({ traderName, simpleSlug, details }) => {
+    if (!simpleSlug) return;
+    const key = `${traderName}-${simpleSlug}`;
+    attemptsMap.set(key, (attemptsMap.get(key) || 0) + details.amount);
+  });
+
+  // 2. Optimal mode: solve the signal -> activity assignment over all claimed-successful signals at once
+  const activityIndex = buildActivityIndex(activityHistory);
+  const matchable = signals.filter(sig => sig.details.status === TradeStatus.SUCCESS);
+  const optimalAudits = new Map<ParsedSignal, MatchAudit>();
+  const reportMatched = (done: number) => onProgress?.({
+      stage: 'match',
+      done,
+      total: signals.length,
+      message: `Matched ${done.toLocaleString()}/${signals.length.toLocaleString()} signals`
+  });
+  reportMatched(0);
+  if (matchSettings.mode === 'optimal') {
+      const audits = assignActivityOptimally(matchable.map(toSignalForMatching), activityHistory, matchSettings, activityIndex, usedActivityIds);
+      matchable.forEach((sig, idx) => optimalAudits.set(sig, audits[idx]));
+  }
+
+  // 3. Match each signal to its execution and position
+  signals.forEach((signal, signalIndex) => {
+    const { log, logIndex, lineIndex: i, logDate, traderName, details, simpleSlug, category } = signal;
+    if (signalIndex > 0 && signalIndex % MATCH_PROGRESS_EVERY === 0) reportMatched(signalIndex);
+
+    let matchedStatus: 'Active' | 'Closed' | 'None' = 'None';
+    let pnl = undefined;
+    let currentValue = undefined;
+    let markPrice = undefined;
+    let matchedTxHash = undefined;
+    let matchedAsset = undefined;
+    let matchedExecutionPrice = undefined;
+    let matchedExecutionAmount = undefined;
+    let shares = undefined;
+    let latencySeconds = undefined;
+    let matchConfidence: 'Exact (Activity)' | 'Inferred (Position)' | 'None' = 'None';
+    let matchAudit: MatchAudit | undefined = undefined;
+    let closedDate = undefined;
+    let result: 'WIN' | 'LOSS' | 'OPEN' | undefined = undefined;
+
+    if (details.status === TradeStatus.SUCCESS) {
+        const simpleOutcome = simplify(details.outcome); // e.g. "yes" or "no"
+        const tradeTime = logDate.getTime() / 1000;
+
+        // Attempt to find activity history first
+        matchAudit = optimalAudits.get(signal) || rankActivityCandidates(
+            toSignalForMatching(signal),
+            activityHistory,
+            usedActivityIds,
+            matchSettings,
+            activityIndex
+        );
+        const bestActivityIndex = matchAudit.winnerActivityIndex ?? -1;
+
+        if (bestActivityIndex !== -1) {
+            // --- EXACT MATCH FOUND IN ACTIVITY HISTORY ---
+            usedActivityIds.add(bestActivityIndex);
+            const activityMatch = activityHistory[bestActivityIndex];
+            
+            matchConfidence = 'Exact (Activity)';
+            matchedTxHash = activityMatch.transactionHash;
+            matchedAsset = activityMatch.asset;
+            
+            const entryPrice = activityMatch.avgPrice || activityMatch.price || 0;
+            const tradeShares = activityMatch.size || 0;
+            
+            matchedExecutionPrice = entryPrice;
+            matchedExecutionAmount = activityMatch.usdcSize || (entryPrice * tradeShares);
+            shares = tradeShares;
+            
+            if (activityMatch.timestamp) {
+                latencySeconds = activityMatch.timestamp - tradeTime;
+            }
+
+            const assetId = activityMatch.asset;
+            const isMatchingPosition = createPositionMatcher(simpleSlug, simpleOutcome, assetId);
+            
+            // Check Active Positions
+            const activePos = activePositions.find(isMatchingPosition);
+            
+            if (activePos) {
+                matchedStatus = 'Active';
+                result = 'OPEN';
+                // Active Position Valuation
+                const currentPrice = activePos.price || (activePos.currentValue && activePos.size ? activePos.currentValue / activePos.size : 0);
+                pnl = (currentPrice - entryPrice) * tradeShares;
+                currentValue = currentPrice * tradeShares;
+                markPrice = currentPrice;
                 
-                if (activityMatch.timestamp) {
-                    latencySeconds = activityMatch.timestamp - tradeTime;
+                // Backfill URL if missing
+                if (!details.marketUrl && activePos.slug) {
+                    details.marketUrl = `https://polymarket.com/event/${activePos.slug}`;
                 }
+            } else {
+                // Check Closed Positions
+                const closedPos = closedPositions.find(isMatchingPosition);
+                if (closedPos) {
+                    matchedStatus = 'Closed';
+                    if (closedPos.date) closedDate = closedPos.date;
+
+                    // PnL Logic for Closed/Settled Positions
+                    const settlement = resolveClosedPosition(closedPos);
+                    const exitPrice = settlement.exitPrice;
+                    result = settlement.result;
+
+                    pnl = (exitPrice - entryPrice) * tradeShares;
+                    currentValue = exitPrice * tradeShares;
+                    markPrice = exitPrice;
 
-                const assetId = activityMatch.asset;
-                const isMatchingPosition = createPositionMatcher(assetId);
-                
-                // Check Active Positions
-                const activePos = activePositions.find(isMatchingPosition);
-                
-                if (activePos) {
-                    matchedStatus = 'Active';
-                    result = 'OPEN';
-                    // Active Position Valuation
-                    const currentPrice = activePos.price || (activePos.currentValue && activePos.size ? activePos.currentValue / activePos.size : 0);
-                    pnl = (currentPrice - entryPrice) * tradeShares;
-                    currentValue = currentPrice * tradeShares;
-                    
                     // Backfill URL if missing
-                    if (!details.marketUrl && activePos.slug) {
-                        details.marketUrl = `https://polymarket.com/event/${activePos.slug}`;
-                    }
-                } else {
-                    // Check Closed Positions
-                    const closedPos = closedPositions.find(isMatchingPosition);
-                    if (closedPos) {
-                        matchedStatus = 'Closed';
-                        if (closedPos.date) closedDate = closedPos.date;
-
-                        // PnL Logic for Closed/Settled Positions
-                        let exitPrice = 0;
-                        const posCurPrice = closedPos.curPrice;
-                        const posPrice = closedPos.price;
-                        const realizedPnl = closedPos.realizedPnl || 0;
-                        const posValue = closedPos.currentValue;
-                        const posSize = closedPos.size;
-
-                        // Priority 1: Use explicit curPrice (from new CSV format)
-                        if (posCurPrice !== undefined) {
-                             exitPrice = posCurPrice;
-                             result = exitPrice > 0.5 ? 'WIN' : 'LOSS';
-                        }
-                        // Priority 2: Use explicit Price if available and resembles binary (0 or 1)
-                        else if (posPrice !== undefined && (posPrice > 0.9 || posPrice < 0.1)) {
-                             exitPrice = posPrice > 0.9 ? 1 : 0;
-                             result = exitPrice === 1 ? 'WIN' : 'LOSS';
-                        } 
-                        // Priority 3: Use Value / Size Ratio (Strong Indicator for Settled Positions)
-                        else if (posSize && posValue !== undefined) {
-                            const ratio = Math.abs(posSize) > 0 ? posValue / Math.abs(posSize) : 0;
-                            if (ratio > 0.9) {
-                                exitPrice = 1;
-                                result = 'WIN';
-                            } else if (ratio < 0.1) {
-                                exitPrice = 0;
-                                result = 'LOSS';
-                            } else {
-                                exitPrice = realizedPnl > 0 ? 1 : 0;
-                                result = realizedPnl > 0 ? 'WIN' : 'LOSS';
-                            }
-                        }
-                        // Priority 4: Fallback to PnL
-                        else {
-                            if (realizedPnl > 0) {
-                                exitPrice = 1; 
-                                result = 'WIN';
-                            } else {
-                                exitPrice = 0;
-                                result = 'LOSS';
-                            }
-                        }
-
-                        pnl = (exitPrice - entryPrice) * tradeShares;
-                        currentValue = exitPrice * tradeShares;
-
-                        // Backfill URL if missing
-                        if (!details.marketUrl && closedPos.slug) {
-                            details.marketUrl = `https://polymarket.com/event/${closedPos.slug}`;
-                        }
+                    if (!details.marketUrl && closedPos.slug) {
+                        details.marketUrl = `https://polymarket.com/event/${closedPos.slug}`;
                     }
                 }
+            }
+        } else {
+            // --- INFERRED POSITION MATCH (NO ACTIVITY LOG FOUND) ---
+            // This happens if the user traded but the activity log is missing or time gap is too large.
+            // We attempt to find the position in Active OR Closed lists by Slug/Outcome.
+            
+            const isMatchingPosition = createPositionMatcher(simpleSlug, simpleOutcome); // No asset ID to match
+
+            const activePos = activePositions.find(isMatchingPosition);
+
+            if (activePos) {
+                matchedStatus = 'Active';
+                matchConfidence = 'Inferred (Position)';
+                result = 'OPEN';
+                // We can't calculate exact PnL without entry price from Activity, 
+                // but we can try using "Average Price" from the active position row if available
+                if (activePos.avgPrice && activePos.currentValue && activePos.size) {
+                     const entryPx = activePos.avgPrice;
+                     const currPx = activePos.price || (activePos.currentValue / activePos.size);
+                     pnl = (currPx - entryPx) * activePos.size;
+                     shares = activePos.size;
+                     markPrice = currPx;
+                     
+                     // Fill execution stats for analytics
+                     matchedExecutionPrice = entryPx;
+                     matchedExecutionAmount = activePos.size * entryPx;
+                }
+
+                // Backfill URL if missing
+                if (!details.marketUrl && activePos.slug) {
+                    details.marketUrl = `https://polymarket.com/event/${activePos.slug}`;
+                }
             } else {
-                // --- INFERRED POSITION MATCH (NO ACTIVITY LOG FOUND) ---
-                // This happens if the user traded but the activity log is missing or time gap is too large.
-                // We attempt to find the position in Active OR Closed lists by Slug/Outcome.
-                
-                const isMatchingPosition = createPositionMatcher(undefined); // No asset ID to match
-
-                const activePos = activePositions.find(isMatchingPosition);
-
-                if (activePos) {
-                    matchedStatus = 'Active';
-                    matchConfidence = 'Inferred (Position)';
-                    result = 'OPEN';
-                    // We can't calculate exact PnL without entry price from Activity, 
-                    // but we can try using "Average Price" from the active position row if available
-                    if (activePos.avgPrice && activePos.currentValue && activePos.size) {
-                         const entryPx = activePos.avgPrice;
-                         const currPx = activePos.price || (activePos.currentValue / activePos.size);
-                         pnl = (currPx - entryPx) * activePos.size;
-                         shares = activePos.size;
-                         
-                         // Fill execution stats for analytics
-                         matchedExecutionPrice = entryPx;
-                         matchedExecutionAmount = activePos.size * entryPx;
-                    }
+                 // Check Closed Positions (New Logic)
+                 const closedPos = closedPositions.find(isMatchingPosition);
+                 if (closedPos) {
+                     matchedStatus = 'Closed';
+                     matchConfidence = 'Inferred (Position)';
+                     if (closedPos.date) closedDate = closedPos.date;
+                     if (closedPos.size) shares = closedPos.size;
+                     
+                     // If we inferred a closed position, we likely don't know the exact entry price from this specific trade.
+                     // However, the Closed Position row usually contains the 'Realized PnL' for that position.
+                     // We will use that as the best proxy.
+                     if (closedPos.realizedPnl !== undefined) {
+                         pnl = closedPos.realizedPnl;
+                         result = pnl > 0 ? 'WIN' : 'LOSS';
+                     }
 
-                    // Backfill URL if missing
-                    if (!details.marketUrl && activePos.slug) {
-                        details.marketUrl = `https://polymarket.com/event/${activePos.slug}`;
-                    }
-                } else {
-                     // Check Closed Positions (New Logic)
-                     const closedPos = closedPositions.find(isMatchingPosition);
-                     if (closedPos) {
-                         matchedStatus = 'Closed';
-                         matchConfidence = 'Inferred (Position)';
-                         if (closedPos.date) closedDate = closedPos.date;
-                         if (closedPos.size) shares = closedPos.size;
-                         
-                         // If we inferred a closed position, we likely don't know the exact entry price from this specific trade.
-                         // However, the Closed Position row usually contains the 'Realized PnL' for that position.
-                         // We will use that as the best proxy.
-                         if (closedPos.realizedPnl !== undefined) {
-                             pnl = closedPos.realizedPnl;
-                             result = pnl > 0 ? 'WIN' : 'LOSS';
-                         }
-
-                         // Backfill URL if missing
-                         if (!details.marketUrl && closedPos.slug) {
-                             details.marketUrl = `https://polymarket.com/event/${closedPos.slug}`;
-                         }
-                     } else {
-                         details.status = TradeStatus.MISSING;
-                         details.failureReason = 'No execution matched';
+                     // Backfill URL if missing
+                     if (!details.marketUrl && closedPos.slug) {
+                         details.marketUrl = `https://polymarket.com/event/${closedPos.slug}`;
                      }
-                }
+                 } else {
+                     details.status = TradeStatus.MISSING;
+                     details.failureReason = 'No execution matched';
+                 }
             }
         }
-
-        processed.push({
-            id: `${logIndex}-${i}-${Math.random().toString(36).substr(2, 9)}`,
-            date: log.date,
-            closedDate: closedDate,
-            traderName: traderName,
-            action: details.action,
-            outcome: details.outcome,
-            amount: details.amount,
-            marketTitle: details.marketTitle,
-            marketSlug: details.marketSlug,
-            marketUrl: details.marketUrl,
-            status: details.status,
-            failureReason: details.failureReason,
-            category: category,
-            matchedPositionStatus: matchedStatus,
-            pnl: pnl,
-            currentValue: currentValue,
-            matchedTxHash,
-            matchedExecutionPrice,
-            matchedExecutionAmount,
-            shares,
-            latencySeconds,
-            matchConfidence,
-            result
-        });
     }
+
+    // Audits can be shared (optimal mode), so a position fallback gets its own copy
+    const audit = matchAudit && matchConfidence === 'Inferred (Position)'
+        ? { ...matchAudit, reason: `${matchAudit.reason}; fell back to ${matchedStatus.toLowerCase()} position row` }
+        : matchAudit;
+
+    processed.push({
+        id: `${logIndex}-${i}-${Math.random().toString(36).substr(2, 9)}`,
+        date: logDate.toISOString(),
+        closedDate: closedDate,
+        traderName: traderName,
+        action: details.action,
+        outcome: details.outcome,
+        amount: details.amount,
+        signalPrice: details.signalPrice,
+        marketTitle: details.marketTitle,
+        marketSlug: details.marketSlug,
+        marketUrl: details.marketUrl,
+        status: details.status,
+        failureReason: details.failureReason,
+        category: category,
+        matchedPositionStatus: matchedStatus,
+        pnl: pnl,
+        currentValue: currentValue,
+        markPrice,
+        matchedTxHash,
+        matchedAsset,
+        matchedExecutionPrice,
+        matchedExecutionAmount,
+        shares,
+        latencySeconds,
+        matchConfidence,
+        matchAudit: audit,
+        result
+    });
   });
   
-  // 2. Second Pass: Assign Total Attempts
+  // 4. Final Pass: Assign Total Attempts
   processed.forEach(trade => {
       if (trade.marketSlug) {
           const simpleSlug = simplify(trade.marketSlug);
@@ -535,17 +612,21 @@ export const processTrades = (
       }
   });
 
+  reportMatched(signals.length);
   return processed;
 };
 
-export const exportToCSV = (trades: ProcessedTrade[]) => {
-  const csv = Papa.unparse(trades.map(t => ({
-    Date: t.date,
+// Builds the processed trades CSV. Kept free of DOM APIs so the CLI can reuse it;
+// the browser download lives in services/download.ts.
+export const exportToCSV = (trades: ProcessedTrade[], timezone: string = DEFAULT_TIMEZONE): string => {
+  return Papa.unparse(trades.map(t => ({
+    Date: isNaN(new Date(t.date).getTime()) ? t.date : formatTimestamp(new Date(t.date).getTime(), timezone),
     Trader: t.traderName,
     Action: t.action,
     Outcome: t.outcome,
     Category: t.category,
     'Signal Amount': t.amount,
+    'Signal Price': t.signalPrice ?? '',
     'Total Attempted': t.totalAttemptedAmount || '',
     'Exec Amount': t.matchedExecutionAmount || '',
     'Exec Price': t.matchedExecutionPrice || '',
@@ -556,20 +637,13 @@ export const exportToCSV = (trades: ProcessedTrade[]) => {
     'Matched Status': t.matchedPositionStatus,
     'Result': t.result || '',
     'Match Type': t.matchConfidence,
+    'Match Reason': t.matchAudit?.reason || '',
     'PnL': t.pnl ? t.pnl.toFixed(2) : '',
+    'Realized PnL': t.realizedPnl ? t.realizedPnl.toFixed(2) : '',
+    'Unrealized PnL': t.unrealizedPnl ? t.unrealizedPnl.toFixed(2) : '',
     'Current Value': t.currentValue ? t.currentValue.toFixed(2) : '',
     'Latency (s)': t.latencySeconds ? t.latencySeconds.toFixed(1) : '',
     'Tx Hash': t.matchedTxHash || '',
     Link: t.marketUrl
   })));
-
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', 'processed_trades_v3.csv');
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-};
\ No newline at end of file
+};
@@ -0,0 +1,278 @@
+import { ParsedInputs, ProcessedTrade, MatchSettings, CostBasisMethod, TaxonomyRule, PipelineProgress, AnalyticsResult, DialectDetection, ValidationReport, PortfolioSchema, ImportSummary, MatchDiffEntry, RangeReports, HoldingsReports, SimulationSettings, SimulationResult, ClockOffsets } from '../types';
+import { parseChatLogs, parseInputData, processTrades } from './parser';
+import { detectDialect, getDialect } from './dialects';
+import { diffMatchModes } from './matching';
+import { applyLotLedger } from './ledger';
+import { applyTaxonomy, collectMarketTags } from './taxonomy';
+import { calculateAnalytics } from './analytics';
+import { mergeImport, rematchAffectedMarkets } from './ingest';
+import { normalizePortfolioFiles } from './schema';
+import { validateInputData } from './validation';
+import { simulateCopyTrading } from './simulator';
+import { calculateOpportunityCost } from './opportunity';
+import { calculateExecutionQuality } from './execution';
+import { calculateLatencyReport, compareLatencyPeriods } from './latency';
+import { summarizeMarkets } from './markets';
+import { calculateTraderCorrelation } from './correlation';
+import { calculateExposure } from './exposure';
+import { buildResolutionCalendar } from './resolution';
+import { reconstructBalance } from './balance';
+
+// The processing pipeline as plain functions. services/pipeline.worker.ts runs them off
+// the main thread; calling them directly is the single-threaded path (CLI, scripts, tests).
+
+export type DateRange = { start: Date; end: Date };
+
+// A portfolio export as read, with the column mapping chosen for it
+export type PortfolioFile = { name: string; csv: string; schema: PortfolioSchema };
+
+export interface PipelineRequest {
+  portfolioCsv: string;
+  chatCsv: string;
+  dialectId: string | null; // null = auto-detect
+  matchSettings: MatchSettings;
+  costBasisMethod: CostBasisMethod;
+  taxonomyRules: TaxonomyRule[];
+}
+
+export const inputMarketTags = (inputs: ParsedInputs) =>
+  collectMarketTags([...inputs.activePositions, ...inputs.closedPositions, ...inputs.activityHistory]);
+
+export const runMatching = (
+  inputs: ParsedInputs,
+  settings: MatchSettings,
+  costBasisMethod: CostBasisMethod,
+  taxonomyRules: TaxonomyRule[],
+  onProgress?: (progress: PipelineProgress) => void
+) =>
+  applyTaxonomy(
+    applyLotLedger(
+      processTrades(inputs.chatLogs, inputs.activePositions, inputs.closedPositions, inputs.activityHistory, inputs.dialect, settings, undefined, onProgress),
+      costBasisMethod
+    ),
+    taxonomyRules,
+    inputMarketTags(inputs)
+  );
+
+export const runPipeline = (request: PipelineRequest, onProgress?: (progress: PipelineProgress) => void) => {
+  const { activePositions, closedPositions, activityHistory, chatLogs } = parseInputData(request.portfolioCsv, request.chatCsv, onProgress);
+  const dialect = getDialect(request.dialectId || detectDialect(chatLogs)[0].dialectId);
+  const inputs: ParsedInputs = { chatLogs, activePositions, closedPositions, activityHistory, dialect };
+  return { inputs, trades: runMatching(inputs, request.matchSettings, request.costBasisMethod, request.taxonomyRules, onProgress) };
+};
+
+// Greedy vs optimal assignment of the same inputs, for the match settings comparison
+export const runMatchDiff = (inputs: ParsedInputs, settings: MatchSettings, costBasisMethod: CostBasisMethod, taxonomyRules: TaxonomyRule[]) =>
+  diffMatchModes(
+    runMatching(inputs, { ...settings, mode: 'greedy' }, costBasisMethod, taxonomyRules),
+    runMatching(inputs, { ...settings, mode: 'optimal' }, costBasisMethod, taxonomyRules)
+  );
+
+// Mapped portfolio files become one consolidated CSV, checked against the chosen (or sniffed) dialect
+export const prepareInputs = (files: PortfolioFile[], chatCsv: string, dialectId: string | null) => {
+  const portfolio = normalizePortfolioFiles(files);
+  const dialect = getDialect(dialectId || detectDialect(parseChatLogs(chatCsv))[0].dialectId);
+  return { portfolioCsv: portfolio.csv, report: validateInputData(portfolio.csv, chatCsv, dialect, portfolio) };
+};
+
+// Merges new exports into the dataset and re-matches only the markets they touched
+export const runAppend = (
+  inputs: ParsedInputs,
+  previousTrades: ProcessedTrade[],
+  portfolioCsv: string,
+  chatCsv: string,
+  matchSettings: MatchSettings,
+  costBasisMethod: CostBasisMethod,
+  taxonomyRules: TaxonomyRule[],
+  onProgress?: (progress: PipelineProgress) => void
+) => {
+  const { inputs: merged, summary, affectedMarkets } = mergeImport(inputs, portfolioCsv, chatCsv, onProgress);
+  const trades = applyTaxonomy(
+    applyLotLedger(rematchAffectedMarkets(previousTrades, merged, affectedMarkets, matchSettings, onProgress), costBasisMethod),
+    taxonomyRules,
+    inputMarketTags(merged)
+  );
+  return { inputs: merged, summary, trades };
+};
+
+// Rebuilds a saved workspace's dataset by replaying its imports in order
+export const restoreInputs = (imports: { portfolioCsv: string; chatCsv: string }[], dialectId: string, onProgress?: (progress: PipelineProgress) => void) => {
+  const [initial, ...appended] = imports;
+  const { activePositions, closedPositions, activityHistory, chatLogs } = parseInputData(initial.portfolioCsv, initial.chatCsv, onProgress);
+  let dialect;
+  try {
+    dialect = getDialect(dialectId);
+  } catch {
+    // Saved with a dialect that is no longer registered
+    dialect = getDialect(detectDialect(chatLogs)[0].dialectId);
+  }
+  return appended.reduce<ParsedInputs>(
+    (acc, imp) => mergeImport(acc, imp.portfolioCsv, imp.chatCsv).inputs,
+    { chatLogs, activePositions, closedPositions, activityHistory, dialect }
+  );
+};
+
+export const filterTradesByDate = (trades: ProcessedTrade[], range: DateRange | null) => {
+  if (!range) return trades;
+  return trades.filter(t => {
+    const d = new Date(t.date).getTime();
+    return d >= range.start.getTime() && d <= range.end.getTime();
+  });
+};
+
+// The dashboard panels other than analytics; the latency comparison looks outside the range
+export const buildRangeReports = (trades: ProcessedTrade[], inputs: ParsedInputs, range: DateRange | null, timezone: string): RangeReports => {
+  const inRange = filterTradesByDate(trades, range);
+  return {
+    opportunityCost: calculateOpportunityCost(inRange, inputs.closedPositions),
+    executionQuality: calculateExecutionQuality(inRange, timezone),
+    latency: calculateLatencyReport(inRange, timezone),
+    latencyComparison: range ? compareLatencyPeriods(trades, range.start, range.end, timezone) : null,
+    markets: summarizeMarkets(inRange, inputs),
+    traderCorrelation: calculateTraderCorrelation(inRange, timezone)
+  };
+};
+
+export const buildHoldingsReports = (
+  trades: ProcessedTrade[],
+  inputs: ParsedInputs,
+  taxonomyRules: TaxonomyRule[],
+  startingBalance: number | null,
+  clockOffsets: ClockOffsets,
+  timezone: string
+): HoldingsReports => {
+  const exposure = calculateExposure(inputs.activePositions, trades, taxonomyRules, timezone);
+  return {
+    exposure,
+    resolutionCalendar: buildResolutionCalendar(exposure, Date.now(), timezone),
+    balance: reconstructBalance(inputs, trades, startingBalance, clockOffsets)
+  };
+};
+
+// Dialects carry functions, which postMessage cannot clone; inputs cross the worker
+// boundary with the dialect's id and are rebuilt on the other side.
+export type TransferableInputs = Omit<ParsedInputs, 'dialect'> & { dialectId: string };
+
+export const toTransferable = ({ dialect, ...rest }: ParsedInputs): TransferableInputs => ({ ...rest, dialectId: dialect.id });
+
+export const fromTransferable = ({ dialectId, ...rest }: TransferableInputs): ParsedInputs => ({ ...rest, dialect: getDialect(dialectId) });
+
+export type PipelineWorkerRequest =
+  | { type: 'process'; id: number; request: PipelineRequest }
+  | { type: 'rematch'; id: number; inputs: TransferableInputs; matchSettings: MatchSettings; costBasisMethod: CostBasisMethod; taxonomyRules: TaxonomyRule[] }
+  | { type: 'load'; id: number; trades: ProcessedTrade[] }
+  | { type: 'loadInputs'; id: number; inputs: TransferableInputs }
+  | { type: 'analytics'; id: number; range: DateRange | null; timezone: string }
+  | { type: 'reports'; id: number; range: DateRange | null; timezone: string }
+  | { type: 'holdings'; id: number; taxonomyRules: TaxonomyRule[]; startingBalance: number | null; clockOffsets: ClockOffsets; timezone: string }
+  | { type: 'simulate'; id: number; range: DateRange | null; settings: SimulationSettings; timezone: string }
+  | { type: 'matchDiff'; id: number; inputs: TransferableInputs; matchSettings: MatchSettings; costBasisMethod: CostBasisMethod; taxonomyRules: TaxonomyRule[] }
+  | { type: 'append'; id: number; inputs: TransferableInputs; files: PortfolioFile[]; chatCsv: string; matchSettings: MatchSettings; costBasisMethod: CostBasisMethod; taxonomyRules: TaxonomyRule[] }
+  | { type: 'restore'; id: number; imports: { portfolioCsv: string; chatCsv: string }[]; dialectId: string; trades: ProcessedTrade[] }
+  | { type: 'retag'; id: number; taxonomyRules: TaxonomyRule[]; marketTags: Map<string, string[]> }
+  | { type: 'sniff'; id: number; chatCsv: string }
+  | { type: 'prepare'; id: number; files: PortfolioFile[]; chatCsv: string; dialectId: string | null };
+
+export type PipelineWorkerResponse =
+  | { type: 'progress'; id: number; progress: PipelineProgress }
+  | { type: 'processed'; id: number; inputs: TransferableInputs; trades: ProcessedTrade[] }
+  | { type: 'rematched'; id: number; trades: ProcessedTrade[] }
+  | { type: 'loaded'; id: number }
+  | { type: 'analytics'; id: number; analytics: AnalyticsResult }
+  | { type: 'reports'; id: number; reports: RangeReports }
+  | { type: 'holdings'; id: number; holdings: HoldingsReports }
+  | { type: 'simulated'; id: number; result: SimulationResult }
+  | { type: 'matchDiffed'; id: number; diff: MatchDiffEntry[] }
+  | { type: 'appended'; id: number; inputs: TransferableInputs; portfolioCsv: string; summary: ImportSummary; trades: ProcessedTrade[] }
+  | { type: 'restored'; id: number; inputs: TransferableInputs }
+  | { type: 'retagged'; id: number; trades: ProcessedTrade[] }
+  | { type: 'sniffed'; id: number; detections: DialectDetection[] }
+  | { type: 'prepared'; id: number; portfolioCsv: string; report: ValidationReport }
+  | { type: 'error'; id: number; message: string };
+
+// Answers worker requests; holds the current dataset's trades and inputs so date-range
+// changes only send the range. Runs inside pipeline.worker.ts, or on the main thread as a fallback.
+export const createPipelineHandler = () => {
+  let trades: ProcessedTrade[] = [];
+  let inputs: ParsedInputs | null = null;
+  const heldInputs = () => {
+    if (!inputs) throw new Error('No dataset loaded.');
+    return inputs;
+  };
+
+  return (message: PipelineWorkerRequest, post: (response: PipelineWorkerResponse) => void) => {
+    const onProgress = (progress: PipelineProgress) => post({ type: 'progress', id: message.id, progress });
+    try {
+      switch (message.type) {
+        case 'process': {
+          const result = runPipeline(message.request, onProgress);
+          trades = result.trades;
+          inputs = result.inputs;
+          post({ type: 'processed', id: message.id, inputs: toTransferable(result.inputs), trades });
+          break;
+        }
+        case 'rematch':
+          trades = runMatching(fromTransferable(message.inputs), message.matchSettings, message.costBasisMethod, message.taxonomyRules, onProgress);
+          post({ type: 'rematched', id: message.id, trades });
+          break;
+        case 'load':
+          trades = message.trades;
+          post({ type: 'loaded', id: message.id });
+          break;
+        case 'loadInputs':
+          inputs = fromTransferable(message.inputs);
+          post({ type: 'loaded', id: message.id });
+          break;
+        case 'analytics': {
+          const inRange = filterTradesByDate(trades, message.range);
+          onProgress({ stage: 'analytics', done: 0, total: inRange.length, message: `${inRange.length.toLocaleString()} trades` });
+          post({ type: 'analytics', id: message.id, analytics: calculateAnalytics(inRange, message.timezone) });
+          break;
+        }
+        case 'reports':
+          post({ type: 'reports', id: message.id, reports: buildRangeReports(trades, heldInputs(), message.range, message.timezone) });
+          break;
+        case 'holdings':
+          post({
+            type: 'holdings',
+            id: message.id,
+            holdings: buildHoldingsReports(trades, heldInputs(), message.taxonomyRules, message.startingBalance, message.clockOffsets, message.timezone)
+          });
+          break;
+        case 'simulate':
+          post({ type: 'simulated', id: message.id, result: simulateCopyTrading(filterTradesByDate(trades, message.range), message.settings, message.timezone) });
+          break;
+        case 'matchDiff':
+          // A comparison only; the held trades keep the current mode's results
+          post({ type: 'matchDiffed', id: message.id, diff: runMatchDiff(fromTransferable(message.inputs), message.matchSettings, message.costBasisMethod, message.taxonomyRules) });
+          break;
+        case 'append': {
+          const portfolioCsv = normalizePortfolioFiles(message.files).csv;
+          const result = runAppend(fromTransferable(message.inputs), trades, portfolioCsv, message.chatCsv, message.matchSettings, message.costBasisMethod, message.taxonomyRules, onProgress);
+          trades = result.trades;
+          inputs = result.inputs;
+          post({ type: 'appended', id: message.id, inputs: toTransferable(result.inputs), portfolioCsv, summary: result.summary, trades });
+          break;
+        }
+        case 'restore': {
+          inputs = restoreInputs(message.imports, message.dialectId, onProgress);
+          trades = message.trades;
+          post({ type: 'restored', id: message.id, inputs: toTransferable(inputs) });
+          break;
+        }
+        case 'retag':
+          trades = applyTaxonomy(trades, message.taxonomyRules, message.marketTags);
+          post({ type: 'retagged', id: message.id, trades });
+          break;
+        case 'sniff':
+          post({ type: 'sniffed', id: message.id, detections: detectDialect(parseChatLogs(message.chatCsv)) });
+          break;
+        case 'prepare':
+          post({ type: 'prepared', id: message.id, ...prepareInputs(message.files, message.chatCsv, message.dialectId) });
+          break;
+      }
+    } catch (err: any) {
+      post({ type: 'error', id: message.id, message: err.message || 'Processing failed' });
+    }
+  };
+};
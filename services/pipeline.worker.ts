@@ -0,0 +1,5 @@
+import { createPipelineHandler, PipelineWorkerRequest } from './pipeline';
+
+const handle = createPipelineHandler();
+
+self.onmessage = (event: MessageEvent<PipelineWorkerRequest>) => handle(event.data, response => self.postMessage(response));
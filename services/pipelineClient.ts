@@ -0,0 +1,245 @@
+import { ParsedInputs, ProcessedTrade, MatchSettings, CostBasisMethod, TaxonomyRule, PipelineProgress, AnalyticsResult, DialectDetection, ValidationReport, ImportSummary, MatchDiffEntry, RangeReports, HoldingsReports, SimulationSettings, SimulationResult, ClockOffsets } from '../types';
+import { createPipelineHandler, fromTransferable, toTransferable, DateRange, PipelineRequest, PortfolioFile, PipelineWorkerRequest, PipelineWorkerResponse } from './pipeline';
+
+// Main-thread handle on services/pipeline.worker.ts. Every call is a promise keyed by
+// message id; cancel() terminates the worker mid-run and the next call starts a fresh one.
+
+export const PIPELINE_CANCELLED = 'Processing was cancelled.';
+
+type ProgressHandler = (progress: PipelineProgress) => void;
+
+// Distributes Omit over the request union so callers never pass an id
+type WorkerCall = PipelineWorkerRequest extends infer R ? (R extends { id: number } ? Omit<R, 'id'> : never) : never;
+
+interface PendingCall {
+  message: PipelineWorkerRequest;
+  resolve: (response: PipelineWorkerResponse) => void;
+  reject: (err: Error) => void;
+  onProgress?: ProgressHandler;
+}
+
+// The part of Worker the client uses, so the handler can also run in-thread
+interface PipelinePort {
+  postMessage: (message: PipelineWorkerRequest) => void;
+  terminate: () => void;
+}
+
+export interface PipelineClient {
+  process: (request: PipelineRequest, onProgress?: ProgressHandler) => Promise<{ inputs: ParsedInputs; trades: ProcessedTrade[] }>;
+  rematch: (inputs: ParsedInputs, matchSettings: MatchSettings, costBasisMethod: CostBasisMethod, taxonomyRules: TaxonomyRule[], onProgress?: ProgressHandler) => Promise<ProcessedTrade[]>;
+  load: (trades: ProcessedTrade[]) => Promise<void>;
+  analytics: (range: DateRange | null, timezone: string, onProgress?: ProgressHandler) => Promise<AnalyticsResult>;
+  // The other dashboard panels; the worker is given `trades` and `inputs` first unless it holds them already
+  reports: (trades: ProcessedTrade[], inputs: ParsedInputs, range: DateRange | null, timezone: string) => Promise<RangeReports>;
+  holdings: (
+    trades: ProcessedTrade[],
+    inputs: ParsedInputs,
+    taxonomyRules: TaxonomyRule[],
+    startingBalance: number | null,
+    clockOffsets: ClockOffsets,
+    timezone: string
+  ) => Promise<HoldingsReports>;
+  simulate: (trades: ProcessedTrade[], range: DateRange | null, settings: SimulationSettings, timezone: string) => Promise<SimulationResult>;
+  matchDiff: (inputs: ParsedInputs, matchSettings: MatchSettings, costBasisMethod: CostBasisMethod, taxonomyRules: TaxonomyRule[]) => Promise<MatchDiffEntry[]>;
+  // Appends to the dataset behind `trades`; portfolioCsv is the normalized export to keep in the workspace
+  append: (
+    inputs: ParsedInputs,
+    trades: ProcessedTrade[],
+    files: PortfolioFile[],
+    chatCsv: string,
+    matchSettings: MatchSettings,
+    costBasisMethod: CostBasisMethod,
+    taxonomyRules: TaxonomyRule[],
+    onProgress?: ProgressHandler
+  ) => Promise<{ inputs: ParsedInputs; portfolioCsv: string; summary: ImportSummary; trades: ProcessedTrade[] }>;
+  restore: (imports: { portfolioCsv: string; chatCsv: string }[], dialectId: string, trades: ProcessedTrade[], onProgress?: ProgressHandler) => Promise<ParsedInputs>;
+  retag: (trades: ProcessedTrade[], taxonomyRules: TaxonomyRule[], marketTags: Map<string, string[]>) => Promise<ProcessedTrade[]>;
+  sniff: (chatCsv: string) => Promise<DialectDetection[]>;
+  prepare: (files: PortfolioFile[], chatCsv: string, dialectId: string | null) => Promise<{ portfolioCsv: string; report: ValidationReport }>;
+  cancel: () => void;
+}
+
+// Same protocol without a thread; a running call cannot be interrupted, only ignored
+const createInlinePort = (onMessage: (response: PipelineWorkerResponse) => void): PipelinePort => {
+  const handle = createPipelineHandler();
+  let terminated = false;
+  return {
+    postMessage: (message) => setTimeout(() => {
+      if (!terminated) handle(message, response => { if (!terminated) onMessage(response); });
+    }, 0),
+    terminate: () => { terminated = true; }
+  };
+};
+
+export const createPipelineClient = (): PipelineClient => {
+  let port: PipelinePort | null = null;
+  // Set when Worker is unavailable or the worker script fails to load (e.g. bare imports
+  // it cannot resolve); everything then runs on the main thread
+  let inline = typeof Worker === 'undefined';
+  let workerStarted = false;
+  let nextId = 1;
+  const pending = new Map<number, PendingCall>();
+  // Trades the worker holds; re-sent after a cancel replaces the worker
+  let loadedTrades: ProcessedTrade[] | null = null;
+  let portHasTrades = false;
+  // Same for the parsed inputs the panels read
+  let loadedInputs: ParsedInputs | null = null;
+  let portHasInputs = false;
+
+  const handleMessage = (response: PipelineWorkerResponse) => {
+    workerStarted = true;
+    const call = pending.get(response.id);
+    if (!call) return;
+    if (response.type === 'progress') {
+      call.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'error') call.reject(new Error(response.message));
+    else call.resolve(response);
+  };
+
+  const discardPort = () => {
+    port?.terminate();
+    port = null;
+    portHasTrades = false;
+    portHasInputs = false;
+  };
+
+  const createWorkerPort = (): PipelinePort => {
+    const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PipelineWorkerResponse>) => handleMessage(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      discardPort();
+      if (!workerStarted) {
+        // Never answered: replay the queued calls in-thread
+        inline = true;
+        const queued = Array.from(pending.values()).map(call => call.message);
+        queued.forEach(message => getPort().postMessage(message));
+        return;
+      }
+      pending.forEach(call => call.reject(new Error(event.message || 'The processing worker crashed.')));
+      pending.clear();
+    };
+    return worker;
+  };
+
+  const getPort = () => {
+    if (!port) port = inline ? createInlinePort(handleMessage) : createWorkerPort();
+    return port;
+  };
+
+  const send = (call: WorkerCall, onProgress?: ProgressHandler) =>
+    new Promise<PipelineWorkerResponse>((resolve, reject) => {
+      const message = { ...call, id: nextId++ } as PipelineWorkerRequest;
+      pending.set(message.id, { message, resolve, reject, onProgress });
+      getPort().postMessage(message);
+    });
+
+  // Trades a call leaves with the handler (process, rematch, append...); remember them so a replacement can be reloaded
+  const holdTrades = (trades: ProcessedTrade[]) => {
+    loadedTrades = trades;
+    portHasTrades = true;
+    return trades;
+  };
+
+  const load = async (trades: ProcessedTrade[]) => {
+    if (trades === loadedTrades && portHasTrades && port) return;
+    loadedTrades = trades;
+    await send({ type: 'load', trades });
+    portHasTrades = true;
+  };
+
+  const holdInputs = (inputs: ParsedInputs) => {
+    loadedInputs = inputs;
+    portHasInputs = true;
+    return inputs;
+  };
+
+  const loadInputs = async (inputs: ParsedInputs) => {
+    if (inputs === loadedInputs && portHasInputs && port) return;
+    loadedInputs = inputs;
+    await send({ type: 'loadInputs', inputs: toTransferable(inputs) });
+    portHasInputs = true;
+  };
+
+  return {
+    process: async (request, onProgress) => {
+      const response = await send({ type: 'process', request }, onProgress);
+      if (response.type !== 'processed') throw new Error(`Unexpected worker response: ${response.type}`);
+      return { inputs: holdInputs(fromTransferable(response.inputs)), trades: holdTrades(response.trades) };
+    },
+    rematch: async (inputs, matchSettings, costBasisMethod, taxonomyRules, onProgress) => {
+      const response = await send({ type: 'rematch', inputs: toTransferable(inputs), matchSettings, costBasisMethod, taxonomyRules }, onProgress);
+      if (response.type !== 'rematched') throw new Error(`Unexpected worker response: ${response.type}`);
+      return holdTrades(response.trades);
+    },
+    load,
+    analytics: async (range, timezone, onProgress) => {
+      if (!portHasTrades && loadedTrades) await load(loadedTrades);
+      const response = await send({ type: 'analytics', range, timezone }, onProgress);
+      if (response.type !== 'analytics') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.analytics;
+    },
+    reports: async (trades, inputs, range, timezone) => {
+      await load(trades);
+      await loadInputs(inputs);
+      const response = await send({ type: 'reports', range, timezone });
+      if (response.type !== 'reports') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.reports;
+    },
+    holdings: async (trades, inputs, taxonomyRules, startingBalance, clockOffsets, timezone) => {
+      await load(trades);
+      await loadInputs(inputs);
+      const response = await send({ type: 'holdings', taxonomyRules, startingBalance, clockOffsets, timezone });
+      if (response.type !== 'holdings') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.holdings;
+    },
+    simulate: async (trades, range, settings, timezone) => {
+      await load(trades);
+      const response = await send({ type: 'simulate', range, settings, timezone });
+      if (response.type !== 'simulated') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.result;
+    },
+    matchDiff: async (inputs, matchSettings, costBasisMethod, taxonomyRules) => {
+      const response = await send({ type: 'matchDiff', inputs: toTransferable(inputs), matchSettings, costBasisMethod, taxonomyRules });
+      if (response.type !== 'matchDiffed') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.diff;
+    },
+    append: async (inputs, trades, files, chatCsv, matchSettings, costBasisMethod, taxonomyRules, onProgress) => {
+      await load(trades);
+      const response = await send({ type: 'append', inputs: toTransferable(inputs), files, chatCsv, matchSettings, costBasisMethod, taxonomyRules }, onProgress);
+      if (response.type !== 'appended') throw new Error(`Unexpected worker response: ${response.type}`);
+      return { inputs: holdInputs(fromTransferable(response.inputs)), portfolioCsv: response.portfolioCsv, summary: response.summary, trades: holdTrades(response.trades) };
+    },
+    restore: async (imports, dialectId, trades, onProgress) => {
+      const response = await send({ type: 'restore', imports, dialectId, trades }, onProgress);
+      if (response.type !== 'restored') throw new Error(`Unexpected worker response: ${response.type}`);
+      holdTrades(trades);
+      return holdInputs(fromTransferable(response.inputs));
+    },
+    retag: async (trades, taxonomyRules, marketTags) => {
+      await load(trades);
+      const response = await send({ type: 'retag', taxonomyRules, marketTags });
+      if (response.type !== 'retagged') throw new Error(`Unexpected worker response: ${response.type}`);
+      return holdTrades(response.trades);
+    },
+    sniff: async (chatCsv) => {
+      const response = await send({ type: 'sniff', chatCsv });
+      if (response.type !== 'sniffed') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.detections;
+    },
+    prepare: async (files, chatCsv, dialectId) => {
+      const response = await send({ type: 'prepare', files, chatCsv, dialectId });
+      if (response.type !== 'prepared') throw new Error(`Unexpected worker response: ${response.type}`);
+      return { portfolioCsv: response.portfolioCsv, report: response.report };
+    },
+    cancel: () => {
+      if (!port) return;
+      discardPort();
+      pending.forEach(call => call.reject(new Error(PIPELINE_CANCELLED)));
+      pending.clear();
+    }
+  };
+};
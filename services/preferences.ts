@@ -0,0 +1,22 @@
+// Per-browser UI preferences in localStorage. Unlike workspace UI state they apply to
+// every dataset and survive reloads without opening a workspace.
+
+const PREFIX = 'polytrade.';
+
+export const loadPreference = <T extends object>(key: string, fallback: T): T => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(PREFIX + key) : null;
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Storage can be full or disabled (private browsing); preferences are best-effort
+export const savePreference = <T>(key: string, value: T) => {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Ignored
+  }
+};
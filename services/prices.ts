@@ -0,0 +1,37 @@
+import { ProcessedTrade } from '../types';
+
+export interface MarketPrices {
+  executions: { time: number; price: number }[];
+  settlementPrice?: number;
+  status?: 'Active' | 'Closed';
+  closedDate?: string;
+}
+
+// Same slug + outcome fallback the lot ledger uses; failed signals never have an asset id
+export const instrumentKey = (t: ProcessedTrade) => `${t.marketSlug.toLowerCase()}|${t.outcome.toLowerCase()}`;
+
+// Execution and settlement prices observed per instrument, used to price signals
+// that never filled (failed ones) or filled without a usable mark
+export const collectMarketPrices = (trades: ProcessedTrade[]): Map<string, MarketPrices> => {
+  const prices = new Map<string, MarketPrices>();
+  trades.forEach(t => {
+    const key = instrumentKey(t);
+    if (!prices.has(key)) prices.set(key, { executions: [] });
+    const entry = prices.get(key)!;
+    if (t.matchedExecutionPrice && t.matchedExecutionPrice > 0 && t.matchedExecutionPrice < 1) {
+      entry.executions.push({ time: new Date(t.date).getTime(), price: t.matchedExecutionPrice });
+    }
+    // A settled (closed) mark beats a live one
+    if (t.markPrice !== undefined && t.matchedPositionStatus !== 'None' && entry.status !== 'Closed') {
+      entry.settlementPrice = t.markPrice;
+      entry.status = t.matchedPositionStatus;
+      entry.closedDate = t.closedDate;
+    }
+  });
+  return prices;
+};
+
+export const nearestExecutionPrice = (prices: MarketPrices | undefined, time: number): number | undefined => {
+  if (!prices || prices.executions.length === 0) return undefined;
+  return prices.executions.reduce((best, e) => Math.abs(e.time - time) < Math.abs(best.time - time) ? e : best).price;
+};
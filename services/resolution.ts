@@ -0,0 +1,51 @@
+import { ExposureReport, OpenPositionRisk, ResolutionDay, ResolutionCalendar } from '../types';
+import { DEFAULT_TIMEZONE, dayKey, addDaysToKey } from './time';
+
+export const PROJECTION_DAYS = 7;
+
+const buildDay = (day: string, positions: OpenPositionRisk[], today: string): ResolutionDay => ({
+  day,
+  positions,
+  capital: positions.reduce((sum, p) => sum + p.costBasis, 0),
+  expectedPayout: positions.reduce((sum, p) => sum + p.marketValue, 0),
+  maxPayout: positions.reduce((sum, p) => sum + p.shares, 0),
+  pastDue: day < today && positions.length > 0
+});
+
+// Places each open position on its end date. Anything dated before today is still
+// open in the export, so it is past due: unsettled, or settled after the export was taken.
+export const buildResolutionCalendar = (
+  report: ExposureReport,
+  now: number = Date.now(),
+  timezone: string = DEFAULT_TIMEZONE
+): ResolutionCalendar => {
+  const today = dayKey(now, timezone);
+  const byDay = new Map<string, OpenPositionRisk[]>();
+  report.positions.forEach(p => {
+    if (!p.resolutionDate) return;
+    if (!byDay.has(p.resolutionDate)) byDay.set(p.resolutionDate, []);
+    byDay.get(p.resolutionDate)!.push(p);
+  });
+
+  const days = Array.from(byDay.entries())
+    .map(([day, positions]) => buildDay(day, positions, today))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  const upcomingWeek = Array.from({ length: PROJECTION_DAYS }, (_, i) => {
+    const day = addDaysToKey(today, i);
+    return buildDay(day, byDay.get(day) || [], today);
+  });
+
+  return {
+    today,
+    days,
+    pastDue: days.filter(d => d.pastDue).flatMap(d => d.positions),
+    undated: report.positions.filter(p => !p.resolutionDate),
+    upcomingWeek,
+    upcomingWeekTotals: {
+      capital: upcomingWeek.reduce((sum, d) => sum + d.capital, 0),
+      expectedPayout: upcomingWeek.reduce((sum, d) => sum + d.expectedPayout, 0),
+      maxPayout: upcomingWeek.reduce((sum, d) => sum + d.maxPayout, 0)
+    }
+  };
+};
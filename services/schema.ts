@@ -0,0 +1,183 @@
+import Papa from 'papaparse';
+import { PortfolioRow, PortfolioSchema, PortfolioFileKind, TimestampFormat, SchemaDetection, MappingProfile, NormalizedPortfolio, ParseError, PortfolioRowSource } from '../types';
+import { createWorkspaceId } from './workspaces';
+import { parseChatTimestamp } from './time';
+
+// Portfolio exports come from different scrapers: one consolidated file or one file per
+// section, with their own column names and timestamp units. Each file is mapped onto
+// PortfolioRow fields and rewritten as the consolidated layout parseInputData reads, so
+// workspaces, appends and the CLI keep storing and replaying a single portfolio CSV.
+
+// Spellings per field, compared after normalizeHeader; earlier entries win ties
+const FIELD_ALIASES: Record<keyof PortfolioRow, string[]> = {
+  Category: ['category', 'section', 'rowtype', 'source'],
+  proxyWallet: ['proxywallet', 'wallet', 'address', 'proxy'],
+  asset: ['asset', 'assetid', 'tokenid', 'token', 'clobtokenid'],
+  title: ['title', 'markettitle', 'market', 'question', 'name'],
+  slug: ['slug', 'marketslug', 'eventslug'],
+  size: ['size', 'shares', 'quantity', 'qty', 'tokens'],
+  avgPrice: ['avgprice', 'averageprice', 'avgcost', 'entryprice'],
+  currentValue: ['currentvalue', 'value', 'marketvalue', 'curvalue'],
+  cashPnl: ['cashpnl', 'pnl', 'unrealizedpnl', 'profit'],
+  realizedPnl: ['realizedpnl', 'realisedpnl', 'realized'],
+  outcome: ['outcome', 'outcomename', 'answer'],
+  timestamp: ['timestamp', 'ts', 'tsms', 'timestampms', 'time', 'datetime', 'createdat', 'blocktime', 'executedat', 'filledat'],
+  side: ['side', 'direction', 'tradeside', 'action'],
+  type: ['type', 'activitytype', 'eventtype'],
+  usdcSize: ['usdcsize', 'usdc', 'usdcamount', 'notional', 'usdvalue', 'cost'],
+  transactionHash: ['transactionhash', 'txhash', 'tx', 'hash', 'txid', 'transactionid'],
+  price: ['price', 'fillprice', 'executionprice', 'tradeprice'],
+  curPrice: ['curprice', 'currentprice', 'markprice', 'settlementprice', 'lastprice'],
+  date: ['date', 'scrapedate', 'enddate', 'resolutiondate'],
+  tags: ['tags', 'eventtags', 'labels']
+};
+
+export const PORTFOLIO_FIELDS = Object.keys(FIELD_ALIASES) as (keyof PortfolioRow)[];
+
+// Category written for files that hold a single section; parseInputData routes on these
+export const SECTION_CATEGORIES: Record<Exclude<PortfolioFileKind, 'consolidated'>, string> = {
+  open: '1_OPEN_POSITIONS',
+  closed: '2_CLOSED_POSITIONS',
+  activity: '3_ACTIVITY_HISTORY'
+};
+
+const SAMPLE_ROWS = 5;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const headerSignature = (headers: string[]) => headers.map(normalizeHeader).sort().join('|');
+
+// Each field goes to the column with its best-ranked spelling; every column maps at most once
+export const proposeMapping = (headers: string[]): PortfolioSchema['mapping'] => {
+  const best = new Map<keyof PortfolioRow, { header: string; rank: number }>();
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    PORTFOLIO_FIELDS.forEach(field => {
+      const rank = FIELD_ALIASES[field].indexOf(normalized);
+      if (rank === -1) return;
+      const current = best.get(field);
+      if (!current || rank < current.rank) best.set(field, { header, rank });
+    });
+  });
+
+  const mapping: PortfolioSchema['mapping'] = {};
+  headers.forEach(header => mapping[header] = null);
+  // Assign in rank order so an exact spelling beats a looser one for the same column
+  Array.from(best.entries())
+    .sort((a, b) => a[1].rank - b[1].rank)
+    .forEach(([field, { header }]) => {
+      if (mapping[header] === null) mapping[header] = field;
+    });
+  return mapping;
+};
+
+const mappedColumn = (mapping: PortfolioSchema['mapping'], field: keyof PortfolioRow) =>
+  Object.keys(mapping).find(header => mapping[header] === field);
+
+export const detectTimestampFormat = (values: string[], header = ''): TimestampFormat => {
+  const present = values.map(v => (v || '').trim()).filter(Boolean);
+  if (present.some(v => isNaN(Number(v)))) return 'iso';
+  if (present.length === 0) return /ms$/i.test(header) ? 'milliseconds' : 'seconds';
+  // Unix seconds stay below 1e11 until the year 5138
+  return present.some(v => Number(v) > 1e11) ? 'milliseconds' : 'seconds';
+};
+
+// Single-section files are recognised by name first, then by the columns they carry
+export const detectFileKind = (fileName: string, mapping: PortfolioSchema['mapping']): PortfolioFileKind => {
+  const fields = new Set(Object.values(mapping));
+  if (fields.has('Category')) return 'consolidated';
+  const name = fileName.toLowerCase();
+  if (/activity|history|trades|fills|transactions/.test(name)) return 'activity';
+  if (/closed|settled|resolved|redeem/.test(name)) return 'closed';
+  if (/open|active|positions|current/.test(name)) return 'open';
+  if (fields.has('transactionHash') || fields.has('side')) return 'activity';
+  if (fields.has('realizedPnl') && !fields.has('cashPnl')) return 'closed';
+  return 'open';
+};
+
+export const mappedShare = (headers: string[], schema: PortfolioSchema) =>
+  headers.length > 0 ? headers.filter(h => schema.mapping[h]).length / headers.length : 0;
+
+// Profile mappings are keyed by the headers they were saved with; match them loosely
+export const applyMappingProfile = (headers: string[], profile: MappingProfile): PortfolioSchema => {
+  const byNormalized = new Map(Object.entries(profile.mapping).map(([header, field]) => [normalizeHeader(header), field]));
+  const mapping: PortfolioSchema['mapping'] = {};
+  headers.forEach(header => mapping[header] = byNormalized.get(normalizeHeader(header)) ?? null);
+  return { kind: profile.kind, mapping, timestampFormat: profile.timestampFormat };
+};
+
+export const detectSchema = (csv: string, fileName: string, profiles: MappingProfile[] = []): SchemaDetection => {
+  const result = Papa.parse<Record<string, string>>(csv, {
+    header: true,
+    skipEmptyLines: true,
+    preview: SAMPLE_ROWS,
+    transformHeader: (h: string) => h.trim()
+  });
+  const headers = (result.meta.fields || []).filter(Boolean);
+  const sampleRows = result.data;
+
+  const signature = headerSignature(headers);
+  const profile = profiles.find(p => p.headerSignature === signature);
+  if (profile) {
+    const schema = applyMappingProfile(headers, profile);
+    return { fileName, headers, sampleRows, schema, mappedShare: mappedShare(headers, schema), profileId: profile.id };
+  }
+
+  const mapping = proposeMapping(headers);
+  const timestampColumn = mappedColumn(mapping, 'timestamp');
+  const schema: PortfolioSchema = {
+    kind: detectFileKind(fileName, mapping),
+    mapping,
+    timestampFormat: timestampColumn ? detectTimestampFormat(sampleRows.map(r => r[timestampColumn]), timestampColumn) : 'seconds'
+  };
+  return { fileName, headers, sampleRows, schema, mappedShare: mappedShare(headers, schema) };
+};
+
+// Unix seconds as parseInputData expects them; unreadable values are left for validation to report
+export const toUnixSeconds = (value: string, format: TimestampFormat): string => {
+  const text = (value || '').trim();
+  if (!text) return '';
+  if (format === 'iso') {
+    const ms = parseChatTimestamp(text).getTime();
+    return isNaN(ms) ? text : String(Math.floor(ms / 1000));
+  }
+  const num = Number(text);
+  if (isNaN(num)) return text;
+  return String(Math.floor(format === 'milliseconds' ? num / 1000 : num));
+};
+
+// Rewrites one or more mapped portfolio files as a single consolidated CSV. The rewritten
+// CSV always parses cleanly, so the files' own parse errors and the file/row each output
+// row came from are returned with it for validation and the CLI to report.
+export const normalizePortfolioFiles = (files: { name: string; csv: string; schema: PortfolioSchema }[]): NormalizedPortfolio => {
+  const data: string[][] = [];
+  const parseErrors: ParseError[] = [];
+  const rowSources: PortfolioRowSource[] = [];
+  files.forEach(({ name, csv, schema }) => {
+    const result = Papa.parse<Record<string, string>>(csv, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h: string) => h.trim()
+    });
+    result.errors.forEach(e => parseErrors.push({ file: 'portfolio', source: name, row: e.row, message: e.message }));
+    const columns = Object.keys(schema.mapping).filter(header => schema.mapping[header]);
+
+    result.data.forEach((row, index) => {
+      const out: Partial<Record<keyof PortfolioRow, string>> = {};
+      columns.forEach(header => out[schema.mapping[header]!] = row[header]);
+      if (schema.kind !== 'consolidated') out.Category = SECTION_CATEGORIES[schema.kind];
+      if (out.timestamp !== undefined) out.timestamp = toUnixSeconds(out.timestamp, schema.timestampFormat);
+      data.push(PORTFOLIO_FIELDS.map(field => out[field] ?? ''));
+      rowSources.push({ source: name, row: index });
+    });
+  });
+  return { csv: Papa.unparse({ fields: PORTFOLIO_FIELDS, data }), parseErrors, rowSources };
+};
+
+export const createMappingProfile = (name: string, headers: string[], schema: PortfolioSchema): MappingProfile => ({
+  id: createWorkspaceId(),
+  name,
+  headerSignature: headerSignature(headers),
+  updatedAt: new Date().toISOString(),
+  ...schema
+});
@@ -0,0 +1,133 @@
+import { ProcessedTrade, SignificanceStats, ConfidenceInterval } from '../types';
+
+export const BOOTSTRAP_ITERATIONS = 1000;
+export const CONFIDENCE_LEVEL = 0.95;
+
+// Trader tables flag anyone with fewer trades than this by default
+export const DEFAULT_MIN_SAMPLE_SIZE = 20;
+
+// Above this many trades the exact Poisson-binomial tail is replaced by a normal approximation
+const EXACT_P_VALUE_MAX_TRADES = 500;
+
+// Seeded so intervals don't jitter between renders of the same data
+const createRng = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  return hash;
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Per-trade ROI: PnL over the executed amount, falling back to the signal amount
+export const tradeReturn = (t: ProcessedTrade) => {
+  const invested = t.matchedExecutionAmount || t.amount || 0;
+  if (invested <= 0) return 0;
+  return (t.pnl || 0) / invested;
+};
+
+// Mean over (population) standard deviation of per-trade returns
+export const calculateSharpe = (returns: number[]) => {
+  if (returns.length < 2) return 0;
+  const avgReturn = mean(returns);
+  const stdDev = Math.sqrt(returns.reduce((a, b) => a + Math.pow(b - avgReturn, 2), 0) / returns.length);
+  return stdDev === 0 ? 0 : avgReturn / stdDev;
+};
+
+const percentile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)));
+  return sorted[idx];
+};
+
+const interval = (samples: number[]): ConfidenceInterval => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const tail = (1 - CONFIDENCE_LEVEL) / 2;
+  return { low: percentile(sorted, tail), high: percentile(sorted, 1 - tail) };
+};
+
+// Standard normal upper tail, Abramowitz & Stegun 26.2.17
+const normalUpperTail = (z: number) => {
+  if (z < 0) return 1 - normalUpperTail(-z);
+  const t = 1 / (1 + 0.2316419 * z);
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  return density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+};
+
+// P(at least `wins` successes) when trade i wins with probability probs[i]
+export const poissonBinomialUpperTail = (probs: number[], wins: number): number => {
+  if (wins <= 0) return 1;
+  if (wins > probs.length) return 0;
+
+  if (probs.length > EXACT_P_VALUE_MAX_TRADES) {
+    const expected = probs.reduce((a, p) => a + p, 0);
+    const variance = probs.reduce((a, p) => a + p * (1 - p), 0);
+    if (variance === 0) return wins <= expected ? 1 : 0;
+    return normalUpperTail((wins - 0.5 - expected) / Math.sqrt(variance)); // Continuity corrected
+  }
+
+  // dist[k] = P(k wins among the trades seen so far)
+  let dist = [1];
+  probs.forEach(p => {
+    const next = new Array(dist.length + 1).fill(0);
+    dist.forEach((q, k) => {
+      next[k] += q * (1 - p);
+      next[k + 1] += q * p;
+    });
+    dist = next;
+  });
+  return Math.min(1, dist.slice(wins).reduce((a, b) => a + b, 0));
+};
+
+// Bootstrap intervals on win rate, mean ROI and Sharpe, plus a test of the
+// win rate against break-even: a binary share bought at price p pays out with
+// probability p if the market priced it fairly.
+export const calculateSignificance = (trades: ProcessedTrade[], seedKey = ''): SignificanceStats => {
+  const returns = trades.map(tradeReturn);
+  const outcomes = trades.map(t => (t.pnl || 0) > 0 ? 1 : 0);
+  const n = trades.length;
+
+  const winRates: number[] = [];
+  const meanRois: number[] = [];
+  const sharpes: number[] = [];
+  if (n > 0) {
+    const rng = createRng(hashString(seedKey));
+    for (let i = 0; i < BOOTSTRAP_ITERATIONS; i++) {
+      let wins = 0;
+      const sample: number[] = new Array(n);
+      for (let j = 0; j < n; j++) {
+        const idx = Math.floor(rng() * n);
+        wins += outcomes[idx];
+        sample[j] = returns[idx];
+      }
+      winRates.push((wins / n) * 100);
+      meanRois.push(mean(sample) * 100);
+      sharpes.push(calculateSharpe(sample));
+    }
+  }
+
+  // Only settled BUYs are trials: an open position has neither won nor lost yet
+  const pricedBuys = trades.filter(t =>
+    t.action === 'BUY' && (t.result === 'WIN' || t.result === 'LOSS') &&
+    t.matchedExecutionPrice !== undefined && t.matchedExecutionPrice > 0 && t.matchedExecutionPrice < 1
+  );
+  const entryPrices = pricedBuys.map(t => t.matchedExecutionPrice!);
+
+  return {
+    tradeCount: n,
+    winRateCI: interval(winRates),
+    meanRoi: mean(returns) * 100,
+    meanRoiCI: interval(meanRois),
+    sharpeCI: interval(sharpes),
+    breakEvenWinRate: pricedBuys.length > 0 ? mean(entryPrices) * 100 : null,
+    pValue: pricedBuys.length > 0
+      ? poissonBinomialUpperTail(entryPrices, pricedBuys.filter(t => t.result === 'WIN').length)
+      : null
+  };
+};
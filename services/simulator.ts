@@ -0,0 +1,158 @@
+import { ProcessedTrade, TradeStatus, SimulationSettings, SimulationResult } from '../types';
+import { calculateAnalytics } from './analytics';
+import { DEFAULT_TIMEZONE } from './time';
+import { collectMarketPrices, nearestExecutionPrice, instrumentKey } from './prices';
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  startingBankroll: 1000,
+  sizingRule: 'FIXED',
+  fixedAmount: 10,
+  bankrollPercent: 2,
+  kellyFraction: 0.25,
+  perMarketCap: null,
+  replayedFailureReasons: ['Insufficient Balance', 'Max Spend Limit']
+};
+
+// Stakes below this are treated as not placed
+const MIN_STAKE = 1;
+
+interface SimPosition {
+  traderName: string;
+  marketSlug: string;
+  stake: number;
+  shares: number;
+  entryPrice: number;
+  settlementPrice: number;
+  settleTime: number; // Infinity while the market is open or its close date is unknown
+}
+
+const isReplayable = (t: ProcessedTrade, settings: SimulationSettings) =>
+  t.status === TradeStatus.SUCCESS ||
+  (t.status === TradeStatus.FAILED && !!t.failureReason && settings.replayedFailureReasons.includes(t.failureReason));
+
+const skipReason = (t: ProcessedTrade) =>
+  t.status === TradeStatus.FAILED ? `Failed (${t.failureReason || 'unknown'})` : t.status;
+
+// Replays BUY signals in time order under the given bankroll and sizing rule.
+// Each simulated fill is priced at the real execution price (or the nearest
+// observed fill on the same outcome for signals that never executed) and held
+// to settlement, or marked at the current price for open markets. Stakes lock
+// cash until the position's close date; with no known close date they stay
+// locked to the end. Kelly sizing estimates the trader's win probability from
+// their simulated positions settled so far, starting from one win and one loss.
+export const simulateCopyTrading = (
+  trades: ProcessedTrade[],
+  settings: SimulationSettings = DEFAULT_SIMULATION_SETTINGS,
+  timezone: string = DEFAULT_TIMEZONE
+): SimulationResult => {
+  const marketPrices = collectMarketPrices(trades);
+  const skipped: Record<string, number> = {};
+  const skip = (reason: string) => { skipped[reason] = (skipped[reason] || 0) + 1; };
+
+  let cash = settings.startingBankroll;
+  let openPositions: SimPosition[] = [];
+  const record = new Map<string, { wins: number; settled: number }>();
+  const simulated: ProcessedTrade[] = [];
+  let replayedFailed = 0;
+
+  const settleUpTo = (time: number) => {
+    openPositions = openPositions.filter(p => {
+      if (p.settleTime > time) return true;
+      cash += p.shares * p.settlementPrice;
+      const r = record.get(p.traderName) || { wins: 0, settled: 0 };
+      record.set(p.traderName, { wins: r.wins + (p.settlementPrice > p.entryPrice ? 1 : 0), settled: r.settled + 1 });
+      return false;
+    });
+  };
+
+  const sizeStake = (t: ProcessedTrade, entryPrice: number, bankroll: number): number => {
+    if (settings.sizingRule === 'FIXED') return settings.fixedAmount;
+    if (settings.sizingRule === 'PERCENT') return bankroll * settings.bankrollPercent / 100;
+    const r = record.get(t.traderName) || { wins: 0, settled: 0 };
+    const winProbability = (r.wins + 1) / (r.settled + 2);
+    const fullKelly = (winProbability - entryPrice) / (1 - entryPrice);
+    return Math.max(0, fullKelly) * settings.kellyFraction * bankroll;
+  };
+
+  const ordered = [...trades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  ordered.forEach(t => {
+    if (t.action !== 'BUY') { skip('Not a BUY signal'); return; }
+    if (!isReplayable(t, settings)) { skip(skipReason(t)); return; }
+
+    const time = new Date(t.date).getTime();
+    const prices = marketPrices.get(instrumentKey(t));
+    const entryPrice = t.status === TradeStatus.SUCCESS && t.matchedExecutionPrice && t.matchedExecutionPrice < 1
+      ? t.matchedExecutionPrice
+      : nearestExecutionPrice(prices, time);
+    if (!entryPrice || entryPrice <= 0 || entryPrice >= 1) { skip('No entry price'); return; }
+
+    let settlementPrice = t.markPrice ?? prices?.settlementPrice;
+    let positionStatus = t.markPrice !== undefined ? t.matchedPositionStatus : prices?.status;
+    if (settlementPrice === undefined && (t.result === 'WIN' || t.result === 'LOSS')) {
+      settlementPrice = t.result === 'WIN' ? 1 : 0;
+      positionStatus = 'Closed';
+    }
+    if (settlementPrice === undefined || !positionStatus || positionStatus === 'None') { skip('No settlement price'); return; }
+    const closedDate = t.closedDate || prices?.closedDate;
+
+    settleUpTo(time);
+    const bankroll = cash + openPositions.reduce((sum, p) => sum + p.stake, 0);
+    let stake = sizeStake(t, entryPrice, bankroll);
+    if (stake < MIN_STAKE) { skip(settings.sizingRule === 'KELLY' ? 'No Kelly edge' : 'Stake below minimum'); return; }
+    if (settings.perMarketCap !== null) {
+      const exposure = openPositions.filter(p => p.marketSlug === t.marketSlug).reduce((sum, p) => sum + p.stake, 0);
+      stake = Math.min(stake, settings.perMarketCap - exposure);
+      if (stake < MIN_STAKE) { skip('Per-market cap reached'); return; }
+    }
+    stake = Math.min(stake, cash);
+    if (stake < MIN_STAKE) { skip('Simulated bankroll exhausted'); return; }
+
+    const shares = stake / entryPrice;
+    const isClosed = positionStatus === 'Closed';
+    cash -= stake;
+    openPositions.push({
+      traderName: t.traderName,
+      marketSlug: t.marketSlug,
+      stake,
+      shares,
+      entryPrice,
+      settlementPrice,
+      settleTime: isClosed && closedDate ? new Date(closedDate).getTime() : Infinity
+    });
+
+    const pnl = shares * (settlementPrice - entryPrice);
+    if (t.status === TradeStatus.FAILED) replayedFailed++;
+    simulated.push({
+      ...t,
+      id: `sim-${t.id}`,
+      status: TradeStatus.SUCCESS,
+      failureReason: undefined,
+      amount: stake,
+      matchedExecutionPrice: entryPrice,
+      matchedExecutionAmount: stake,
+      shares,
+      matchedPositionStatus: positionStatus,
+      markPrice: settlementPrice,
+      closedDate,
+      pnl,
+      currentValue: shares * settlementPrice,
+      costBasis: stake,
+      remainingShares: undefined,
+      realizedPnl: isClosed ? pnl : 0,
+      unrealizedPnl: isClosed ? 0 : pnl,
+      result: isClosed ? (pnl > 0 ? 'WIN' : 'LOSS') : 'OPEN'
+    });
+  });
+
+  settleUpTo(Infinity);
+
+  return {
+    trades: simulated,
+    analytics: calculateAnalytics(simulated, timezone),
+    startingBankroll: settings.startingBankroll,
+    finalBankroll: cash,
+    replayedFailed,
+    skipped
+  };
+};
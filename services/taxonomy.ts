@@ -0,0 +1,107 @@
+import { TaxonomyRule, CategoryMatch, ProcessedTrade, PortfolioRow } from '../types';
+import { simplify } from './matching';
+
+// Category of markets no rule matches
+export const UNCATEGORIZED = 'Other';
+
+// Categories are paths, most general first: "Sports/NBA", "Politics/US", "Crypto"
+export const CATEGORY_SEPARATOR = '/';
+
+export const topLevelCategory = (category: string) => category.split(CATEGORY_SEPARATOR)[0];
+
+// Rules are tried in order; the first enabled rule that matches wins. Specific
+// leagues come before the generic "X vs Y" sports rule so head-to-head markets
+// in other categories (debates, crypto flippenings) are claimed first.
+export const DEFAULT_TAXONOMY_RULES: TaxonomyRule[] = [
+  { id: 'nba', category: 'Sports/NBA', type: 'regex', pattern: '\\bnba\\b|basketball', enabled: true },
+  { id: 'nfl', category: 'Sports/NFL', type: 'regex', pattern: '\\bnfl\\b|super bowl|touchdown', enabled: true },
+  { id: 'mlb', category: 'Sports/MLB', type: 'regex', pattern: '\\bmlb\\b|baseball|world series', enabled: true },
+  { id: 'nhl', category: 'Sports/NHL', type: 'regex', pattern: '\\bnhl\\b|hockey|stanley cup', enabled: true },
+  { id: 'soccer', category: 'Sports/Soccer', type: 'regex', pattern: 'soccer|premier league|champions league|la liga|serie a|bundesliga|ligue 1|\\bepl\\b|\\bfifa\\b|world cup', enabled: true },
+  { id: 'tennis', category: 'Sports/Tennis', type: 'regex', pattern: 'tennis|wimbledon|us open|french open|australian open|\\batp\\b|\\bwta\\b', enabled: true },
+  { id: 'combat', category: 'Sports/Combat', type: 'regex', pattern: '\\bufc\\b|\\bmma\\b|boxing', enabled: true },
+  { id: 'racing', category: 'Sports/Racing', type: 'regex', pattern: '\\bf1\\b|formula 1|grand prix|nascar', enabled: true },
+  { id: 'sports-other', category: 'Sports/Other', type: 'regex', pattern: 'football|cricket|rugby|golf|volleyball|olympics', enabled: true },
+  { id: 'sports-tag', category: 'Sports/Other', type: 'tag', pattern: 'sports', enabled: true },
+  { id: 'crypto', category: 'Crypto', type: 'regex', pattern: 'bitcoin|\\bbtc\\b|ethereum|\\beth\\b|solana|\\bsol\\b|crypto|\\bxrp\\b|dogecoin|\\bdoge\\b|memecoin|airdrop', enabled: true },
+  { id: 'crypto-tag', category: 'Crypto', type: 'tag', pattern: 'crypto', enabled: true },
+  { id: 'economics', category: 'Economics', type: 'regex', pattern: '\\bfed\\b|fomc|interest rate|rate cut|\\bcpi\\b|inflation|\\bgdp\\b|recession|unemployment|jobs report|s&p 500|nasdaq|dow jones', enabled: true },
+  { id: 'politics-us', category: 'Politics/US', type: 'regex', pattern: 'president|trump|biden|harris|senate|congress|governor|republican|democrat|\\bgop\\b|supreme court|electoral', enabled: true },
+  { id: 'politics-intl', category: 'Politics/International', type: 'regex', pattern: 'prime minister|parliament|election|chancellor|referendum|\\bnato\\b', enabled: true },
+  { id: 'politics-tag', category: 'Politics', type: 'tag', pattern: 'politics', enabled: true },
+  { id: 'weather', category: 'Weather', type: 'regex', pattern: 'temperature|weather|hurricane|rainfall|snowfall|heat ?wave|tornado', enabled: true },
+  { id: 'entertainment', category: 'Entertainment', type: 'regex', pattern: 'oscars?|grammys?|emmys?|box office|movie|album|spotify|netflix|billboard|eurovision|youtube', enabled: true },
+  { id: 'sports-vs', category: 'Sports/Other', type: 'regex', pattern: '\\bvs\\.?\\b|\\bv\\.\\s|will .*win on', enabled: true }
+];
+
+export interface MarketDescriptor {
+  title: string;
+  slug: string;
+  tags: string[];
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+const compileRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern)!;
+};
+
+// Problem with a rule that would keep it from ever matching, or null
+export const validateRule = (rule: TaxonomyRule): string | null => {
+  if (!rule.category.trim()) return 'Category is required';
+  if (!rule.pattern.trim()) return 'Pattern is required';
+  if (rule.type === 'regex' && !compileRegex(rule.pattern)) return 'Invalid regular expression';
+  return null;
+};
+
+const ruleMatches = (rule: TaxonomyRule, market: MarketDescriptor): boolean => {
+  const pattern = rule.pattern.trim().toLowerCase();
+  if (!pattern) return false;
+  switch (rule.type) {
+    case 'slugPrefix':
+      return market.slug.toLowerCase().startsWith(pattern);
+    case 'tag':
+      return market.tags.some(t => t.toLowerCase() === pattern);
+    case 'regex': {
+      const re = compileRegex(rule.pattern);
+      return !!re && (re.test(market.title) || re.test(market.slug));
+    }
+  }
+};
+
+export const classifyMarket = (market: MarketDescriptor, rules: TaxonomyRule[] = DEFAULT_TAXONOMY_RULES): CategoryMatch => {
+  const rule = rules.find(r => r.enabled && ruleMatches(r, market));
+  return rule ? { category: rule.category.trim(), ruleId: rule.id } : { category: UNCATEGORIZED, ruleId: null };
+};
+
+// Event tags by simplified slug, from an optional `tags` column in the portfolio export
+export const collectMarketTags = (rows: PortfolioRow[]): Map<string, string[]> => {
+  const tags = new Map<string, string[]>();
+  rows.forEach(row => {
+    if (!row.tags || !row.slug) return;
+    const key = simplify(row.slug);
+    const existing = tags.get(key) || [];
+    row.tags.split(/[,;|]/).map(t => t.trim()).filter(Boolean).forEach(t => {
+      if (!existing.includes(t)) existing.push(t);
+    });
+    tags.set(key, existing);
+  });
+  return tags;
+};
+
+export const describeMarket = (t: Pick<ProcessedTrade, 'marketTitle' | 'marketSlug'>, marketTags: Map<string, string[]>): MarketDescriptor => ({
+  title: t.marketTitle || '',
+  slug: t.marketSlug || '',
+  tags: marketTags.get(simplify(t.marketSlug)) || []
+});
+
+// Re-classifies trades under a new rule set without re-matching them
+export const applyTaxonomy = (trades: ProcessedTrade[], rules: TaxonomyRule[], marketTags: Map<string, string[]>): ProcessedTrade[] =>
+  trades.map(t => ({ ...t, category: classifyMarket(describeMarket(t, marketTags), rules).category }));
@@ -0,0 +1,136 @@
+import { ClockOffsets } from '../types';
+
+// Days, hours and labels are computed in this zone unless the user picks another
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const DEFAULT_CLOCK_OFFSETS: ClockOffsets = { chatSeconds: 0, activitySeconds: 0 };
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsFormatter = (timezone: string) => {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      weekday: 'short'
+    }));
+  }
+  return formatters.get(timezone)!;
+};
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+// Wall-clock fields of an instant in a zone
+export const zonedParts = (ms: number, timezone: string): ZonedParts => {
+  if (!Number.isFinite(ms)) throw new RangeError(`Not a point in time: ${ms}`);
+  const parts: Record<string, string> = {};
+  partsFormatter(timezone).formatToParts(new Date(ms)).forEach(p => { parts[p.type] = p.value; });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAY_INDEX[parts.weekday]
+  };
+};
+
+// Zone offset from UTC at an instant, in ms (positive east of Greenwich)
+const zoneOffset = (ms: number, timezone: string) => {
+  const p = zonedParts(ms, timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+};
+
+// Instant of a wall-clock time in a zone; checked twice so DST transitions land right
+const fromZoned = (year: number, month: number, day: number, timezone: string) => {
+  const wall = Date.UTC(year, month - 1, day);
+  let ms = wall - zoneOffset(wall, timezone);
+  ms = wall - zoneOffset(ms, timezone);
+  return ms;
+};
+
+// Trades keep an unreadable chat date as written; they can't be placed on a day, so
+// anything bucketed by time leaves them out instead of hitting zonedParts with NaN
+export const hasReadableDate = (t: { date: string }) => Number.isFinite(new Date(t.date).getTime());
+
+export const startOfDayInZone = (ms: number, timezone: string) => {
+  const p = zonedParts(ms, timezone);
+  return fromZoned(p.year, p.month, p.day, timezone);
+};
+
+// Midnight of the next calendar day; days are 23-25h long around DST changes
+export const nextDayInZone = (dayStart: number, timezone: string) => startOfDayInZone(dayStart + 36 * MS_PER_HOUR, timezone);
+
+export const endOfDayInZone = (ms: number, timezone: string) => nextDayInZone(startOfDayInZone(ms, timezone), timezone) - 1;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// YYYY-MM-DD in the zone
+export const dayKey = (ms: number, timezone: string) => {
+  const p = zonedParts(ms, timezone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+// Calendar arithmetic on YYYY-MM-DD keys, independent of any zone
+export const addDaysToKey = (key: string, days: number) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export const formatDate = (ms: number, timezone: string) =>
+  new Date(ms).toLocaleDateString(undefined, { timeZone: timezone });
+
+export const formatDateTime = (ms: number, timezone: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) =>
+  new Date(ms).toLocaleString(undefined, { ...options, timeZone: timezone });
+
+// ISO 8601 with the zone's offset, e.g. 2025-01-02T14:30:00+01:00
+export const formatTimestamp = (ms: number, timezone: string) => {
+  const p = zonedParts(ms, timezone);
+  const offsetMinutes = Math.round(zoneOffset(ms, timezone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+
+// IANA zones the runtime knows, with UTC and the local zone first
+export const listTimezones = (): string[] => {
+  const supported = 'supportedValuesOf' in Intl ? Intl.supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([DEFAULT_TIMEZONE, getBrowserTimezone(), ...supported]));
+};
+
+// Chat exports write "2025-01-02 14:30:00" without a zone; those are read as UTC
+// (shift them with the chat clock offset) instead of the browser's local time.
+const NAIVE_TIMESTAMP = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)$/;
+
+export const parseChatTimestamp = (value: string, offsetSeconds = 0): Date => {
+  const trimmed = (value || '').trim();
+  const naive = trimmed.match(NAIVE_TIMESTAMP);
+  const ms = naive ? Date.parse(`${naive[1]}T${naive[2]}Z`) : Date.parse(trimmed);
+  return new Date(ms + offsetSeconds * 1000);
+};
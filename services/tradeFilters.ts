@@ -0,0 +1,217 @@
+import { ProcessedTrade, TradeFilters, TradeSort, NumericRange, TradeStatus } from '../types';
+import { CATEGORY_SEPARATOR } from './taxonomy';
+import { dayKey, hasReadableDate } from './time';
+
+export const EMPTY_TRADE_FILTERS: TradeFilters = {
+  text: '',
+  successfulOnly: false,
+  category: '',
+  dateRange: {},
+  pnl: {},
+  execAmount: {},
+  latency: {},
+  status: [],
+  result: [],
+  trader: [],
+  failureReason: [],
+  matchType: []
+};
+
+export const DEFAULT_TRADE_SORT: TradeSort[] = [{ key: 'date', direction: 'desc' }];
+
+export type RangeFilterKey = 'pnl' | 'execAmount' | 'latency';
+export type ListFilterKey = 'status' | 'result' | 'trader' | 'failureReason' | 'matchType';
+
+export const RANGE_FILTER_LABELS: Record<RangeFilterKey, string> = {
+  pnl: 'PnL',
+  execAmount: 'Exec $',
+  latency: 'Latency (s)'
+};
+
+export const LIST_FILTER_LABELS: Record<ListFilterKey, string> = {
+  status: 'Status',
+  result: 'Result',
+  trader: 'Trader',
+  failureReason: 'Failure reason',
+  matchType: 'Match type'
+};
+
+const RANGE_FILTER_VALUE: Record<RangeFilterKey, (t: ProcessedTrade) => number | undefined> = {
+  pnl: t => t.pnl,
+  execAmount: t => t.matchedExecutionAmount,
+  latency: t => t.latencySeconds
+};
+
+const LIST_FILTER_VALUE: Record<ListFilterKey, (t: ProcessedTrade) => string> = {
+  status: t => t.status,
+  result: t => t.result || '',
+  trader: t => t.traderName,
+  failureReason: t => t.failureReason || '',
+  matchType: t => t.matchConfidence || 'None'
+};
+
+export const RANGE_FILTER_KEYS = Object.keys(RANGE_FILTER_LABELS) as RangeFilterKey[];
+export const LIST_FILTER_KEYS = Object.keys(LIST_FILTER_LABELS) as ListFilterKey[];
+
+const isRangeActive = (range: NumericRange) => range.min !== undefined || range.max !== undefined;
+
+// Trades without a value never satisfy an active range
+const inRange = (value: number | undefined, range: NumericRange) =>
+  value !== undefined &&
+  (range.min === undefined || value >= range.min) &&
+  (range.max === undefined || value <= range.max);
+
+export const filterTrades = (trades: ProcessedTrade[], filters: TradeFilters, timezone: string): ProcessedTrade[] => {
+  const text = filters.text.toLowerCase();
+  const { from, to } = filters.dateRange;
+  const activeRanges = RANGE_FILTER_KEYS.filter(key => isRangeActive(filters[key]));
+  const activeLists = LIST_FILTER_KEYS.filter(key => filters[key].length > 0).map(key => ({ key, values: new Set(filters[key]) }));
+
+  return trades.filter(t => {
+    if (filters.successfulOnly && (t.status !== TradeStatus.SUCCESS || t.matchedPositionStatus === 'None')) return false;
+    if (filters.category && t.category !== filters.category && !t.category.startsWith(filters.category + CATEGORY_SEPARATOR)) return false;
+    if (text && !(
+      t.traderName.toLowerCase().includes(text) ||
+      t.marketTitle.toLowerCase().includes(text) ||
+      t.action.toLowerCase().includes(text) ||
+      t.outcome.toLowerCase().includes(text) ||
+      t.category.toLowerCase().includes(text)
+    )) return false;
+    if (from || to) {
+      if (!hasReadableDate(t)) return false;
+      const day = dayKey(new Date(t.date).getTime(), timezone);
+      if ((from && day < from) || (to && day > to)) return false;
+    }
+    if (activeRanges.some(key => !inRange(RANGE_FILTER_VALUE[key](t), filters[key]))) return false;
+    if (activeLists.some(({ key, values }) => !values.has(LIST_FILTER_VALUE[key](t)))) return false;
+    return true;
+  });
+};
+
+// Distinct values present for each list filter, for the pickers
+export const listFilterOptions = (trades: ProcessedTrade[]): Record<ListFilterKey, string[]> => {
+  const options = {} as Record<ListFilterKey, string[]>;
+  LIST_FILTER_KEYS.forEach(key => {
+    options[key] = Array.from(new Set(trades.map(LIST_FILTER_VALUE[key]))).sort();
+  });
+  return options;
+};
+
+const sortValue = (t: ProcessedTrade, key: string): string | number => {
+  switch (key) {
+    case 'execAmt': return t.matchedExecutionAmount || 0;
+    case 'price': return t.matchedExecutionPrice || 0;
+    case 'latency': return t.latencySeconds || 0;
+    case 'signalAmt': return t.amount;
+    case 'totalAttempted': return t.totalAttemptedAmount || 0;
+    case 'market': return t.marketTitle;
+    case 'trader': return t.traderName;
+    case 'result': return t.result || '';
+    case 'realized': return t.realizedPnl || 0;
+    case 'unrealized': return t.unrealizedPnl || 0;
+    case 'remaining': return t.remainingShares || 0;
+    case 'value': return t.currentValue || 0;
+    default: return (t[key as keyof ProcessedTrade] as string | number) || 0;
+  }
+};
+
+// Earlier keys take precedence; later keys break ties
+export const sortTrades = (trades: ProcessedTrade[], sorts: TradeSort[]): ProcessedTrade[] =>
+  [...trades].sort((a, b) => {
+    for (const { key, direction } of sorts) {
+      const aVal = sortValue(a, key);
+      const bVal = sortValue(b, key);
+      if (aVal < bVal) return direction === 'asc' ? -1 : 1;
+      if (aVal > bVal) return direction === 'asc' ? 1 : -1;
+    }
+    return 0;
+  });
+
+export interface TradeFilterChip {
+  id: string;
+  label: string;
+  remove: (filters: TradeFilters) => TradeFilters;
+}
+
+const formatRange = ({ min, max }: NumericRange) => {
+  if (min !== undefined && max !== undefined) return `${min} – ${max}`;
+  return min !== undefined ? `≥ ${min}` : `≤ ${max}`;
+};
+
+// One chip per active filter
+export const describeTradeFilters = (filters: TradeFilters): TradeFilterChip[] => {
+  const chips: TradeFilterChip[] = [];
+  if (filters.text) chips.push({ id: 'text', label: `Search: "${filters.text}"`, remove: f => ({ ...f, text: '' }) });
+  if (filters.successfulOnly) chips.push({ id: 'successfulOnly', label: 'Successful only', remove: f => ({ ...f, successfulOnly: false }) });
+  if (filters.category) chips.push({ id: 'category', label: `Category: ${filters.category}`, remove: f => ({ ...f, category: '' }) });
+  const { from, to } = filters.dateRange;
+  if (from || to) {
+    chips.push({ id: 'dateRange', label: `Date: ${from || '…'} – ${to || '…'}`, remove: f => ({ ...f, dateRange: {} }) });
+  }
+  RANGE_FILTER_KEYS.forEach(key => {
+    if (isRangeActive(filters[key])) {
+      chips.push({ id: key, label: `${RANGE_FILTER_LABELS[key]} ${formatRange(filters[key])}`, remove: f => ({ ...f, [key]: {} }) });
+    }
+  });
+  LIST_FILTER_KEYS.forEach(key => {
+    if (filters[key].length > 0) {
+      chips.push({
+        id: key,
+        label: `${LIST_FILTER_LABELS[key]}: ${filters[key].map(v => v || '(none)').join(', ')}`,
+        remove: f => ({ ...f, [key]: [] })
+      });
+    }
+  });
+  return chips;
+};
+
+// URL parameter names; list filters repeat their parameter once per value
+const RANGE_PARAMS: Record<RangeFilterKey, string> = { pnl: 'pnl', execAmount: 'exec', latency: 'lat' };
+const LIST_PARAMS: Record<ListFilterKey, string> = { status: 'status', result: 'result', trader: 'trader', failureReason: 'reason', matchType: 'match' };
+
+const parseBound = (value: string) => {
+  if (value === '') return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+};
+
+export const serializeTradeFilters = (filters: TradeFilters, sorts: TradeSort[]): string => {
+  const params = new URLSearchParams();
+  if (filters.text) params.set('q', filters.text);
+  if (filters.successfulOnly) params.set('ok', '1');
+  if (filters.category) params.set('cat', filters.category);
+  if (filters.dateRange.from) params.set('from', filters.dateRange.from);
+  if (filters.dateRange.to) params.set('to', filters.dateRange.to);
+  RANGE_FILTER_KEYS.forEach(key => {
+    const { min, max } = filters[key];
+    if (isRangeActive(filters[key])) params.set(RANGE_PARAMS[key], `${min ?? ''}..${max ?? ''}`);
+  });
+  LIST_FILTER_KEYS.forEach(key => filters[key].forEach(value => params.append(LIST_PARAMS[key], value)));
+  const isDefaultSort = sorts.length === DEFAULT_TRADE_SORT.length &&
+    sorts.every((s, i) => s.key === DEFAULT_TRADE_SORT[i].key && s.direction === DEFAULT_TRADE_SORT[i].direction);
+  if (!isDefaultSort) params.set('sort', sorts.map(s => `${s.key}:${s.direction}`).join(','));
+  return params.toString();
+};
+
+export const parseTradeFilters = (query: string): { filters: TradeFilters; sorts: TradeSort[] } => {
+  const params = new URLSearchParams(query);
+  const filters: TradeFilters = {
+    ...EMPTY_TRADE_FILTERS,
+    text: params.get('q') || '',
+    successfulOnly: params.get('ok') === '1',
+    category: params.get('cat') || '',
+    dateRange: { from: params.get('from') || undefined, to: params.get('to') || undefined }
+  };
+  RANGE_FILTER_KEYS.forEach(key => {
+    const [min = '', max = ''] = (params.get(RANGE_PARAMS[key]) || '').split('..');
+    filters[key] = { min: parseBound(min), max: parseBound(max) };
+  });
+  LIST_FILTER_KEYS.forEach(key => filters[key] = params.getAll(LIST_PARAMS[key]));
+
+  const sorts = (params.get('sort') || '')
+    .split(',')
+    .map(part => part.split(':'))
+    .filter(([key, direction]) => key && (direction === 'asc' || direction === 'desc'))
+    .map(([key, direction]) => ({ key, direction: direction as TradeSort['direction'] }));
+  return { filters, sorts: sorts.length > 0 ? sorts : DEFAULT_TRADE_SORT };
+};
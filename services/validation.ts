@@ -0,0 +1,141 @@
+import Papa from 'papaparse';
+import { ChatDialect, ChatLog, NormalizedPortfolio, ValidationIssue, ValidationReport } from '../types';
+import { chatParseOptions, portfolioParseOptions, portfolioRowKind, parseTradeDetails, NUMERIC_PORTFOLIO_FIELDS } from './parser';
+import { parseChatTimestamp } from './time';
+
+// Diagnostics for everything parseInputData and processTrades would otherwise coerce or
+// drop without a trace. Reads the raw exports again so values are reported as written.
+
+const REQUIRED_CHAT_FIELDS = ['date', 'content'];
+
+// cleanFloat reads these as 0
+const isUnreadableNumber = (value: any): boolean => {
+  if (value === undefined || value === null) return false;
+  const text = String(value).trim();
+  if (!text) return false;
+  return isNaN(parseFloat(text.replace(/[^0-9.-]/g, '')));
+};
+
+// `origin` is how a normalized CSV was built: issues then name the uploaded file and its row
+const validatePortfolio = (portfolioCsv: string, issues: ValidationIssue[], origin?: Pick<NormalizedPortfolio, 'parseErrors' | 'rowSources'>) => {
+  const result = Papa.parse<any>(portfolioCsv, portfolioParseOptions);
+  result.errors.forEach(e => issues.push({ severity: 'error', file: 'portfolio', row: e.row, reason: e.message }));
+  origin?.parseErrors.forEach(e => issues.push({ severity: 'error', file: 'portfolio', source: e.source, row: e.row, reason: e.message }));
+  const at = (index: number) => origin?.rowSources[index] ?? { row: index };
+
+  const counts = { open: 0, closed: 0, activity: 0, ignored: 0 };
+  const ignored = new Map<string, number>();
+  const fields = result.meta.fields || [];
+  if (!fields.includes('Category')) {
+    issues.push({ severity: 'error', file: 'portfolio', field: 'Category', reason: 'Column missing; every row will be ignored' });
+  }
+
+  result.data.forEach((row: any, index: number) => {
+    const kind = portfolioRowKind(row.Category);
+    if (!kind) {
+      const category = (row.Category || '').trim() || '(empty)';
+      // One issue per distinct category; the counts carry the rest
+      if (!ignored.has(category)) {
+        issues.push({ severity: 'warning', file: 'portfolio', ...at(index), field: 'Category', value: category, reason: 'Not an OPEN, CLOSED or ACTIVITY category; rows ignored' });
+      }
+      ignored.set(category, (ignored.get(category) || 0) + 1);
+      counts.ignored++;
+      return;
+    }
+    counts[kind]++;
+
+    NUMERIC_PORTFOLIO_FIELDS.forEach(field => {
+      if (isUnreadableNumber(row[field])) {
+        issues.push({ severity: 'warning', file: 'portfolio', ...at(index), field, value: String(row[field]), reason: 'Not a number; read as 0' });
+      }
+    });
+
+    if (kind === 'activity') {
+      if (!row.timestamp) {
+        issues.push({ severity: 'warning', file: 'portfolio', ...at(index), field: 'timestamp', reason: 'Missing; the execution cannot be matched to a signal' });
+      } else if (isNaN(parseInt(row.timestamp))) {
+        issues.push({ severity: 'warning', file: 'portfolio', ...at(index), field: 'timestamp', value: String(row.timestamp), reason: 'Not a Unix timestamp; the execution cannot be matched to a signal' });
+      }
+    }
+    if (!row.slug && !row.asset) {
+      issues.push({ severity: 'warning', file: 'portfolio', ...at(index), field: 'slug', reason: 'No slug or asset id; the row cannot be linked to a market' });
+    }
+  });
+
+  return {
+    counts,
+    ignoredRowsByCategory: Array.from(ignored.entries())
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count)
+  };
+};
+
+// Mirrors collectSignals: same message filters, same reasons for skipping a line
+const validateChat = (chatCsv: string, dialect: ChatDialect, issues: ValidationIssue[]) => {
+  const result = Papa.parse<ChatLog>(chatCsv, chatParseOptions);
+  result.errors.forEach(e => issues.push({ severity: 'error', file: 'chat', row: e.row, reason: e.message }));
+
+  const fields = result.meta.fields || [];
+  REQUIRED_CHAT_FIELDS.filter(f => !fields.includes(f)).forEach(field => {
+    issues.push({ severity: 'error', file: 'chat', field, reason: 'Column missing; no signals can be read' });
+  });
+
+  let tradeLines = 0;
+  let parsedSignals = 0;
+  let unparsedTradeLines = 0;
+
+  result.data.forEach((log, index) => {
+    const content = log.content || '';
+    const lines = content.split('\n');
+    if (!lines.some(dialect.isTradeLine) && !content.includes('http')) return;
+    if (dialect.ignoredMessageMarkers.some(m => content.includes(m))) return;
+
+    let messageSignals = 0;
+    lines.forEach((line, i) => {
+      if (!dialect.isTradeLine(line)) return;
+      tradeLines++;
+
+      const details = parseTradeDetails(line, lines[i + 1], dialect);
+      if (!details.marketSlug && !details.marketTitle) {
+        unparsedTradeLines++;
+        issues.push({ severity: 'warning', file: 'chat', row: index, line: i + 1, value: line.trim(), reason: 'Trade line without a market link; skipped' });
+        return;
+      }
+      messageSignals++;
+      if (details.action === 'Unknown') {
+        issues.push({ severity: 'warning', file: 'chat', row: index, line: i + 1, field: 'action', value: line.trim(), reason: `Not understood by the ${dialect.name} dialect; kept with an unknown side and no amount` });
+      } else if (!details.amount) {
+        issues.push({ severity: 'warning', file: 'chat', row: index, line: i + 1, field: 'amount', value: line.trim(), reason: 'No signal amount; read as $0' });
+      }
+    });
+
+    if (messageSignals > 0 && isNaN(parseChatTimestamp(log.date).getTime())) {
+      unparsedTradeLines += messageSignals;
+      issues.push({ severity: 'error', file: 'chat', row: index, field: 'date', value: log.date, reason: `Unreadable date; its ${messageSignals} signal(s) cannot be matched or placed on a day and are dropped` });
+      return;
+    }
+    parsedSignals += messageSignals;
+  });
+
+  return { chatMessages: result.data.length, tradeLines, parsedSignals, unparsedTradeLines };
+};
+
+export const validateInputData = (
+  portfolioCsv: string,
+  chatCsv: string,
+  dialect: ChatDialect,
+  origin?: Pick<NormalizedPortfolio, 'parseErrors' | 'rowSources'>
+): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const portfolio = validatePortfolio(portfolioCsv, issues, origin);
+  const chat = validateChat(chatCsv, dialect, issues);
+
+  return {
+    issues,
+    errorCount: issues.filter(i => i.severity === 'error').length,
+    warningCount: issues.filter(i => i.severity === 'warning').length,
+    portfolioRows: portfolio.counts,
+    ignoredRowsByCategory: portfolio.ignoredRowsByCategory,
+    ...chat
+  };
+};
@@ -0,0 +1,123 @@
+import { Workspace, WorkspaceSummary, MappingProfile } from '../types';
+
+// Workspaces live in IndexedDB: summaries in their own store so the landing
+// list doesn't have to load every saved CSV and trade list. Portfolio column-mapping
+// profiles share the database.
+const DB_NAME = 'polytrade-analyzer';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspaces';
+const SUMMARY_STORE = 'workspaceSummaries';
+const PROFILE_STORE = 'mappingProfiles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PROFILE_STORE)) db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const toSummary = (ws: Workspace): WorkspaceSummary => ({
+  id: ws.id,
+  name: ws.name,
+  createdAt: ws.createdAt,
+  updatedAt: ws.updatedAt,
+  tradeCount: ws.trades.length
+});
+
+export const createWorkspaceId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const db = await openDb();
+  const summaries = await promisify(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()) as WorkspaceSummary[];
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadWorkspace = async (id: string): Promise<Workspace | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(WORKSPACE_STORE).objectStore(WORKSPACE_STORE).get(id)) as Promise<Workspace | undefined>;
+};
+
+export const saveWorkspace = async (ws: Workspace): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([WORKSPACE_STORE, SUMMARY_STORE], 'readwrite');
+  tx.objectStore(WORKSPACE_STORE).put(ws);
+  tx.objectStore(SUMMARY_STORE).put(toSummary(ws));
+  return transactionDone(tx);
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([WORKSPACE_STORE, SUMMARY_STORE], 'readwrite');
+  tx.objectStore(WORKSPACE_STORE).delete(id);
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+export const renameWorkspace = async (id: string, name: string): Promise<void> => {
+  const ws = await loadWorkspace(id);
+  if (!ws) throw new Error(`Workspace ${id} not found`);
+  await saveWorkspace({ ...ws, name, updatedAt: new Date().toISOString() });
+};
+
+export const duplicateWorkspace = async (id: string): Promise<Workspace> => {
+  const ws = await loadWorkspace(id);
+  if (!ws) throw new Error(`Workspace ${id} not found`);
+  const now = new Date().toISOString();
+  const copy: Workspace = { ...ws, id: createWorkspaceId(), name: `${ws.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveWorkspace(copy);
+  return copy;
+};
+
+export const listMappingProfiles = async (): Promise<MappingProfile[]> => {
+  const db = await openDb();
+  const profiles = await promisify(db.transaction(PROFILE_STORE).objectStore(PROFILE_STORE).getAll()) as MappingProfile[];
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveMappingProfile = async (profile: MappingProfile): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROFILE_STORE, 'readwrite');
+  tx.objectStore(PROFILE_STORE).put(profile);
+  return transactionDone(tx);
+};
+
+export const deleteMappingProfile = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROFILE_STORE, 'readwrite');
+  tx.objectStore(PROFILE_STORE).delete(id);
+  return transactionDone(tx);
+};
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { ChatLog, TradeStatus } from '../types';
+import { detectDialect, getDialect } from '../services/dialects';
+import { parseChatLogs, parseTradeDetails } from '../services/parser';
+
+const loadFixture = (name: string): ChatLog[] =>
+  parseChatLogs(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+// Every trade line of the export with its trader, as collectSignals reads them
+const readSignals = (logs: ChatLog[], dialectId: string) => {
+  const dialect = getDialect(dialectId);
+  return logs
+    .filter(log => !dialect.ignoredMessageMarkers.some(m => log.content.includes(m)))
+    .flatMap(log => {
+      const lines = log.content.split('\n');
+      return lines
+        .map((line, i) => ({ line, next: lines[i + 1] }))
+        .filter(({ line }) => dialect.isTradeLine(line))
+        .map(({ line, next }) => ({ trader: dialect.extractTraderName(log.content), ...parseTradeDetails(line, next, dialect) }));
+    });
+};
+
+const markdown = loadFixture('markdown-chat.csv');
+const plainText = loadFixture('plain-text-chat.csv');
+
+test('detectDialect ranks the dialect that reads every signal first', () => {
+  const [best, other] = detectDialect(markdown);
+  assert.equal(best.dialectId, 'markdown-default');
+  assert.equal(best.confidence, 1);
+  assert.equal(other.confidence, 0);
+
+  const [plainBest] = detectDialect(plainText);
+  assert.equal(plainBest.dialectId, 'plain-text');
+  assert.equal(plainBest.confidence, 1);
+});
+
+test('detectDialect confidence is the share of signals understood', () => {
+  const mixed = [...markdown.slice(1, 3), ...plainText.slice(1, 3)];
+  const detections = detectDialect(mixed);
+  assert.deepEqual(detections.map(d => d.confidence), [0.5, 0.5]);
+  assert.equal(detections[0].dialectId, 'markdown-default', 'ties keep the default first');
+  assert.deepEqual(detectDialect([]).map(d => d.confidence), [0, 0]);
+});
+
+test('markdown parseTradeLine reads side, outcome, amount and price', () => {
+  const dialect = getDialect('markdown-default');
+  assert.deepEqual(dialect.parseTradeLine('**Alice** BUY "Yes" $1,250.50 @ 0.62 [T](https://polymarket.com/event/t)'), {
+    action: 'BUY',
+    outcome: 'Yes',
+    amountText: '1,250.50',
+    priceText: '0.62'
+  });
+  assert.equal(dialect.parseTradeLine('**Bob** SELL "No" $4 [T](https://polymarket.com/event/t)').action, 'SELL');
+  assert.equal(dialect.parseTradeLine('no trade here').action, 'Unknown');
+});
+
+test('plain-text parseTradeLine maps BOUGHT/SOLD onto BUY/SELL', () => {
+  const dialect = getDialect('plain-text');
+  assert.deepEqual(dialect.parseTradeLine('BOUGHT Yes for $10 at 62c https://polymarket.com/event/t'), {
+    action: 'BUY',
+    outcome: 'Yes',
+    amountText: '10',
+    priceText: '62c'
+  });
+  assert.equal(dialect.parseTradeLine('SOLD No for $4 https://polymarket.com/event/t').action, 'SELL');
+});
+
+test('trader names come from each dialect\'s header', () => {
+  assert.deepEqual(readSignals(markdown, 'markdown-default').map(s => s.trader), ['Alice', 'Bob', 'Bob', 'Carol', 'Alice']);
+  assert.deepEqual(readSignals(plainText, 'plain-text').map(s => s.trader), ['Alice', 'Bob', 'Bob', 'Carol']);
+  assert.equal(getDialect('markdown-default').extractTraderName('BUY "Yes" $5'), null);
+  assert.equal(getDialect('plain-text').extractTraderName('BOUGHT Yes for $5'), null);
+});
+
+test('markdown failure reasons come from the line, the next line or the marker default', () => {
+  const signals = readSignals(markdown, 'markdown-default');
+  assert.deepEqual(signals.map(s => [s.marketSlug, s.status, s.failureReason]), [
+    ['will-btc-hit-100k', TradeStatus.SUCCESS, ''],
+    ['lakers-vs-celtics', TradeStatus.SUCCESS, ''],
+    ['fed-cuts', TradeStatus.FAILED, 'Insufficient Balance'],
+    ['eth-flips-btc', TradeStatus.FAILED, 'Odds Limit Exceeded'],
+    ['rain-in-london', TradeStatus.FAILED, 'Skipped']
+  ]);
+});
+
+test('plain-text failure reasons use the plain-text error strings', () => {
+  const signals = readSignals(plainText, 'plain-text');
+  assert.deepEqual(signals.map(s => [s.marketSlug, s.status, s.failureReason]), [
+    ['will-btc-hit-100k', TradeStatus.SUCCESS, ''],
+    ['lakers-vs-celtics', TradeStatus.SUCCESS, ''],
+    ['fed-cuts', TradeStatus.FAILED, 'Insufficient Balance'],
+    ['eth-flips-btc', TradeStatus.FAILED, 'Low Liquidity']
+  ]);
+});
+
+test('portfolio summaries are not signals', () => {
+  assert.equal(readSignals(markdown, 'markdown-default').length, markdown.length - 1);
+  assert.equal(readSignals(plainText, 'plain-text').length, plainText.length - 1);
+});
@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostBasisMethod, ProcessedTrade, TradeStatus } from '../types';
+import { applyLotLedger, isFullyExitedLot, isLedgerExit } from '../services/ledger';
+
+const trade = (
+  id: string,
+  minute: number,
+  action: 'BUY' | 'SELL',
+  shares: number,
+  price: number,
+  extra: Partial<ProcessedTrade> = {}
+): ProcessedTrade => ({
+  id,
+  date: new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString(),
+  traderName: 'Alice',
+  action,
+  outcome: 'Yes',
+  amount: shares * price,
+  marketTitle: 'Will BTC hit 100k?',
+  marketSlug: 'will-btc-hit-100k',
+  marketUrl: 'https://polymarket.com/event/will-btc-hit-100k',
+  status: TradeStatus.SUCCESS,
+  category: 'Crypto',
+  matchedAsset: 'a1',
+  matchedExecutionPrice: price,
+  shares,
+  matchedPositionStatus: 'Active',
+  markPrice: action === 'BUY' ? 0.8 : undefined,
+  matchConfidence: 'Exact (Activity)',
+  ...extra
+});
+
+const near = (actual: number | undefined, expected: number) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+// Two lots at 0.40 and 0.60, then a partial exit of 15 of the 20 shares at 0.70
+const partialExit = () => [
+  trade('b1', 0, 'BUY', 10, 0.4),
+  trade('b2', 1, 'BUY', 10, 0.6),
+  trade('s1', 2, 'SELL', 15, 0.7)
+];
+
+const byId = (trades: ProcessedTrade[]) => new Map(trades.map(t => [t.id, t]));
+
+test('FIFO sells the oldest lot first', () => {
+  const t = byId(applyLotLedger(partialExit(), 'FIFO'));
+  near(t.get('s1')!.costBasis, 10 * 0.4 + 5 * 0.6);
+  near(t.get('s1')!.realizedPnl, 15 * 0.7 - 7);
+  assert.equal(t.get('s1')!.result, 'WIN');
+  assert.equal(t.get('b1')!.remainingShares, 0);
+  assert.ok(isFullyExitedLot(t.get('b1')!));
+  near(t.get('b2')!.remainingShares, 5);
+  near(t.get('b2')!.unrealizedPnl, (0.8 - 0.6) * 5);
+});
+
+test('LIFO sells the newest lot first', () => {
+  const t = byId(applyLotLedger(partialExit(), 'LIFO'));
+  near(t.get('s1')!.costBasis, 10 * 0.6 + 5 * 0.4);
+  near(t.get('s1')!.realizedPnl, 10.5 - 8);
+  near(t.get('b1')!.remainingShares, 5);
+  near(t.get('b1')!.unrealizedPnl, (0.8 - 0.4) * 5);
+  assert.equal(t.get('b2')!.remainingShares, 0);
+});
+
+test('AVERAGE sells at the blended cost and shrinks every lot in proportion', () => {
+  const t = byId(applyLotLedger(partialExit(), 'AVERAGE'));
+  near(t.get('s1')!.costBasis, 15 * 0.5);
+  near(t.get('s1')!.realizedPnl, 10.5 - 7.5);
+  near(t.get('b1')!.remainingShares, 2.5);
+  near(t.get('b2')!.remainingShares, 2.5);
+  near(t.get('b1')!.pnl, (0.8 - 0.4) * 2.5);
+  near(t.get('b2')!.pnl, (0.8 - 0.6) * 2.5);
+});
+
+test('the methods split realized and unrealized PnL differently but agree on the total', () => {
+  const methods: CostBasisMethod[] = ['FIFO', 'LIFO', 'AVERAGE'];
+  const runs = methods.map(method => applyLotLedger(partialExit(), method));
+  const realized = runs.map(r => r.reduce((sum, t) => sum + (t.realizedPnl || 0), 0));
+  const total = runs.map(r => r.reduce((sum, t) => sum + (t.pnl || 0), 0));
+
+  assert.equal(new Set(realized.map(r => r.toFixed(6))).size, 3);
+  total.forEach(value => near(value, 15 * 0.7 + 5 * 0.8 - 10 * 0.4 - 10 * 0.6));
+});
+
+test('an over-sell only books PnL on the shares the known lots cover', () => {
+  const t = byId(applyLotLedger([
+    trade('b1', 0, 'BUY', 10, 0.5),
+    trade('s1', 1, 'SELL', 15, 0.6)
+  ], 'FIFO'));
+  near(t.get('s1')!.costBasis, 5);
+  near(t.get('s1')!.realizedPnl, 10 * 0.6 - 5);
+  assert.ok(isLedgerExit(t.get('s1')!));
+  assert.equal(t.get('b1')!.remainingShares, 0);
+});
+
+test('a SELL with no lots behind it gets no PnL', () => {
+  const [sell] = applyLotLedger([trade('s1', 0, 'SELL', 10, 0.6, { pnl: 3 })], 'FIFO');
+  assert.equal(sell.pnl, undefined);
+  assert.equal(sell.costBasis, undefined);
+  assert.ok(!isLedgerExit(sell));
+});
+
+test('held shares in a closed market are realized at settlement', () => {
+  const t = byId(applyLotLedger([
+    trade('b1', 0, 'BUY', 10, 0.4, { matchedPositionStatus: 'Closed', markPrice: 1 }),
+    trade('s1', 1, 'SELL', 4, 0.7)
+  ], 'FIFO'));
+  near(t.get('b1')!.realizedPnl, (1 - 0.4) * 6);
+  assert.equal(t.get('b1')!.unrealizedPnl, 0);
+});
+
+test('lots are kept apart per trader and outcome token', () => {
+  const t = byId(applyLotLedger([
+    trade('b1', 0, 'BUY', 10, 0.4),
+    trade('b2', 1, 'BUY', 10, 0.6, { traderName: 'Bob' }),
+    trade('s1', 2, 'SELL', 10, 0.7, { traderName: 'Bob' })
+  ], 'FIFO'));
+  near(t.get('s1')!.costBasis, 6);
+  near(t.get('b1')!.remainingShares, 10);
+  assert.equal(t.get('b2')!.remainingShares, 0);
+});
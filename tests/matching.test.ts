@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PortfolioRow } from '../types';
+import {
+  DEFAULT_MATCH_SETTINGS,
+  MAX_OPTIMAL_COMPONENT_SIZE,
+  SignalForMatching,
+  assignActivityOptimally,
+  buildActivityIndex,
+  rankActivityCandidates
+} from '../services/matching';
+
+const T0 = 1735732800;
+
+const signal = (slug: string, time: number, outcome = 'yes', amount = 10): SignalForMatching => ({
+  side: 'BUY',
+  simpleSlug: slug.replace(/[^a-z0-9]/g, ''),
+  simpleOutcome: outcome,
+  amount,
+  time: T0 + time
+});
+
+const fill = (slug: string, time: number, outcome = 'Yes', usdcSize = 10): PortfolioRow => ({
+  Category: '3_ACTIVITY_HISTORY',
+  title: slug,
+  slug,
+  outcome,
+  timestamp: T0 + time,
+  side: 'BUY',
+  usdcSize,
+  transactionHash: `0x${slug}-${time}`
+});
+
+const OPTIMAL = { ...DEFAULT_MATCH_SETTINGS, mode: 'optimal' as const };
+
+// Chat order, each signal claiming its pick before the next one looks
+const matchGreedily = (signals: SignalForMatching[], activity: PortfolioRow[]) => {
+  const index = buildActivityIndex(activity);
+  const used = new Set<number>();
+  return signals.map(s => {
+    const audit = rankActivityCandidates(s, activity, used, DEFAULT_MATCH_SETTINGS, index);
+    if (audit.winnerActivityIndex !== undefined) used.add(audit.winnerActivityIndex);
+    return audit.winnerActivityIndex;
+  });
+};
+
+test('optimal assignment gives up a close fill when that frees a better one for a later signal', () => {
+  const signals = [signal('btc', 0), signal('btc', 90)];
+  const activity = [fill('btc', 60), fill('btc', -100)];
+
+  // Greedy: the first signal takes the 60s fill, leaving the second 190s away
+  assert.deepEqual(matchGreedily(signals, activity), [0, 1]);
+
+  const audits = assignActivityOptimally(signals, activity, OPTIMAL);
+  assert.deepEqual(audits.map(a => a.winnerActivityIndex), [1, 0]);
+  assert.match(audits[0].reason, /Optimal assignment picked candidate #2/);
+  assert.equal(audits[1].candidates.find(c => c.activityIndex === 1)?.rejectionReason, 'Assigned to another signal');
+});
+
+test('optimal assignment never uses a forbidden pair and leaves the surplus signal unmatched', () => {
+  // Fill 0 has no outcome, so either side may take it; fill 1 is Yes and a conflict for No signals
+  const signals = [signal('fed', 0, 'yes'), signal('fed', 10, 'no'), signal('fed', 600, 'no')];
+  const activity = [fill('fed', 20, ''), fill('fed', 15, 'Yes')];
+
+  const audits = assignActivityOptimally(signals, activity, OPTIMAL);
+  assert.deepEqual(audits.map(a => a.winnerActivityIndex), [1, 0, undefined]);
+  assert.equal(audits[2].candidates.find(c => c.activityIndex === 1)?.eligible, false);
+  assert.match(audits[2].reason, /assigned to other signals/);
+});
+
+test('independent markets are solved as separate components without the greedy fallback', () => {
+  const markets = Array.from({ length: MAX_OPTIMAL_COMPONENT_SIZE }, (_, i) => `market-${i}-winner`); // No slug contains another
+  const signals = markets.flatMap(m => [signal(m, 0), signal(m, 90)]);
+  const activity = markets.flatMap(m => [fill(m, 60), fill(m, -100)]);
+
+  const audits = assignActivityOptimally(signals, activity, OPTIMAL);
+  assert.ok(audits.every(a => !a.greedyFallback));
+  // Each market swaps its pair the same way the two-signal case does
+  audits.forEach((a, i) => assert.equal(a.winnerActivityIndex, i % 2 === 0 ? i + 1 : i - 1));
+});
+
+test('a component over the size cap falls back to greedy and says so', () => {
+  const count = MAX_OPTIMAL_COMPONENT_SIZE / 2 + 1;
+  const signals = Array.from({ length: count }, (_, i) => signal('busy', i * 10));
+  const activity = Array.from({ length: count }, (_, i) => fill('busy', i * 10 + (i % 2 === 0 ? 4 : -3)));
+
+  const audits = assignActivityOptimally(signals, activity, OPTIMAL);
+  assert.ok(audits.every(a => a.greedyFallback));
+  assert.deepEqual(audits.map(a => a.winnerActivityIndex), matchGreedily(signals, activity));
+  assert.match(audits[0].reason, /too many for optimal assignment; matched greedily/);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Papa from 'papaparse';
+import { detectSchema, normalizePortfolioFiles } from '../services/schema';
+import { validateInputData } from '../services/validation';
+import { getDialect } from '../services/dialects';
+
+const OPEN_CSV = [
+  'asset,title,slug,size,avgPrice,currentValue,outcome,curPrice',
+  'a1,Will BTC hit 100k?,will-btc-hit-100k,20,0.5,12,Yes,0.6'
+].join('\n');
+
+const ACTIVITY_CSV = [
+  'asset,title,slug,size,outcome,timestamp,side,usdcSize,transactionHash,price',
+  'a1,Will BTC hit 100k?,will-btc-hit-100k,20,Yes,1735732860,BUY,10,0xaaa,0.5',
+  'a2,Lakers vs Celtics,lakers-vs-celtics,10,No,1735736400,BUY,4,0xbbb,0.4,extra',
+  'a3,Fed cuts?,fed-cuts,5,Yes,soon,BUY,2,0xccc,0.4'
+].join('\n');
+
+const normalize = () => normalizePortfolioFiles([
+  { name: 'open.csv', csv: OPEN_CSV, schema: detectSchema(OPEN_CSV, 'open.csv').schema },
+  { name: 'activity.csv', csv: ACTIVITY_CSV, schema: detectSchema(ACTIVITY_CSV, 'activity.csv').schema }
+]);
+
+test('normalizing keeps parse errors and rows in terms of the uploaded files', () => {
+  const portfolio = normalize();
+
+  assert.equal(Papa.parse(portfolio.csv, { header: true, skipEmptyLines: true }).errors.length, 0);
+  assert.deepEqual(portfolio.parseErrors.map(e => ({ source: e.source, row: e.row })), [{ source: 'activity.csv', row: 1 }]);
+  assert.deepEqual(portfolio.rowSources, [
+    { source: 'open.csv', row: 0 },
+    { source: 'activity.csv', row: 0 },
+    { source: 'activity.csv', row: 1 },
+    { source: 'activity.csv', row: 2 }
+  ]);
+});
+
+test('validation reports portfolio issues against the uploaded file and row', () => {
+  const portfolio = normalize();
+  const report = validateInputData(portfolio.csv, 'date,sender_id,content\n', getDialect('markdown-default'), portfolio);
+  const portfolioIssues = report.issues.filter(i => i.file === 'portfolio');
+
+  assert.deepEqual(
+    portfolioIssues.map(i => ({ severity: i.severity, source: i.source, row: i.row, field: i.field })),
+    [
+      { severity: 'error', source: 'activity.csv', row: 1, field: undefined },
+      { severity: 'warning', source: 'activity.csv', row: 2, field: 'timestamp' }
+    ]
+  );
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProcessedTrade, TradeStatus } from '../types';
+import { calculateSignificance, poissonBinomialUpperTail } from '../services/significance';
+
+const near = (actual: number | null, expected: number, tolerance = 1e-12) =>
+  assert.ok(actual !== null && Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+
+const trade = (id: string, price: number, won: boolean, amount = 10): ProcessedTrade => ({
+  id,
+  date: '2025-01-01T12:00:00.000Z',
+  traderName: 'Alice',
+  action: 'BUY',
+  outcome: 'Yes',
+  amount,
+  marketTitle: `Market ${id}`,
+  marketSlug: `market-${id}`,
+  marketUrl: '',
+  status: TradeStatus.SUCCESS,
+  category: 'Crypto',
+  matchedExecutionPrice: price,
+  matchedExecutionAmount: amount,
+  matchedPositionStatus: 'Closed',
+  pnl: won ? amount * (1 / price - 1) : -amount,
+  result: won ? 'WIN' : 'LOSS'
+});
+
+test('poissonBinomialUpperTail matches hand-computed tails', () => {
+  // Two trades winning with 0.2 and 0.5: P(2 wins) = 0.1, P(at least 1) = 1 - 0.8 * 0.5
+  near(poissonBinomialUpperTail([0.2, 0.5], 2), 0.1);
+  near(poissonBinomialUpperTail([0.2, 0.5], 1), 0.6);
+  // Three fair coins: P(at least 2 heads) = (3 + 1) / 8
+  near(poissonBinomialUpperTail([0.5, 0.5, 0.5], 2), 0.5);
+  assert.equal(poissonBinomialUpperTail([0.5, 0.5], 0), 1);
+  assert.equal(poissonBinomialUpperTail([0.5, 0.5], 3), 0);
+});
+
+test('poissonBinomialUpperTail switches to the normal approximation on long records', () => {
+  // Binomial(600, 0.5): P(X >= 300) = 0.5 + P(X = 300) / 2, with P(X = 300) ≈ 0.03256
+  near(poissonBinomialUpperTail(new Array(600).fill(0.5), 300), 0.5163, 1e-3);
+});
+
+test('the p-value tests settled buys against their entry prices', () => {
+  const stats = calculateSignificance([trade('a', 0.2, true), trade('b', 0.5, true)], 'Alice');
+  near(stats.pValue, 0.1);
+  near(stats.breakEvenWinRate, 35, 1e-9);
+});
+
+test('bootstrap intervals are seeded and bracket the observed values', () => {
+  const trades = Array.from({ length: 40 }, (_, i) => trade(String(i), 0.5, i % 4 !== 0));
+  const stats = calculateSignificance(trades, 'Alice');
+
+  assert.deepEqual(calculateSignificance(trades, 'Alice'), stats);
+  assert.notDeepEqual(calculateSignificance(trades, 'Bob').winRateCI, stats.winRateCI);
+
+  // 30 of 40 won
+  assert.ok(stats.winRateCI.low < 75 && stats.winRateCI.high > 75);
+  assert.ok(stats.winRateCI.low >= 0 && stats.winRateCI.high <= 100);
+  assert.ok(stats.meanRoiCI.low < stats.meanRoi && stats.meanRoiCI.high > stats.meanRoi);
+  assert.ok(stats.sharpeCI.low <= stats.sharpeCI.high);
+});
+
+test('identical trades give a zero-width interval', () => {
+  const stats = calculateSignificance(Array.from({ length: 10 }, (_, i) => trade(String(i), 0.5, true)), 'Alice');
+  assert.deepEqual(stats.winRateCI, { low: 100, high: 100 });
+  near(stats.meanRoiCI.low, 100, 1e-9);
+  near(stats.meanRoiCI.high, 100, 1e-9);
+});
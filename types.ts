@@ -12,11 +12,86 @@ export interface PortfolioRow {
   outcome?: string;
   timestamp?: number; // Unix timestamp
   side?: string;
+  type?: string; // Activity type when the export has one: TRADE, REDEEM, MERGE, SPLIT, REWARD
   usdcSize?: number;
   transactionHash?: string;
   price?: number;
   curPrice?: number; // Added for new CSV format (Settlement Price)
   date?: string; // Scrape_Date or endDate
+  tags?: string; // Optional event tags, comma/semicolon separated
+}
+
+// How a portfolio file is laid out: one consolidated file routed by its Category
+// column, or a file holding only open positions, closed positions or activity
+export type PortfolioFileKind = 'consolidated' | 'open' | 'closed' | 'activity';
+
+export type TimestampFormat = 'seconds' | 'milliseconds' | 'iso';
+
+export interface PortfolioSchema {
+  kind: PortfolioFileKind;
+  mapping: Record<string, keyof PortfolioRow | null>; // Source column -> field (null = ignored)
+  timestampFormat: TimestampFormat;
+}
+
+export interface SchemaDetection {
+  fileName: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  schema: PortfolioSchema;
+  mappedShare: number; // 0-1, share of source columns mapped to a field
+  profileId?: string; // Saved profile whose headers matched
+}
+
+// A confirmed column mapping, re-applied to files with the same headers
+export interface MappingProfile extends PortfolioSchema {
+  id: string;
+  name: string;
+  headerSignature: string;
+  updatedAt: string; // ISO
+}
+
+export interface ParseError {
+  file: 'portfolio' | 'chat';
+  source?: string; // Uploaded portfolio file name; row is then a row of that file
+  row?: number; // Zero-based data row reported by Papa
+  message: string;
+}
+
+// Uploaded file and data row a row of the normalized portfolio CSV was read from
+export interface PortfolioRowSource {
+  source: string;
+  row: number;
+}
+
+// Portfolio files rewritten as one consolidated CSV (services/schema.ts)
+export interface NormalizedPortfolio {
+  csv: string;
+  parseErrors: ParseError[]; // Found while reading the uploaded files
+  rowSources: PortfolioRowSource[]; // One per row of csv
+}
+
+// One finding of the ingestion validation pass (services/validation.ts)
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  file: 'portfolio' | 'chat';
+  source?: string; // Uploaded portfolio file, when known
+  row?: number; // Zero-based data row, as in ParseError
+  line?: number; // One-based line within a chat message
+  field?: string;
+  value?: string;
+  reason: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+  portfolioRows: { open: number; closed: number; activity: number; ignored: number };
+  ignoredRowsByCategory: { category: string; count: number }[]; // Rows whose Category is not OPEN/CLOSED/ACTIVITY
+  chatMessages: number;
+  tradeLines: number; // Lines the dialect treats as trade lines
+  parsedSignals: number;
+  unparsedTradeLines: number; // Looked like trades but were dropped
 }
 
 export interface ChatLog {
@@ -25,6 +100,57 @@ export interface ChatLog {
   content: string;
 }
 
+export interface FailureReasonRule {
+  patterns: string[]; // Substrings that identify the reason (case-sensitive)
+  reason: string;
+}
+
+export interface TradeLineMatch {
+  action: 'BUY' | 'SELL' | 'Unknown';
+  outcome: string;
+  amountText: string; // Raw amount, cleaned by the parser
+  priceText?: string; // Raw price quoted in the signal ("0.62", "62¢"), when present
+}
+
+// A chat "dialect" describes how one bot formats its signal messages.
+export interface ChatDialect {
+  id: string;
+  name: string;
+  description: string;
+  ignoredMessageMarkers: string[]; // Messages containing these are not signals (e.g. portfolio summaries)
+  isTradeLine: (line: string) => boolean;
+  parseTradeLine: (line: string) => TradeLineMatch;
+  extractTraderName: (content: string) => string | null;
+  statusMarkers: { marker: string; defaultReason: string }[]; // Line markers that flag a failed/skipped signal
+  failureReasons: FailureReasonRule[]; // Checked in order, first match wins
+  parseBalance?: (content: string) => number | null; // Cash balance quoted in a portfolio summary message
+}
+
+export interface DialectDetection {
+  dialectId: string;
+  name: string;
+  confidence: number; // 0-1, share of sampled signal messages the dialect understood
+}
+
+export type PipelineStage = 'parse' | 'match' | 'analytics';
+
+// Reported by the processing pipeline while it works through a long export
+export interface PipelineProgress {
+  stage: PipelineStage;
+  done: number;
+  total: number;
+  message: string; // e.g. "Matched 4,200/12,000 signals"
+}
+
+// Parsed exports plus the dialect used to read the chat, ready for matching
+export interface ParsedInputs {
+  chatLogs: ChatLog[];
+  activePositions: PortfolioRow[];
+  closedPositions: PortfolioRow[];
+  activityHistory: PortfolioRow[];
+  dialect: ChatDialect;
+}
+
 export enum TradeStatus {
   SUCCESS = 'Success',
   FAILED = 'Failed',
@@ -32,6 +158,59 @@ export enum TradeStatus {
   MISSING = 'Not Executed'
 }
 
+export interface MatchWeights {
+  time: number;
+  slug: number;
+  outcome: number;
+  size: number;
+}
+
+export type MatchMode = 'greedy' | 'optimal';
+
+// Added to each source's timestamps before matching, to line the chat server's clock up with chain time
+export interface ClockOffsets {
+  chatSeconds: number;
+  activitySeconds: number;
+}
+
+export interface MatchSettings {
+  mode: MatchMode; // greedy: chat order, first signal claims the closest row in time; optimal: global assignment by score
+  windowSeconds: number;
+  weights: MatchWeights;
+  clockOffsets?: ClockOffsets; // Missing on workspaces saved before offsets were configurable
+}
+
+// Each component is normalised to 0-1; total is the weighted average
+export interface MatchScoreBreakdown {
+  time: number; // 1 at zero delay, 0 at the edge of the window
+  slug: number;
+  outcome: number;
+  size: number; // Executed $ vs signal $
+  total: number;
+}
+
+export interface MatchCandidate {
+  activityIndex: number; // Row index into activityHistory
+  txHash?: string;
+  timestamp?: number;
+  timeDeltaSeconds: number; // Activity time - signal time
+  slug: string;
+  outcome?: string;
+  usdcSize?: number;
+  price?: number;
+  score: MatchScoreBreakdown;
+  eligible: boolean;
+  rejectionReason?: string;
+}
+
+export interface MatchAudit {
+  candidates: MatchCandidate[]; // Ranked best first, truncated
+  totalCandidates: number;
+  winnerActivityIndex?: number;
+  reason: string;
+  greedyFallback?: boolean; // Optimal mode only: the signal's component was too large to solve
+}
+
 export interface ProcessedTrade {
   id: string;
   date: string; // ISO String
@@ -40,6 +219,7 @@ export interface ProcessedTrade {
   action: 'BUY' | 'SELL' | 'Unknown';
   outcome: string;
   amount: number; // Signal Amount
+  signalPrice?: number; // Price quoted in the signal message, 0-1
   marketTitle: string;
   marketSlug: string;
   marketUrl: string;
@@ -47,10 +227,11 @@ export interface ProcessedTrade {
   failureReason?: string;
   
   // Categorization
-  category: 'Sport' | 'Non-Sport';
+  category: string; // Taxonomy path, e.g. "Sports/NBA" (see services/taxonomy.ts)
 
   // Matching Details
   matchedTxHash?: string;
+  matchedAsset?: string; // Outcome token id from the matched activity row
   matchedExecutionPrice?: number;
   matchedExecutionAmount?: number;
   
@@ -61,7 +242,15 @@ export interface ProcessedTrade {
   matchedPositionStatus: 'Active' | 'Closed' | 'None';
   pnl?: number; // Calculated per trade: (Exit/Current - Entry) * Shares
   currentValue?: number; // Shares * CurrentPrice
+  markPrice?: number; // Settlement price (closed) or current price (active)
+
+  // Lot Ledger (see services/ledger.ts)
+  costBasis?: number; // BUY: cost of the lot; SELL: cost of the lots it consumed
+  remainingShares?: number; // BUY only: shares of the lot not yet sold
+  realizedPnl?: number; // Booked by SELLs and by settlement of held shares
+  unrealizedPnl?: number; // Mark-to-market on shares still held in open markets
   matchConfidence?: 'Exact (Activity)' | 'Inferred (Position)' | 'None';
+  matchAudit?: MatchAudit; // Why this execution (or none) was chosen
   latencySeconds?: number;
   
   // Result
@@ -71,17 +260,190 @@ export interface ProcessedTrade {
   totalAttemptedAmount?: number; // Sum of all attempts (failed or success) for this market/trader
 }
 
+export type TaxonomyMatchType = 'slugPrefix' | 'regex' | 'tag';
+
+export interface TaxonomyRule {
+  id: string;
+  category: string; // Path, most general first: "Sports/NBA"
+  type: TaxonomyMatchType;
+  pattern: string; // Slug prefix, regex (tested on title and slug, case-insensitive) or event tag
+  enabled: boolean;
+}
+
+export interface CategoryMatch {
+  category: string;
+  ruleId: string | null; // null when no rule matched
+}
+
+export interface MatchDiffEntry {
+  greedy: ProcessedTrade;
+  optimal: ProcessedTrade;
+}
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+export type SizingRule = 'FIXED' | 'PERCENT' | 'KELLY';
+
+export interface SimulationSettings {
+  startingBankroll: number;
+  sizingRule: SizingRule;
+  fixedAmount: number; // FIXED: $ per signal
+  bankrollPercent: number; // PERCENT: % of current bankroll per signal
+  kellyFraction: number; // KELLY: multiplier on the full Kelly stake (e.g. 0.25)
+  perMarketCap: number | null; // Max $ committed to one market at a time, on top of any rule
+  replayedFailureReasons: string[]; // FAILED signals with these reasons are replayed as if filled
+}
+
+export interface SimulationResult {
+  trades: ProcessedTrade[]; // Simulated fills, shaped like processed trades
+  analytics: AnalyticsResult;
+  startingBankroll: number;
+  finalBankroll: number; // Cash plus open positions at their mark
+  replayedFailed: number; // Simulated fills that were FAILED signals in reality
+  skipped: Record<string, number>; // Signals not simulated, by reason
+}
+
+// A failed or skipped signal priced as if it had filled and been held to settlement
+export interface MissedTrade {
+  trade: ProcessedTrade;
+  entryPrice: number;
+  entryPriceSource: 'Nearby execution' | 'Position avg price';
+  settlementPrice: number;
+  hypotheticalPnl: number;
+}
+
+export interface MissedPnlGroup {
+  key: string; // Failure reason, trader or category
+  count: number;
+  stake: number; // Signal $ that did not go through
+  missedPnl: number;
+  wins: number;
+}
+
+export interface OpportunityCostReport {
+  missed: MissedTrade[];
+  totalMissedPnl: number;
+  byReason: MissedPnlGroup[];
+  byTrader: MissedPnlGroup[];
+  byCategory: MissedPnlGroup[];
+  unsettled: number; // Failed signals whose market has not settled in closedPositions
+  unpriced: number; // Settled, but no entry price could be estimated
+}
+
+// UI state restored when a workspace is reopened
+export interface WorkspaceUIState {
+  dateRange: { start: string; end: string } | null; // ISO strings
+  tradeTableColumns: string[] | null; // null = component defaults
+  traderStatsColumns: string[] | null;
+  hiddenTraders: string[]; // Traders toggled off in TraderGraphs
+}
+
+export interface WorkspaceSettings {
+  dialectId: string;
+  matchSettings: MatchSettings;
+  costBasisMethod: CostBasisMethod;
+  taxonomyRules?: TaxonomyRule[]; // Missing on workspaces saved before rules were editable
+  timezone?: string; // IANA zone for days and labels; UTC when missing
+  startingBalance?: number | null; // USDC before the first activity row; inferred from chat when null
+}
+
+// What one import (the initial upload or an appended pair of exports) added to the dataset
+export interface ImportSummary {
+  importedAt: string; // ISO
+  newSignals: number;
+  duplicateMessages: number; // Chat messages already in the dataset
+  newExecutions: number; // Activity rows not seen before
+  duplicateExecutions: number;
+  positionUpdates: number; // Open/closed position rows that were new or changed
+  affectedMarkets: number; // Markets re-matched
+}
+
+export interface WorkspaceImport {
+  portfolioCsv: string;
+  chatCsv: string;
+  summary: ImportSummary;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  imports: WorkspaceImport[]; // In import order; replayed to rebuild the dataset
+  settings: WorkspaceSettings;
+  trades: ProcessedTrade[];
+  ui: WorkspaceUIState;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  tradeCount: number;
+}
+
 export interface TimeSeriesPoint {
   date: string;
   timestamp: number;
   value: number; // PnL or Balance
   winRate?: number;
   trader?: string;
+  drawdown?: number; // Daily equity only: distance below the running peak (<= 0)
+}
+
+// Computed on the daily equity series (see calculateAnalytics)
+export interface DrawdownStats {
+  maxDrawdown: number; // Largest peak-to-trough drop in $, as a positive number
+  maxDrawdownDays: number; // Longest stretch spent below a previous peak
+  recoveryDays: number | null; // Trough of the max drawdown back to its peak; null if not yet recovered
+  calmarRatio: number; // Annualized PnL / max drawdown
+  sortinoRatio: number; // Annualized, on daily PnL changes
+}
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+// Sampling uncertainty of a trader's per-trade results (see services/significance.ts)
+export interface SignificanceStats {
+  tradeCount: number; // Trades the stats are computed from
+  winRateCI: ConfidenceInterval; // %
+  meanRoi: number; // Mean per-trade PnL / invested, %
+  meanRoiCI: ConfidenceInterval; // %
+  sharpeCI: ConfidenceInterval;
+  breakEvenWinRate: number | null; // Average entry price of settled BUYs, %: the win rate expected if prices were fair
+  pValue: number | null; // One-sided, chance of at least this many BUY wins at break-even; null without settled priced BUYs
+}
+
+// Entry price read as the market's probability of the outcome, scored against
+// how the market settled (see services/calibration.ts)
+export interface CalibrationScores {
+  calibrationTrades: number; // Settled BUYs with an entry price
+  brierScore: number | null; // Mean (price - outcome)^2; null without settled BUYs
+  logLoss: number | null;
+  avgEdgeCents: number | null; // Mean (outcome - price) per share, in cents
+}
+
+export interface CalibrationBucket {
+  lower: number; // Entry price range, %
+  upper: number;
+  count: number;
+  impliedProbability: number; // Mean entry price, %
+  realizedWinRate: number; // %
+  edgeCents: number;
 }
 
-export interface TraderStats {
+export interface CalibrationResult extends CalibrationScores {
+  buckets: CalibrationBucket[]; // Only buckets with trades
+}
+
+export interface TraderStats extends DrawdownStats, SignificanceStats, CalibrationScores {
   name: string;
   totalPnl: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
   winRate: number;
   profitFactor: number;
   sharpeRatio: number;
@@ -92,13 +454,348 @@ export interface TraderStats {
   bestTrade: number;
   worstTrade: number;
   avgSuccessfulBet: number;
-  favoriteCategory: string; // 'Sport' or 'Non-Sport'
+  favoriteCategory: string; // Most traded category path
 }
 
 export interface AnalyticsResult {
   traderStats: TraderStats[];
   overallTimeSeries: TimeSeriesPoint[];
+  dailyEquity: TimeSeriesPoint[]; // PnL booked when realized, open positions at their latest mark
+  drawdown: DrawdownStats;
   pnlOverTimeByTrader: TimeSeriesPoint[];
   winRateOverTimeByTrader: TimeSeriesPoint[];
   dailyTradeCounts: TimeSeriesPoint[];
-}
\ No newline at end of file
+  categoryBreakdown: CategoryStats[];
+  calibration: CalibrationResult;
+  calibrationByTrader: Record<string, CalibrationResult>;
+}
+
+// One executed signal, as seen by the execution-quality report (see services/execution.ts)
+export interface ExecutionSample {
+  tradeId: string;
+  traderName: string;
+  marketTitle: string;
+  category: string; // Top-level category
+  hour: number; // Local hour of day of the signal
+  latencySeconds?: number;
+  signalPrice?: number;
+  fillPrice: number;
+  slippageCents?: number; // Positive = worse than the signal (paid more on a BUY, got less on a SELL)
+  slippageBps?: number;
+  fillRatio?: number; // Executed $ / signal $
+}
+
+export interface ExecutionGroup {
+  key: string;
+  signals: number; // All signals in the group, including failed ones
+  executed: number;
+  priced: number; // Executions whose signal quoted a price
+  avgSlippageCents: number | null;
+  avgSlippageBps: number | null;
+  medianLatencySeconds: number | null;
+  avgFillRatio: number | null; // Mean executed $ / signal $ over executions
+  attemptedFillRatio: number; // Executed $ / all signalled $ (totalAttemptedAmount), failed attempts included
+}
+
+export interface ExecutionQualityReport {
+  samples: ExecutionSample[];
+  overall: ExecutionGroup;
+  byTrader: ExecutionGroup[];
+  byCategory: ExecutionGroup[];
+  byHour: ExecutionGroup[];
+  latencySlippageCorrelation: number | null; // Pearson, over executions with both values
+  slippageCentsPerSecond: number | null; // Least-squares slope of slippage on latency
+}
+
+// Signal-to-fill latency (see services/latency.ts). Negative latencies are kept
+// out of the percentiles: they mean clock skew or a wrong match.
+export interface LatencyPercentiles {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface LatencyGroup extends LatencyPercentiles {
+  key: string;
+}
+
+export interface LatencyHistogramBin {
+  label: string;
+  lower: number; // Seconds, inclusive
+  upper: number; // Seconds, exclusive; Infinity for the last bin
+  tradeIds: string[];
+}
+
+export interface LatencyHeatmapCell {
+  weekday: number; // 0 = Sunday
+  hour: number;
+  count: number;
+  p50: number;
+  tradeIds: string[];
+}
+
+export interface LatencyRegression {
+  key: string; // Trader name, or 'All'
+  baseline: LatencyPercentiles;
+  current: LatencyPercentiles;
+  p90Change: number | null; // Seconds
+  isRegression: boolean;
+}
+
+export interface LatencyComparison {
+  baselineLabel: string;
+  currentLabel: string;
+  regressions: LatencyRegression[]; // 'All' first, then traders of the current period
+}
+
+export interface LatencyReport {
+  overall: LatencyPercentiles;
+  byTrader: LatencyGroup[];
+  byDay: LatencyGroup[]; // Keyed by local YYYY-MM-DD
+  histogram: LatencyHistogramBin[];
+  heatmap: LatencyHeatmapCell[]; // Only cells with trades
+  outlierTradeIds: string[]; // Above the overall p99
+  negativeTradeIds: string[];
+}
+
+// Subset of trades the trade log is narrowed to from another panel
+export interface TradeSelection {
+  label: string;
+  tradeIds: string[];
+}
+
+// Settled price of one outcome, read from a closed position row
+export interface MarketSettlement {
+  outcome: string;
+  price: number; // 0-1
+  result: 'WIN' | 'LOSS';
+}
+
+// Everything known about one market, keyed by simplified slug (see services/markets.ts)
+export interface MarketSummary {
+  key: string;
+  slug: string;
+  title: string;
+  url: string;
+  category: string;
+  signalCount: number;
+  traderCount: number;
+  fillCount: number; // Activity rows in the market, matched to a signal or not
+  failedCount: number; // Failed or skipped signals
+  exposure: number; // Current value of open positions
+  realizedPnl: number;
+  unrealizedPnl: number;
+  status: 'Open' | 'Settled' | 'Unknown'; // Unknown = no position rows for the market
+  settlements: MarketSettlement[];
+  firstSignal: string; // ISO
+  lastSignal: string; // ISO
+  maxPileIn: number; // Most distinct traders signalling the same side and outcome within the pile-in window
+}
+
+export interface MarketTimelineEvent {
+  kind: 'signal' | 'fill';
+  time: number; // ms
+  trade?: ProcessedTrade; // kind = 'signal'
+  fill?: PortfolioRow; // kind = 'fill'
+  matchedTradeId?: string; // Fill the matcher attributed to a signal
+  pileIn?: number; // Signal: distinct traders on the same side and outcome within the window, itself included
+}
+
+export interface MarketTraderBreakdown {
+  trader: string;
+  signals: number;
+  filled: number;
+  firstSignal: string; // ISO
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+export interface MarketDetail {
+  summary: MarketSummary;
+  events: MarketTimelineEvent[]; // Chronological
+  openPositions: PortfolioRow[];
+  closedPositions: PortfolioRow[];
+  byTrader: MarketTraderBreakdown[]; // In order of first signal
+}
+
+// How two followed traders relate (see services/correlation.ts)
+export interface TraderPairStats {
+  traderA: string;
+  traderB: string;
+  sharedMarkets: number;
+  jaccard: number; // Shared markets / markets either signalled, 0-1
+  agreements: number; // Shared markets where both bought the same outcome first
+  disagreements: number;
+  agreementRate: number | null; // null when no shared market has a BUY from both
+  pnlCorrelation: number | null; // Pearson on daily PnL; null with too few active days
+  correlationDays: number;
+  aFirst: number; // Shared markets where A signalled first
+  bFirst: number;
+  medianLeadMinutes: number | null; // Positive when A typically signals before B
+  sameSource: boolean; // Overlap, agreement and timing suggest one signal source
+}
+
+export interface TraderCorrelationReport {
+  traders: string[];
+  pairs: TraderPairStats[]; // Each unordered pair once, traderA < traderB
+}
+
+// One open position row valued for the risk report (see services/exposure.ts)
+export interface OpenPositionRisk {
+  slug: string;
+  title: string;
+  outcome: string;
+  category: string;
+  shares: number;
+  avgPrice: number;
+  price: number; // Current price, read as the probability the outcome pays out
+  costBasis: number; // shares × avgPrice: lost if the outcome resolves against us
+  marketValue: number; // shares × price, also the expected payout
+  resolutionDate?: string; // YYYY-MM-DD in the display zone
+  traders: { trader: string; shares: number }[]; // Held shares attributed to matched signals
+}
+
+export interface ExposureGroup {
+  key: string;
+  positions: number;
+  costBasis: number;
+  marketValue: number;
+  share: number; // Of total capital at risk, 0-1
+}
+
+export interface ExposureReport {
+  positions: OpenPositionRisk[];
+  capitalAtRisk: number;
+  marketValue: number;
+  maxLoss: number; // Every position resolves against us: the whole cost basis
+  maxGain: number; // Every position pays out $1 a share
+  expectedPnl: number; // Market value minus cost basis, with price as probability
+  byMarket: ExposureGroup[];
+  byCategory: ExposureGroup[];
+  byTrader: ExposureGroup[];
+  byResolutionDate: ExposureGroup[]; // Chronological
+  largestMarket: ExposureGroup | null;
+}
+
+// Open positions expected to resolve on one day (see services/resolution.ts)
+export interface ResolutionDay {
+  day: string; // YYYY-MM-DD
+  positions: OpenPositionRisk[];
+  capital: number; // Cost basis of the positions
+  expectedPayout: number; // Shares × current price
+  maxPayout: number; // Every share pays $1
+  pastDue: boolean; // Before today and still open
+}
+
+export interface ResolutionCalendar {
+  today: string;
+  days: ResolutionDay[]; // Days with positions, chronological
+  pastDue: OpenPositionRisk[];
+  undated: OpenPositionRisk[]; // No usable end date on the position row
+  upcomingWeek: ResolutionDay[]; // Today and the next 6 days, empty days included
+  upcomingWeekTotals: { capital: number; expectedPayout: number; maxPayout: number };
+}
+
+// Wallet USDC over time, replayed from activity rows (see services/balance.ts)
+export interface BalancePoint {
+  time: number; // ms
+  balance: number; // After this row
+  change: number;
+  kind: string; // BUY, SELL, REDEEM...
+  market: string;
+}
+
+// A balance the bot reported in chat, against the replayed balance at that moment
+export interface BalanceSnapshot {
+  time: number;
+  reported: number;
+  reconstructed: number;
+}
+
+export interface TiedUpPosition {
+  market: string;
+  outcome: string;
+  shares: number;
+  cost: number;
+}
+
+export interface BalanceFailure {
+  trade: ProcessedTrade;
+  time: number;
+  balance: number; // Replayed balance when the signal arrived
+  shortfall: number; // Signal amount the balance could not cover
+  tiedUp: number; // Cost of every position held at that moment
+  positions: TiedUpPosition[]; // Largest first
+}
+
+export interface BalanceTimeline {
+  startingBalance: number;
+  startingBalanceSource: 'input' | 'chat' | 'none';
+  points: BalancePoint[];
+  snapshots: BalanceSnapshot[];
+  failures: BalanceFailure[];
+  lowestBalance: number;
+  skippedRows: number; // Activity rows with no timestamp, amount or known type
+}
+
+// Inclusive bounds; a missing side is open
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+// Trade log filters; serialized to the URL so a filtered view can be shared
+export interface TradeFilters {
+  text: string; // Free-text search over trader, market, side, outcome and category
+  successfulOnly: boolean;
+  category: string; // '' = all; a parent path includes its subcategories
+  dateRange: { from?: string; to?: string }; // YYYY-MM-DD in the display zone
+  pnl: NumericRange;
+  execAmount: NumericRange;
+  latency: NumericRange; // Seconds
+  status: string[]; // Empty = any
+  result: string[]; // 'WIN' | 'LOSS' | 'OPEN', or '' for trades without a result
+  trader: string[];
+  failureReason: string[];
+  matchType: string[]; // matchConfidence values
+}
+
+export interface TradeSort {
+  key: string; // Column id
+  direction: 'asc' | 'desc';
+}
+
+// Column arrangement of a table, remembered across sessions
+export interface TableLayout {
+  visibleColumns: string[];
+  columnOrder: string[];
+  columnWidths: Record<string, number>; // px; columns without an entry use their default
+}
+
+// Performance per taxonomy node; top-level rows roll up their subcategories
+export interface CategoryStats {
+  category: string; // Full path
+  depth: number; // 0 for top-level categories
+  tradeCount: number;
+  totalPnl: number;
+  winRate: number;
+  volume: number; // Executed $
+}
+// Date-range panels besides the analytics, computed together in the pipeline worker
+export interface RangeReports {
+  opportunityCost: OpportunityCostReport;
+  executionQuality: ExecutionQualityReport;
+  latency: LatencyReport;
+  latencyComparison: LatencyComparison | null; // Only with a date range selected
+  markets: MarketSummary[];
+  traderCorrelation: TraderCorrelationReport;
+}
+
+// Panels over the whole history, whatever the date range: open risk and the balance replay
+export interface HoldingsReports {
+  exposure: ExposureReport;
+  resolutionCalendar: ResolutionCalendar;
+  balance: BalanceTimeline;
+}